@@ -1,7 +1,7 @@
 
-import React, { useState, useCallback, useMemo, useEffect, useRef } from 'react';
+import React, { useState, useCallback, useMemo, useEffect, useLayoutEffect, useRef } from 'react';
 import { v4 as uuidv4 } from 'uuid';
-import { parseISO, format, addDays, startOfDay, isValid, isWeekend, getISOWeek, eachDayOfInterval, isSameDay } from 'date-fns';
+import { parseISO, format, startOfDay, isValid, getISOWeek, eachDayOfInterval, addDays } from 'date-fns';
 import { 
   Plus, 
   Trash2, 
@@ -28,104 +28,298 @@ import {
   Save,
   RotateCcw,
   Check,
-  Database
+  Database,
+  CalendarDays,
+  Activity,
+  Columns3,
+  Spline,
+  Flag,
+  Upload,
+  Download,
+  FileDown,
+  FileSpreadsheet,
+  Image as ImageIcon,
+  ZoomIn,
+  ZoomOut,
+  MoveHorizontal,
+  Users,
+  Diamond,
+  ChevronDown,
+  ChevronRight,
+  ChevronsDownUp,
+  ChevronsUpDown,
+  IndentIncrease,
+  IndentDecrease,
+  Cloud,
+  CloudOff,
+  ShieldAlert,
+  ListRestart,
+  FolderInput,
+  Gauge,
+  Coins
 } from 'lucide-react';
 
-import { ProjectItem, ItemType, DependencyMode, Project, Backup } from './types';
+import { ProjectItem, ItemType, Project, Backup, WorkCalendar, ImportReport, ZoomLevel, Assignment, Resource } from './types';
 import { 
   calculateEndDate, 
-  calculateStartDate,
   calculateWorkDays, 
   getProjectDateRange, 
   STEP_COLORS,
   formatProjectDate
 } from './utils/dateHelpers';
+import {
+  rescheduleItems,
+  pruneDependencyLinks,
+  formatPredecessors,
+  parsePredecessors,
+  recalculateAllDates,
+  isSchedulable
+} from './utils/scheduling';
+import { DEFAULT_CALENDAR, isWorkingDay, isWorkingWeekday } from './utils/calendar';
+import { analyzeCriticalPath } from './utils/criticalPath';
+import {
+  createColumnIndex,
+  getVisibleSpan,
+  getZoomLevel,
+  getTimelineSegments,
+  getColumnAtOrAfter,
+  TimelineUnit,
+  ZOOM_DAY_WIDTHS,
+  MIN_DAY_WIDTH,
+  MAX_DAY_WIDTH,
+  getMilestonePoints
+} from './utils/gantt';
+import { createBaseline, getItemVariance } from './utils/baselines';
+import { buildOutline, getLevel, getHiddenIds, getSubtreeEnd, moveSubtree } from './utils/wbs';
+import { exportProjectToMspdi, importProjectFromMspdi } from './utils/mspdi';
+import { downloadFile, toFileStem } from './utils/download';
+import { exportItemsToDelimited } from './utils/csv';
+import {
+  createResource,
+  withResourceCalendars,
+  getAccountableName,
+  linkAccountablesToResources,
+  migrateProjectResources,
+  computeResourceUsage,
+  reconcileAssignments
+} from './utils/resources';
+import { reIndexItems, applyItemEdit, describeCycle } from './engine';
+import CalendarModal from './components/CalendarModal';
+import DependencyArrows, { BarSpan, HoveredLink } from './components/DependencyArrows';
+import BaselineModal from './components/BaselineModal';
+import ImportReportModal from './components/ImportReportModal';
+import CsvImportModal, { CsvImportResult } from './components/CsvImportModal';
+import ChartExportModal from './components/ChartExportModal';
+import ResourceModal from './components/ResourceModal';
+import AssignmentModal from './components/AssignmentModal';
+import ResourceUsagePanel from './components/ResourceUsagePanel';
+import LevelingModal from './components/LevelingModal';
+import SyncModal from './components/SyncModal';
+import TabConflictNotice from './components/TabConflictNotice';
+import QuarantineModal from './components/QuarantineModal';
+import HistoryPanel from './components/HistoryPanel';
+import SnapshotDiffModal from './components/SnapshotDiffModal';
+import WorkspaceImportModal from './components/WorkspaceImportModal';
+import StatusModal from './components/StatusModal';
+import CostModal from './components/CostModal';
+import {
+  openStorage,
+  describeStorageError,
+  MAX_BACKUPS,
+  StorageAdapter,
+  createSyncClient,
+  SyncClient,
+  SyncStatus,
+  SYNC_DISABLED,
+  SYNC_URL_SETTING,
+  resetSyncState,
+  openTabChannel,
+  TabChannel,
+  TabMessage,
+  readProject,
+  readBackup,
+  SCHEMA_VERSION,
+  loadQuarantine,
+  saveQuarantine,
+  toQuarantined,
+  mergeQuarantine,
+  QuarantinedRecord,
+  createWorkspaceFile,
+  readWorkspaceFile,
+  combineBackups,
+  duplicateProject,
+  mergeImportedProject,
+  ClashResolution,
+  WorkspaceEntry,
+  WorkspaceReadResult
+} from './storage';
+import { diffProjects, mergeProjectPatch, keepMinePatch, MergeConflict } from './utils/merge';
+import { recordCommand, travelTo, describeItemEdit, ProjectHistory, EMPTY_HISTORY, CommandLabel } from './utils/history';
+import { restoreSnapshotRows, SnapshotChange } from './utils/snapshots';
+import { getEarnedValueReport, formatEffort, formatSpi } from './utils/earnedValue';
+import { exportCostBreakdown, formatCost, getCostTotals } from './utils/costs';
+
+const CRITICAL_COLOR = '#dc2626';
+
+const ZOOM_LEVELS: ZoomLevel[] = ['day', 'week', 'month', 'quarter'];
+const WHEEL_ZOOM_FACTOR = 1.15;
+
+// Virtualization: the scroll position is snapped to blocks so scrolling only re-renders
+// when a new block comes into view; overscan keeps the edges filled while it does.
+const VIRTUAL_ROW_BLOCK = 8;
+const VIRTUAL_COL_BLOCK_PX = 256;
+const OVERSCAN_ROWS = 10;
+const OVERSCAN_PX = 400;
+
+const SYNC_STATE_STYLES: Record<SyncStatus['state'], string> = {
+  disabled: 'text-gray-500',
+  offline: 'text-amber-400',
+  pending: 'text-indigo-400',
+  synced: 'text-green-400',
+  conflict: 'text-red-400'
+};
 
-// Constants for LocalStorage keys
-const STORAGE_KEY_PROJECTS = 'pro_gantt_projects_v1';
-const STORAGE_KEY_ACTIVE_ID = 'pro_gantt_active_id_v1';
-
-// Helper for difference in days that works across TZ
-function getDaysDiff(dateLeft: Date, dateRight: Date): number {
-  if (!isValid(dateLeft) || !isValid(dateRight)) return 0;
-  return Math.round((startOfDay(dateLeft).getTime() - startOfDay(dateRight).getTime()) / (1000 * 60 * 60 * 24));
-}
+// Sideways drag distance per outline level when dropping a row
+const INDENT_PX = 24;
 
-/**
- * Automatically fixes all sId, tId and colors based on the visual list order.
- */
-const reIndexItems = (list: ProjectItem[]): ProjectItem[] => {
-  let stepCounter = 0;
-  let taskCounter = 0;
-  let currentStepColor = STEP_COLORS[0];
-
-  const itemsWithIds = list.map((item) => {
-    if (item.type === 'S') {
-      stepCounter++;
-      taskCounter = 0;
-      currentStepColor = STEP_COLORS[(stepCounter - 1) % STEP_COLORS.length] || STEP_COLORS[0];
-      return { ...item, sId: stepCounter, tId: "-1", color: currentStepColor };
-    } else {
-      taskCounter++;
-      return { ...item, sId: stepCounter || 1, tId: `${stepCounter || 1}.${taskCounter}`, color: currentStepColor };
-    }
-  });
-
-  return itemsWithIds.map((item, _, arr) => {
-    if (item.type === 'S') {
-      const childTasks = arr.filter(t => t.type === 'T' && t.sId === item.sId);
-      if (childTasks.length > 0) {
-        const startDates = childTasks.map(t => parseISO(t.start).getTime());
-        const endDates = childTasks.map(t => parseISO(t.end).getTime());
-        const minStart = new Date(Math.min(...startDates));
-        const maxEnd = new Date(Math.max(...endDates));
-        const startStr = format(minStart, 'yyyy-MM-dd');
-        const endStr = format(maxEnd, 'yyyy-MM-dd');
-        return { ...item, start: startStr, end: endStr, workDays: calculateWorkDays(startStr, endStr) };
-      }
-    }
-    return item;
-  });
+// Header tiers per zoom level: the upper band and the band of labelled cells under it
+const HEADER_TIERS: Record<ZoomLevel, { upper: TimelineUnit; lower: TimelineUnit | 'day' }> = {
+  day: { upper: 'month', lower: 'day' },
+  week: { upper: 'month', lower: 'week' },
+  month: { upper: 'year', lower: 'month' },
+  quarter: { upper: 'year', lower: 'quarter' }
 };
 
-export default function App() {
-  // --- LOCAL STORAGE LOADING ---
-  const [projects, setProjects] = useState<Project[]>(() => {
-    const saved = localStorage.getItem(STORAGE_KEY_PROJECTS);
-    return saved ? JSON.parse(saved) : [];
-  });
+type BarDragKind = 'move' | 'start' | 'end' | 'progress';
+
+interface BarDrag {
+  itemId: string;
+  kind: BarDragKind;
+  originX: number;      // clientX at mouse down
+  first: number;        // Visible column indices of the bar when the drag started
+  last: number;
+  progress: number;
+  deltaCols: number;    // Snapped column offset for move/resize
+  nextProgress: number; // Live progress value for progress drags
+}
 
-  const [currentProjectId, setCurrentProjectId] = useState<string | null>(() => {
-    return localStorage.getItem(STORAGE_KEY_ACTIVE_ID);
-  });
+export default function App() {
+  // Projects are loaded asynchronously from the storage backend (see the loading effect below)
+  const [storage, setStorage] = useState<StorageAdapter | null>(null);
+  const [storageError, setStorageError] = useState<string | null>(null);
+  const [projects, setProjects] = useState<Project[]>([]);
+  const [currentProjectId, setCurrentProjectId] = useState<string | null>(null);
 
   const [projectModal, setProjectModal] = useState<{ mode: 'create' | 'edit', project?: Project } | null>(null);
   const [showTable, setShowTable] = useState(true);
   const [hideWeekends, setHideWeekends] = useState(false);
+  const [showCriticalPath, setShowCriticalPath] = useState(false);
+  const [showFloat, setShowFloat] = useState(false);
+  const [showStatus, setShowStatus] = useState(false);
+  const [showStatusModal, setShowStatusModal] = useState(false);
+  const [showCosts, setShowCosts] = useState(false);
+  const [showCostModal, setShowCostModal] = useState(false);
+  const [showLinks, setShowLinks] = useState(true);
+  const [milestonesOnly, setMilestonesOnly] = useState(false);
+  const [collapsedIds, setCollapsedIds] = useState<Set<string>>(new Set());
+  const [hoveredLink, setHoveredLink] = useState<HoveredLink | null>(null);
   const [tableWidth, setTableWidth] = useState(window.innerWidth > 1400 ? 1050 : Math.floor(window.innerWidth * 0.6));
   const [isResizing, setIsResizing] = useState(false);
-  const [draggedIndex, setDraggedIndex] = useState<number | null>(null);
+  const [dragged, setDragged] = useState<{ id: string; clientX: number } | null>(null);
+  const [barDrag, setBarDrag] = useState<BarDrag | null>(null);
   
   // Specific item for deletion confirmation
   const [itemToDelete, setItemToDelete] = useState<ProjectItem | null>(null);
   
   const [confirmingDeleteProject, setConfirmingDeleteProject] = useState<string | null>(null);
   const [showBackupModal, setShowBackupModal] = useState(false);
+  const [comparedBackup, setComparedBackup] = useState<Backup | null>(null);
+  const [showCalendarModal, setShowCalendarModal] = useState(false);
+  const [showBaselineModal, setShowBaselineModal] = useState(false);
+  const [varianceThreshold, setVarianceThreshold] = useState(2);
+  const [showFileMenu, setShowFileMenu] = useState(false);
+  const [importReport, setImportReport] = useState<ImportReport | null>(null);
+  const [workspaceImport, setWorkspaceImport] = useState<{ fileName: string; file: WorkspaceReadResult } | null>(null);
+  const [showWorkspaceMenu, setShowWorkspaceMenu] = useState(false);
+  const [showCsvImport, setShowCsvImport] = useState(false);
+  const [showChartExport, setShowChartExport] = useState(false);
+  const [showResourcePanel, setShowResourcePanel] = useState(false);
+  const [showResourceModal, setShowResourceModal] = useState(false);
+  const [assigningItem, setAssigningItem] = useState<ProjectItem | null>(null);
+  const [showLevelingModal, setShowLevelingModal] = useState(false);
   const [isSyncing, setIsSyncing] = useState(false);
+  const [syncUrl, setSyncUrl] = useState<string | null>(null);
+  const [syncStatus, setSyncStatus] = useState<SyncStatus>(SYNC_DISABLED);
+  const [showSyncModal, setShowSyncModal] = useState(false);
+  const [tabConflicts, setTabConflicts] = useState<MergeConflict[]>([]);
+  const [quarantine, setQuarantine] = useState<QuarantinedRecord[]>([]);
+  const [showQuarantine, setShowQuarantine] = useState(false);
+  const [backups, setBackups] = useState<Backup[]>([]);
+  const [scheduleError, setScheduleError] = useState<string | null>(null);
   
-  // Undo/Redo state for the current active project
-  const [history, setHistory] = useState<ProjectItem[][]>([]);
-  const [historyIndex, setHistoryIndex] = useState(-1);
+  // Undo history per project, kept for the session
+  const [histories, setHistories] = useState<Record<string, ProjectHistory>>({});
+  const [showHistoryPanel, setShowHistoryPanel] = useState(false);
 
   const ganttContainerRef = useRef<HTMLDivElement>(null);
   const tableContainerRef = useRef<HTMLDivElement>(null);
   const isSyncingScroll = useRef(false);
+  const importInputRef = useRef<HTMLInputElement>(null);
+  const workspaceInputRef = useRef<HTMLInputElement>(null);
+  const usageInnerRef = useRef<HTMLDivElement>(null);
+  // Last version of each project known to be in storage; only projects that differ are written
+  // What storage holds per project id; null while the latest save of that project failed
+  const savedProjectsRef = useRef<Map<string, Project | null>>(new Map());
+  const pendingDeletesRef = useRef<Set<string>>(new Set());
+  const syncRef = useRef<SyncClient | null>(null);
+  // Last version of each project the other open tabs have been told about
+  const sharedProjectsRef = useRef<Map<string, Project>>(new Map());
+  const tabChannelRef = useRef<TabChannel | null>(null);
+  const tabMessageRef = useRef<(message: TabMessage) => void>(() => undefined);
+  // Changes that came from another tab; that tab sends them to the sync server itself
+  const fromOtherTabRef = useRef<{ projects: WeakSet<Project>; removed: Set<string> }>({ projects: new WeakSet(), removed: new Set() });
+  const projectsRef = useRef<Project[]>([]);
+  projectsRef.current = projects;
 
   const activeProject = useMemo(() => projects.find(p => p.id === currentProjectId), [projects, currentProjectId]);
   const items = activeProject?.items || [];
+  const resources = useMemo(() => activeProject?.resources || [], [activeProject?.resources]);
+  // The saved calendar is what the calendar editor changes; scheduling also folds in personal work weeks
+  const baseCalendar = activeProject?.calendar || DEFAULT_CALENDAR;
+  const calendar = useMemo(() => withResourceCalendars(baseCalendar, resources), [baseCalendar, resources]);
+  const activeBaseline = activeProject?.baselines?.find(b => b.id === activeProject.activeBaselineId) || null;
+  const today = format(new Date(), 'yyyy-MM-dd');
+  const statusDate = activeProject?.statusDate || today;
+  const earnedValue = useMemo(() => getEarnedValueReport(items, statusDate, calendar), [items, statusDate, calendar]);
+  const behindIds = useMemo(() => new Set(earnedValue.behind), [earnedValue]);
+
+  const outline = useMemo(() => buildOutline(items), [items]);
+  const stepsWithChildren = useMemo(() => new Set(outline.filter(e => e.parent >= 0).map(e => items[e.parent].id)), [outline, items]);
+
+  // Rows laid out in the table and chart: collapsed steps hide their subtree, and the
+  // milestone filter keeps each milestone with the steps above it as headers
+  const rows = useMemo(() => {
+    const hidden = getHiddenIds(items, collapsedIds);
+    if (!milestonesOnly) return hidden.size > 0 ? items.filter(i => !hidden.has(i.id)) : items;
+    const keep = new Set<number>();
+    items.forEach((item, idx) => {
+      if (item.type !== 'M') return;
+      for (let row = idx; row !== -1 && !keep.has(row); row = outline[row].parent) keep.add(row);
+    });
+    return items.filter((item, idx) => keep.has(idx) && !hidden.has(item.id));
+  }, [items, outline, collapsedIds, milestonesOnly]);
+
+  const toggleCollapsed = (id: string) => {
+    setCollapsedIds(prev => {
+      const next = new Set(prev);
+      if (!next.delete(id)) next.add(id);
+      return next;
+    });
+  };
 
   const rowHeight = 40; 
-  const dayWidth = 32;  
+  const [dayWidth, setDayWidth] = useState(ZOOM_DAY_WIDTHS.day);
+  const zoomLevel = getZoomLevel(dayWidth);
   const headerHeight = 100;
   const bottomButtonHeight = 46; // Matches the "CREATE NEW PHASE" row height
   
@@ -135,46 +329,416 @@ export default function App() {
     if (!isValid(rawTimelineStart) || !isValid(rawTimelineEnd)) return [];
     const allDays = eachDayOfInterval({ start: rawTimelineStart, end: rawTimelineEnd });
     if (hideWeekends) {
-      return allDays.filter(d => !isWeekend(d));
+      return allDays.filter(d => isWorkingWeekday(d, calendar));
     }
     return allDays;
-  }, [rawTimelineStart, rawTimelineEnd, hideWeekends]);
+  }, [rawTimelineStart, rawTimelineEnd, hideWeekends, calendar]);
 
   const daysCount = visibleDates.length;
+  const columnIndex = useMemo(() => createColumnIndex(visibleDates), [visibleDates]);
+
+  // --- VIRTUALIZATION ---
+  const [viewport, setViewport] = useState({ top: 0, left: 0, width: 1600, height: 1200 });
+
+  const syncViewport = useCallback(() => {
+    const el = ganttContainerRef.current;
+    if (!el) return;
+    const rowBlock = rowHeight * VIRTUAL_ROW_BLOCK;
+    const next = {
+      top: Math.floor(el.scrollTop / rowBlock) * rowBlock,
+      left: Math.floor(el.scrollLeft / VIRTUAL_COL_BLOCK_PX) * VIRTUAL_COL_BLOCK_PX,
+      width: el.clientWidth,
+      height: el.clientHeight
+    };
+    setViewport(prev => (prev.top === next.top && prev.left === next.left && prev.width === next.width && prev.height === next.height) ? prev : next);
+  }, []);
 
-  const todayX = useMemo(() => {
+  const rowStart = Math.max(0, Math.floor(viewport.top / rowHeight) - OVERSCAN_ROWS);
+  const rowEnd = Math.min(rows.length - 1, Math.ceil((viewport.top + viewport.height) / rowHeight) + VIRTUAL_ROW_BLOCK + OVERSCAN_ROWS);
+  const colStart = Math.max(0, Math.floor((viewport.left - OVERSCAN_PX) / dayWidth));
+  const colEnd = Math.min(daysCount - 1, Math.ceil((viewport.left + viewport.width + VIRTUAL_COL_BLOCK_PX + OVERSCAN_PX) / dayWidth));
+  const visibleRows = useMemo(() => rows.slice(rowStart, rowEnd + 1), [rows, rowStart, rowEnd]);
+  const visibleColumns = useMemo(() => {
+    const cols: number[] = [];
+    for (let i = colStart; i <= colEnd; i++) cols.push(i);
+    return cols;
+  }, [colStart, colEnd]);
+  const inColumnWindow = (seg: { first: number; last: number }) => seg.last >= colStart && seg.first <= colEnd;
+
+  const scheduleAnalysis = useMemo(() => {
+    if (!showCriticalPath && !showFloat) return {};
+    return analyzeCriticalPath(items, calendar);
+  }, [items, calendar, showCriticalPath, showFloat]);
+
+  const tableColumnCount = 14 + (showFloat ? 1 : 0) + (activeBaseline ? 2 : 0) + (showStatus ? 2 : 0) + (showCosts ? 2 : 0);
+
+  const barSpans = useMemo(() => {
+    const spans = new Map<string, BarSpan>();
+    rows.forEach((item, row) => {
+      const span = getVisibleSpan(columnIndex, item.start, item.end);
+      if (span) spans.set(item.id, { row, ...span });
+    });
+    return spans;
+  }, [rows, columnIndex]);
+
+  const criticalIds = useMemo(() => {
+    if (!showCriticalPath) return undefined;
+    return new Set(Object.keys(scheduleAnalysis).filter(id => scheduleAnalysis[id].critical));
+  }, [scheduleAnalysis, showCriticalPath]);
+
+  // A hidden "today" (weekend view) is drawn at the start of the next visible column
+  const todayIndex = useMemo(() => {
     const today = startOfDay(new Date());
-    const idx = visibleDates.findIndex(d => isSameDay(d, today));
-    return idx === -1 ? -100 : idx * dayWidth;
-  }, [visibleDates, dayWidth]);
+    if (visibleDates.length === 0 || today < visibleDates[0]) return -1;
+    return getColumnAtOrAfter(columnIndex, today);
+  }, [visibleDates, columnIndex]);
+  const todayX = todayIndex === -1 ? -100 : todayIndex * dayWidth;
+
+  // Progress is measured at the end of the status date, so its line sits where the next day starts
+  const statusX = useMemo(() => {
+    const next = addDays(parseISO(statusDate), 1);
+    if (visibleDates.length === 0 || next <= visibleDates[0]) return -100;
+    const index = getColumnAtOrAfter(columnIndex, next);
+    return index === -1 ? visibleDates.length * dayWidth : index * dayWidth;
+  }, [statusDate, visibleDates, columnIndex, dayWidth]);
+
+  const resourceUsage = useMemo(() => {
+    if (!showResourcePanel && !showResourceModal) return [];
+    return computeResourceUsage(items, resources, calendar, columnIndex);
+  }, [items, resources, calendar, columnIndex, showResourcePanel, showResourceModal]);
+
+  const headerTiers = useMemo(() => {
+    const tiers = HEADER_TIERS[zoomLevel];
+    return {
+      upper: getTimelineSegments(visibleDates, tiers.upper),
+      lower: tiers.lower === 'day' ? null : getTimelineSegments(visibleDates, tiers.lower),
+      weeks: tiers.lower === 'day' ? getTimelineSegments(visibleDates, 'week') : null
+    };
+  }, [visibleDates, zoomLevel]);
 
-  // --- LOCAL STORAGE PERSISTENCE ---
+  // --- PERSISTENCE ---
   useEffect(() => {
+    let cancelled = false;
+    openStorage()
+      .then(async ({ storage: adapter, problem }) => {
+        const [saved, activeId, savedSyncUrl, quarantined] = await Promise.all([
+          adapter.loadProjects(),
+          adapter.loadActiveProjectId(),
+          adapter.loadSetting<string>(SYNC_URL_SETTING),
+          loadQuarantine(adapter)
+        ]);
+        if (cancelled) return;
+        // Records that fail the schema stay in storage untouched but out of the workspace
+        const loaded: Project[] = [];
+        const damaged: QuarantinedRecord[] = [];
+        (Array.isArray(saved) ? saved as unknown[] : []).forEach(raw => {
+          const { value, issues } = readProject(raw);
+          if (value && issues.length === 0) loaded.push(value);
+          else damaged.push(toQuarantined('storage', raw, issues, !!value));
+        });
+        setQuarantine(mergeQuarantine(quarantined, damaged));
+        if (damaged.length > 0) setShowQuarantine(true);
+        savedProjectsRef.current = new Map(loaded.map(p => [p.id, p]));
+        sharedProjectsRef.current = new Map(loaded.map(p => [p.id, p]));
+        projectsRef.current = loaded;
+        setProjects(loaded);
+        setCurrentProjectId(activeId);
+        setSyncUrl(savedSyncUrl || null);
+        setStorage(adapter);
+        if (problem) setStorageError(problem);
+      })
+      .catch(err => { if (!cancelled) setStorageError(describeStorageError(err)); });
+    return () => { cancelled = true; };
+  }, []);
+
+  // Writes the projects that changed since the last successful save and deletes removed ones.
+  // Failed saves and deletes stay pending, so the next change (or Retry) runs them again.
+  const persistProjects = useCallback((list: Project[]) => {
+    if (!storage) return;
+    const saved = savedProjectsRef.current;
+    const pendingDeletes = pendingDeletesRef.current;
+    const changed = list.filter(p => saved.get(p.id) !== p);
+    const removed = Array.from(saved.keys()).filter(id => !list.some(p => p.id === id));
+    removed.forEach(id => { saved.delete(id); pendingDeletes.add(id); });
+    // A project that came back (a restore, another tab) is written again rather than deleted
+    list.forEach(p => pendingDeletes.delete(p.id));
+    if (changed.length === 0 && pendingDeletes.size === 0) return;
+    changed.forEach(p => saved.set(p.id, p));
+    const fromOtherTab = fromOtherTabRef.current;
+    syncRef.current?.noteChanges(
+      changed.filter(p => !fromOtherTab.projects.has(p)),
+      removed.filter(id => !fromOtherTab.removed.delete(id))
+    );
     setIsSyncing(true);
-    localStorage.setItem(STORAGE_KEY_PROJECTS, JSON.stringify(projects));
-    const timer = setTimeout(() => setIsSyncing(false), 500);
-    return () => clearTimeout(timer);
-  }, [projects]);
+    Promise.all([
+      ...changed.map(p => storage.saveProject(p).catch(err => { if (saved.get(p.id) === p) saved.set(p.id, null); throw err; })),
+      ...Array.from(pendingDeletes).map(id => storage.deleteProject(id).then(() => { pendingDeletes.delete(id); }))
+    ])
+      .then(() => setStorageError(null))
+      .catch(err => setStorageError(describeStorageError(err)))
+      .finally(() => setIsSyncing(false));
+  }, [storage]);
 
   useEffect(() => {
-    if (currentProjectId) {
-      localStorage.setItem(STORAGE_KEY_ACTIVE_ID, currentProjectId);
+    persistProjects(projects);
+  }, [projects, persistProjects]);
+
+  // Tells the other tabs what changed since they were last told: new and deleted projects
+  // whole, edited projects as item-level patches they merge into their own edits
+  const shareWithTabs = useCallback((list: Project[]) => {
+    const shared = sharedProjectsRef.current;
+    const channel = tabChannelRef.current;
+    list.forEach(project => {
+      const before = shared.get(project.id);
+      if (before === project) return;
+      shared.set(project.id, project);
+      if (!before) channel?.post({ type: 'created', project });
+      else {
+        const patch = diffProjects(before, project);
+        if (patch) channel?.post({ type: 'patch', patch });
+      }
+    });
+    Array.from(shared.keys()).filter(id => !list.some(p => p.id === id)).forEach(id => {
+      shared.delete(id);
+      channel?.post({ type: 'deleted', projectId: id });
+    });
+  }, []);
+
+  useEffect(() => {
+    shareWithTabs(projects);
+  }, [projects, shareWithTabs]);
+
+  // Rebuilds codes and step rollups after a merge, on the merged project's own calendar
+  const reIndexProject = (project: Project, items: ProjectItem[]): Project => ({
+    ...project,
+    items: reIndexItems(items, withResourceCalendars(project.calendar || DEFAULT_CALENDAR, project.resources || []))
+  });
+
+  const handleTabMessage = (message: TabMessage) => {
+    if (message.type === 'etag') {
+      syncRef.current?.noteEtag(message.projectId, message.etag);
+      return;
+    }
+    // Anything this tab changed but has not shared yet must not be taken for the shared version
+    shareWithTabs(projectsRef.current);
+    const list = projectsRef.current;
+    const shared = sharedProjectsRef.current;
+    const fromOtherTab = fromOtherTabRef.current;
+    let next = list;
+
+    if (message.type === 'deleted') {
+      if (!list.some(p => p.id === message.projectId)) return;
+      next = list.filter(p => p.id !== message.projectId);
+      shared.delete(message.projectId);
+      fromOtherTab.removed.add(message.projectId);
+      setCurrentProjectId(prev => prev === message.projectId ? null : prev);
+      setTabConflicts(prev => prev.filter(c => c.projectId !== message.projectId));
+    } else if (message.type === 'created') {
+      if (list.some(p => p.id === message.project.id)) return;
+      next = [...list, message.project];
+      shared.set(message.project.id, message.project);
+      fromOtherTab.projects.add(message.project);
     } else {
-      localStorage.removeItem(STORAGE_KEY_ACTIVE_ID);
+      const { patch } = message;
+      const local = list.find(p => p.id === patch.projectId);
+      if (!local) return;
+      const merged = mergeProjectPatch(local, patch);
+      const project = reIndexProject(merged.project, merged.project.items);
+      next = list.map(p => p.id === project.id ? project : p);
+      shared.set(project.id, project);
+      fromOtherTab.projects.add(project);
+      // A field the other tab has now settled is no longer in conflict unless it clashed again
+      const settled = (c: MergeConflict) => c.projectId === patch.projectId && (c.itemId
+        ? patch.removed.includes(c.itemId) || patch.items.some(e => e.id === c.itemId && e.changes.some(ch => ch.key === c.key))
+        : patch.fields.some(f => f.key === c.key));
+      setTabConflicts(prev => [...prev.filter(c => !settled(c)), ...merged.conflicts]);
     }
-  }, [currentProjectId]);
+
+    projectsRef.current = next;
+    setProjects(next);
+  };
+  tabMessageRef.current = handleTabMessage;
+
+  useEffect(() => {
+    if (!storage) return;
+    const channel = openTabChannel(message => tabMessageRef.current(message));
+    tabChannelRef.current = channel;
+    return () => {
+      channel?.close();
+      tabChannelRef.current = null;
+    };
+  }, [storage]);
+
+  const resolveTabConflict = (conflict: MergeConflict, keep: 'mine' | 'theirs') => {
+    setTabConflicts(prev => prev.filter(c => c !== conflict));
+    if (keep === 'mine') {
+      tabChannelRef.current?.post({ type: 'patch', patch: keepMinePatch(conflict) });
+      return;
+    }
+    // Taking their value is a local edit, so it is shared back like any other
+    setProjects(prev => prev.map(p => {
+      if (p.id !== conflict.projectId) return p;
+      if (!conflict.itemId) return { ...p, [conflict.key]: conflict.theirs };
+      return reIndexProject(p, p.items.map(i => i.id === conflict.itemId ? { ...i, [conflict.key]: conflict.theirs } : i));
+    }));
+  };
+
+  // Optional server sync: local saves above stay first, the client queues them for the server
+  // and hands back projects that other people changed
+  useEffect(() => {
+    if (!storage || !syncUrl) {
+      setSyncStatus(SYNC_DISABLED);
+      return;
+    }
+    const client = createSyncClient({
+      baseUrl: syncUrl,
+      storage,
+      getProjects: () => projectsRef.current,
+      prepare: raw => {
+        const { value, issues } = readProject(raw);
+        return issues.length === 0 ? value : null;
+      },
+      onRemoteChange: project => setProjects(prev =>
+        prev.some(p => p.id === project.id) ? prev.map(p => p.id === project.id ? project : p) : [...prev, project]),
+      onRemoteDelete: id => setProjects(prev => prev.filter(p => p.id !== id)),
+      onEtag: (projectId, etag) => tabChannelRef.current?.post({ type: 'etag', projectId, etag }),
+      onStatus: setSyncStatus
+    }, projectsRef.current);
+    syncRef.current = client;
+    return () => {
+      client.dispose();
+      syncRef.current = null;
+    };
+  }, [storage, syncUrl]);
+
+  const saveSyncUrl = async (url: string | null) => {
+    if (!storage) return;
+    try {
+      // ETags belong to one server, and edits made while disconnected were never queued
+      await resetSyncState(storage);
+      await storage.saveSetting(SYNC_URL_SETTING, url);
+      setSyncUrl(url);
+    } catch (err) {
+      setStorageError(describeStorageError(err));
+    }
+  };
+
+  useEffect(() => {
+    if (storage) saveQuarantine(storage, quarantine).catch(err => setStorageError(describeStorageError(err)));
+  }, [storage, quarantine]);
+
+  const recoverQuarantined = (record: QuarantinedRecord) => {
+    const project = record.source === 'backup' ? readBackup(record.raw).value?.project : readProject(record.raw).value;
+    if (!project) return;
+    // A recovered record takes the place of the project it belongs to, like restoring a snapshot
+    setProjects(prev => prev.some(p => p.id === project.id) ? prev.map(p => p.id === project.id ? project : p) : [...prev, project]);
+    setQuarantine(prev => prev.filter(r => r.key !== record.key));
+  };
+
+  const discardQuarantined = async (record: QuarantinedRecord) => {
+    setQuarantine(prev => prev.filter(r => r.key !== record.key));
+    if (!storage || !record.projectId) return;
+    try {
+      // The damaged copy is still in storage and would be found again on the next load
+      if (record.source === 'storage' && !projects.some(p => p.id === record.projectId)) {
+        await storage.deleteProject(record.projectId);
+      } else if (record.source === 'backup') {
+        const raw = JSON.stringify(record.raw);
+        const list = await storage.loadBackups(record.projectId);
+        await storage.saveBackups(record.projectId, list.filter(b => JSON.stringify(b) !== raw));
+      }
+    } catch (err) {
+      setStorageError(describeStorageError(err));
+    }
+  };
+
+  const downloadQuarantined = (record: QuarantinedRecord) => {
+    // Text that was not valid JSON is handed back exactly as it was found
+    const content = typeof record.raw === 'string' ? record.raw : JSON.stringify(record.raw, null, 2);
+    downloadFile(`${toFileStem(record.name)}-damaged.json`, content, 'application/json');
+  };
+
+  useEffect(() => {
+    storage?.saveActiveProjectId(currentProjectId).catch(err => setStorageError(describeStorageError(err)));
+  }, [storage, currentProjectId]);
 
   const jumpToToday = useCallback(() => {
     if (ganttContainerRef.current && visibleDates.length > 0) {
-      const today = startOfDay(new Date());
-      let todayIdx = visibleDates.findIndex(d => isSameDay(d, today));
-      if (todayIdx === -1) todayIdx = visibleDates.findIndex(d => d > today);
+      const todayIdx = getColumnAtOrAfter(columnIndex, new Date());
       if (todayIdx !== -1) {
         const scrollPos = (todayIdx * dayWidth) - (ganttContainerRef.current.clientWidth / 2);
         ganttContainerRef.current.scrollTo({ left: Math.max(0, scrollPos), behavior: 'smooth' });
       }
     }
-  }, [visibleDates]);
+  }, [visibleDates, columnIndex, dayWidth]);
+
+  // --- ZOOM ---
+  const pendingScrollLeft = useRef<number | null>(null);
+
+  /**
+   * Changes the day width while keeping the date under `anchorX` (px from the chart's left edge)
+   * in place; defaults to the middle of the viewport.
+   */
+  const zoomTo = useCallback((nextWidth: number, anchorX?: number) => {
+    const container = ganttContainerRef.current;
+    const clamped = Math.min(MAX_DAY_WIDTH, Math.max(MIN_DAY_WIDTH, nextWidth));
+    if (clamped === dayWidth) return;
+    if (container) {
+      const anchor = anchorX ?? container.clientWidth / 2;
+      const column = (container.scrollLeft + anchor) / dayWidth;
+      pendingScrollLeft.current = Math.max(0, column * clamped - anchor);
+    }
+    setDayWidth(clamped);
+  }, [dayWidth]);
+
+  const stepZoom = (direction: 1 | -1) => {
+    const idx = ZOOM_LEVELS.indexOf(zoomLevel);
+    const next = ZOOM_LEVELS[Math.min(ZOOM_LEVELS.length - 1, Math.max(0, idx + direction))];
+    zoomTo(ZOOM_DAY_WIDTHS[next]);
+  };
+
+  const fitToProject = () => {
+    const container = ganttContainerRef.current;
+    if (!container || daysCount === 0) return;
+    const width = Math.min(MAX_DAY_WIDTH, Math.max(MIN_DAY_WIDTH, container.clientWidth / daysCount));
+    if (width === dayWidth) {
+      container.scrollTo({ left: 0, behavior: 'smooth' });
+    } else {
+      pendingScrollLeft.current = 0;
+      setDayWidth(width);
+    }
+  };
+
+  useLayoutEffect(() => {
+    if (pendingScrollLeft.current !== null && ganttContainerRef.current) {
+      ganttContainerRef.current.scrollTo({ left: pendingScrollLeft.current, behavior: 'instant' });
+      pendingScrollLeft.current = null;
+      syncViewport();
+    }
+  }, [dayWidth, syncViewport]);
+
+  useEffect(() => {
+    const container = ganttContainerRef.current;
+    if (!container) return;
+    syncViewport();
+    const observer = new ResizeObserver(syncViewport);
+    observer.observe(container);
+    return () => observer.disconnect();
+  }, [syncViewport, currentProjectId, showTable]);
+
+  // Ctrl+scroll zooms around the mouse. React's wheel listener is passive, so attach natively.
+  useEffect(() => {
+    const container = ganttContainerRef.current;
+    if (!container) return;
+    const onWheel = (e: WheelEvent) => {
+      if (!e.ctrlKey && !e.metaKey) return;
+      e.preventDefault();
+      const anchorX = e.clientX - container.getBoundingClientRect().left;
+      zoomTo(dayWidth * (e.deltaY < 0 ? WHEEL_ZOOM_FACTOR : 1 / WHEEL_ZOOM_FACTOR), anchorX);
+    };
+    container.addEventListener('wheel', onWheel, { passive: false });
+    return () => container.removeEventListener('wheel', onWheel);
+  }, [zoomTo, dayWidth, currentProjectId]);
 
   useEffect(() => {
     if (currentProjectId) {
@@ -183,27 +747,39 @@ export default function App() {
     }
   }, [currentProjectId, jumpToToday]);
 
-  useEffect(() => {
-    if (activeProject) {
-      setHistory([activeProject.items]);
-      setHistoryIndex(0);
-    } else {
-      setHistory([]);
-      setHistoryIndex(-1);
+  const saveBackup = useCallback(async (project: Project) => {
+    if (!storage) return;
+    try {
+      const existing = await storage.loadBackups(project.id);
+      const newBackup: Backup = {
+        timestamp: new Date().toISOString(),
+        project: JSON.parse(JSON.stringify(project))
+      };
+      await storage.saveBackups(project.id, [newBackup, ...existing].slice(0, MAX_BACKUPS));
+    } catch (err) {
+      setStorageError(describeStorageError(err));
     }
-  }, [currentProjectId]);
-
-  const saveBackup = useCallback((project: Project) => {
-    const key = `backups_${project.id}`;
-    const raw = localStorage.getItem(key);
-    const backups: Backup[] = raw ? JSON.parse(raw) : [];
-    const newBackup: Backup = {
-      timestamp: new Date().toISOString(),
-      project: JSON.parse(JSON.stringify(project))
-    };
-    const updated = [newBackup, ...backups].slice(0, 10);
-    localStorage.setItem(key, JSON.stringify(updated));
-  }, []);
+  }, [storage]);
+
+  useEffect(() => {
+    if (!showBackupModal || !storage || !currentProjectId) return;
+    let cancelled = false;
+    storage.loadBackups(currentProjectId)
+      .then(list => {
+        if (cancelled) return;
+        const valid: Backup[] = [];
+        const damaged: QuarantinedRecord[] = [];
+        (list as unknown[]).forEach(raw => {
+          const { value, issues } = readBackup(raw);
+          if (value && issues.length === 0) valid.push(value);
+          else damaged.push(toQuarantined('backup', raw, issues, !!value));
+        });
+        setBackups(valid);
+        if (damaged.length > 0) setQuarantine(prev => mergeQuarantine(prev, damaged));
+      })
+      .catch(err => setStorageError(describeStorageError(err)));
+    return () => { cancelled = true; };
+  }, [showBackupModal, storage, currentProjectId]);
 
   useEffect(() => {
     if (!activeProject) return;
@@ -215,6 +791,10 @@ export default function App() {
 
   // Improved Scroll Sync logic to prevent loops and jitter
   const handleScroll = (e: React.UIEvent<HTMLDivElement>) => {
+    syncViewport();
+    if (e.currentTarget === ganttContainerRef.current && usageInnerRef.current) {
+      usageInnerRef.current.style.transform = `translateX(${-e.currentTarget.scrollLeft}px)`;
+    }
     if (isSyncingScroll.current) return;
     
     isSyncingScroll.current = true;
@@ -222,6 +802,7 @@ export default function App() {
 
     if (e.currentTarget === tableContainerRef.current && ganttContainerRef.current) {
       ganttContainerRef.current.scrollTop = scrollTop;
+      syncViewport();
     } else if (e.currentTarget === ganttContainerRef.current && tableContainerRef.current) {
       tableContainerRef.current.scrollTop = scrollTop;
     }
@@ -232,6 +813,13 @@ export default function App() {
     });
   };
 
+  // The usage panel only follows scroll events, so align it once when it opens
+  useLayoutEffect(() => {
+    if (showResourcePanel && usageInnerRef.current && ganttContainerRef.current) {
+      usageInnerRef.current.style.transform = `translateX(${-ganttContainerRef.current.scrollLeft}px)`;
+    }
+  }, [showResourcePanel, resources.length]);
+
   const startResizing = useCallback((e: React.MouseEvent) => {
     setIsResizing(true);
     e.preventDefault();
@@ -257,91 +845,167 @@ export default function App() {
     };
   }, [isResizing, resize, stopResizing]);
 
-  const updateItemsWithHistory = useCallback((newItems: ProjectItem[], isUndoRedoAction = false) => {
+  // --- HISTORY ---
+  // Every change to a project goes through here so it can be undone. projectsRef moves at
+  // once, so several commands in one event build on each other.
+  const commitProject = useCallback((projectId: string, label: CommandLabel, change: (project: Project) => Project, coalesceKey?: string) => {
+    const before = projectsRef.current.find(p => p.id === projectId);
+    if (!before) return;
+    const after = change(before);
+    if (after === before) return;
+    projectsRef.current = projectsRef.current.map(p => p.id === projectId ? after : p);
+    setProjects(prev => prev.map(p => p.id === projectId ? after : p));
+    setHistories(prev => ({ ...prev, [projectId]: recordCommand(prev[projectId], label, before, after, coalesceKey) }));
+  }, []);
+
+  const commitItems = useCallback((label: CommandLabel, newItems: ProjectItem[], coalesceKey?: string) => {
     if (!currentProjectId) return;
-    
-    setProjects(prev => prev.map(p => p.id === currentProjectId ? { ...p, items: newItems } : p));
-
-    if (!isUndoRedoAction) {
-      setHistory(prev => {
-        const nextHistory = prev.slice(0, historyIndex + 1);
-        const updated = [...nextHistory, newItems].slice(-11);
-        setHistoryIndex(updated.length - 1);
-        return updated;
-      });
-    }
-  }, [currentProjectId, historyIndex]);
+    commitProject(currentProjectId, label, p => ({ ...p, items: newItems }), coalesceKey);
+  }, [currentProjectId, commitProject]);
 
-  const undo = () => {
-    if (historyIndex > 0) {
-      const prevItems = history[historyIndex - 1];
-      setHistoryIndex(historyIndex - 1);
-      updateItemsWithHistory(prevItems, true);
-    }
-  };
+  const currentHistory = (currentProjectId && histories[currentProjectId]) || EMPTY_HISTORY;
 
-  const redo = () => {
-    if (historyIndex < history.length - 1) {
-      const nextItems = history[historyIndex + 1];
-      setHistoryIndex(historyIndex + 1);
-      updateItemsWithHistory(nextItems, true);
-    }
-  };
+  // Undoes or redoes entries until `target` of them are applied
+  const travelHistory = useCallback((target: number) => {
+    if (!currentProjectId) return;
+    const history = histories[currentProjectId];
+    const project = projectsRef.current.find(p => p.id === currentProjectId);
+    if (!history || !project) return;
+    const index = Math.max(0, Math.min(target, history.entries.length));
+    if (index === history.index) return;
+    const { project: moved, skipped } = travelTo(project, history, index);
+    const next = reIndexProject(moved, moved.items);
+    projectsRef.current = projectsRef.current.map(p => p.id === next.id ? next : p);
+    setProjects(prev => prev.map(p => p.id === next.id ? next : p));
+    setHistories(prev => ({ ...prev, [next.id]: { ...history, index } }));
+    setScheduleError(skipped > 0
+      ? `${skipped} field${skipped === 1 ? ' was' : 's were'} changed in another tab or on the server since, and kept ${skipped === 1 ? 'its' : 'their'} current value.`
+      : null);
+  }, [currentProjectId, histories]);
+
+  const undo = () => travelHistory(currentHistory.index - 1);
+  const redo = () => travelHistory(currentHistory.index + 1);
 
-  const updateItem = useCallback((id: string, updates: Partial<ProjectItem>) => {
+  useEffect(() => {
+    const onKeyDown = (e: KeyboardEvent) => {
+      if (!(e.ctrlKey || e.metaKey) || e.altKey) return;
+      const key = e.key.toLowerCase();
+      if (key !== 'z' && key !== 'y') return;
+      // Dialogs, forms and text areas keep the browser's own undo (and the plan behind an open
+      // dialog is left alone); table cells use the project history
+      if (document.querySelector('[role="dialog"]') || (e.target as HTMLElement).closest?.('form, textarea')) return;
+      e.preventDefault();
+      travelHistory(currentHistory.index + (key === 'y' || e.shiftKey ? 1 : -1));
+    };
+    window.addEventListener('keydown', onKeyDown);
+    return () => window.removeEventListener('keydown', onKeyDown);
+  }, [travelHistory, currentHistory.index]);
+
+  // `extra` carries project fields that change together with the item (e.g. a new resource)
+  const updateItem = useCallback((id: string, updates: Partial<ProjectItem>, extra: Partial<Project> = {}) => {
     if (!activeProject) return;
     const prevItems = activeProject.items;
-    const index = prevItems.findIndex(i => i.id === id);
-    if (index === -1) return;
-    
-    let newItems = [...prevItems];
-    let item = { ...newItems[index], ...updates };
+    if (!prevItems.some(i => i.id === id)) return;
 
-    if ('progress' in updates && updates.progress !== undefined) {
-      item.progress = Math.min(100, Math.max(0, Number(updates.progress) || 0));
+    const { items: scheduled, cycle } = applyItemEdit(prevItems, id, updates, calendar);
+    if (cycle) {
+      setScheduleError(`Circular dependency detected between tasks ${describeCycle(cycle, prevItems)}. The change was not applied.`);
+      return;
     }
-    if ('workDays' in updates && updates.workDays !== undefined) {
-      item.end = calculateEndDate(item.start, updates.workDays);
-    } else if ('end' in updates && updates.end !== undefined) {
-      item.workDays = calculateWorkDays(item.start, updates.end);
-    } else if ('start' in updates && updates.start !== undefined) {
-      item.end = calculateEndDate(updates.start, item.workDays);
+    setScheduleError(null);
+    const label = (before: Project) => {
+      const item = before.items.find(i => i.id === id) || prevItems.find(i => i.id === id)!;
+      return describeItemEdit(item, updates, calendar);
+    };
+    commitProject(activeProject.id, label, p => ({ ...p, ...extra, items: scheduled }), `${id}:${Object.keys(updates).sort().join(',')}`);
+  }, [activeProject, calendar, commitProject]);
+
+  // --- GANTT BAR DRAGGING ---
+  const startBarDrag = (e: React.MouseEvent, item: ProjectItem, kind: BarDragKind, first: number, last: number) => {
+    if (e.button !== 0) return;
+    e.preventDefault();
+    e.stopPropagation();
+    setBarDrag({ itemId: item.id, kind, originX: e.clientX, first, last, progress: item.progress, deltaCols: 0, nextProgress: item.progress });
+  };
+
+  const getDragSpan = (drag: BarDrag): { first: number; last: number } => {
+    const maxIdx = visibleDates.length - 1;
+    switch (drag.kind) {
+      case 'move': {
+        const delta = Math.min(Math.max(drag.deltaCols, -drag.first), maxIdx - drag.last);
+        return { first: drag.first + delta, last: drag.last + delta };
+      }
+      case 'start': return { first: Math.min(Math.max(0, drag.first + drag.deltaCols), drag.last), last: drag.last };
+      case 'end': return { first: drag.first, last: Math.max(Math.min(maxIdx, drag.last + drag.deltaCols), drag.first) };
+      default: return { first: drag.first, last: drag.last };
     }
+  };
 
-    newItems[index] = item;
-
-    for (let i = index; i < newItems.length - 1; i++) {
-      const current = newItems[i];
-      const next = { ...newItems[i + 1] };
-      if (next.type === 'T') {
-        let nextStart = next.start;
-        let nextEnd = next.end;
-        switch (current.mode) {
-          case 'FS': nextStart = format(addDays(parseISO(current.end), 1), 'yyyy-MM-dd'); break;
-          case 'SS': nextStart = current.start; break;
-          case 'SF': nextEnd = current.start; break;
-          case 'FF': nextEnd = current.end; break;
-        }
-        if (current.mode === 'FS' || current.mode === 'SS') nextEnd = calculateEndDate(nextStart, next.workDays);
-        if (current.mode === 'SF' || current.mode === 'FF') nextStart = calculateStartDate(nextEnd, next.workDays);
-        if (next.start !== nextStart || next.end !== nextEnd) {
-          next.start = nextStart; next.end = nextEnd; newItems[i+1] = next;
-        }
+  const onBarDragMove = useCallback((e: MouseEvent) => {
+    setBarDrag(prev => {
+      if (!prev) return prev;
+      const dx = e.clientX - prev.originX;
+      if (prev.kind === 'progress') {
+        const barWidth = (prev.last - prev.first + 1) * dayWidth;
+        const nextProgress = Math.min(100, Math.max(0, Math.round(prev.progress + (dx / barWidth) * 100)));
+        return nextProgress === prev.nextProgress ? prev : { ...prev, nextProgress };
       }
+      const deltaCols = Math.round(dx / dayWidth);
+      return deltaCols === prev.deltaCols ? prev : { ...prev, deltaCols };
+    });
+  }, [dayWidth]);
+
+  const onBarDragEnd = useCallback(() => {
+    const drag = barDrag;
+    setBarDrag(null);
+    if (!drag) return;
+    const item = items.find(i => i.id === drag.itemId);
+    if (!item) return;
+
+    if (drag.kind === 'progress') {
+      if (drag.nextProgress !== item.progress) updateItem(item.id, { progress: drag.nextProgress });
+      return;
+    }
+    const span = getDragSpan(drag);
+    if (span.first === drag.first && span.last === drag.last) return;
+    const newStart = format(visibleDates[span.first], 'yyyy-MM-dd');
+    const newEnd = format(visibleDates[span.last], 'yyyy-MM-dd');
+    // A single updateItem call keeps the whole drag as one undo entry
+    if (drag.kind === 'move') updateItem(item.id, { start: newStart });
+    else if (drag.kind === 'start') updateItem(item.id, { start: newStart, end: item.end });
+    else updateItem(item.id, { end: newEnd });
+  }, [barDrag, items, visibleDates, updateItem]);
+
+  useEffect(() => {
+    if (!barDrag) return;
+    window.addEventListener('mousemove', onBarDragMove);
+    window.addEventListener('mouseup', onBarDragEnd);
+    return () => {
+      window.removeEventListener('mousemove', onBarDragMove);
+      window.removeEventListener('mouseup', onBarDragEnd);
+    };
+  }, [barDrag, onBarDragMove, onBarDragEnd]);
+
+  const commitPredecessors = (item: ProjectItem, text: string) => {
+    const { predecessors, errors } = parsePredecessors(text, item, items);
+    if (errors.length > 0) {
+      setScheduleError(errors.join(' • '));
+      return;
     }
-    updateItemsWithHistory(reIndexItems(newItems));
-  }, [activeProject, updateItemsWithHistory]);
+    updateItem(item.id, { predecessors });
+  };
 
   const handleProjectSubmit = (e: React.FormEvent<HTMLFormElement>) => {
     e.preventDefault();
     const formData = new FormData(e.currentTarget);
     const start = formData.get('start') as string;
     const workDays = parseInt(formData.get('workDays') as string) || 1;
-    const end = calculateEndDate(start, workDays);
+    const end = calculateEndDate(start, workDays, projectModal?.project?.calendar || DEFAULT_CALENDAR);
     const name = formData.get('name') as string;
     const accountable = formData.get('accountable') as string;
 
     if (projectModal?.mode === 'create') {
+      const owner = createResource(accountable);
       const newProject: Project = {
         id: uuidv4(),
         name,
@@ -356,28 +1020,34 @@ export default function App() {
             tId: "-1",
             type: 'S',
             description: "Initial Phase",
-            accountable,
+            accountable: owner.name,
+            assignments: [{ resourceId: owner.id, allocation: 100 }],
             workDays,
             start,
             end,
             progress: 0,
-            mode: 'FS',
+            predecessors: [],
             color: STEP_COLORS[0]
           }
         ]),
-        createdAt: Date.now()
+        calendar: DEFAULT_CALENDAR,
+        resources: [owner],
+        createdAt: Date.now(),
+        schemaVersion: SCHEMA_VERSION
       };
       setProjects(prev => [...prev, newProject]);
       setCurrentProjectId(newProject.id);
     } else if (projectModal?.project) {
-      setProjects(prev => prev.map(p => p.id === projectModal.project!.id ? {
+      const original = projectModal.project;
+      const onlyRenamed = name !== original.name && accountable === original.accountable && start === original.start && workDays === original.workDays;
+      commitProject(original.id, onlyRenamed ? `Renamed the project to '${name}'` : 'Edited the project details', p => ({
         ...p,
         name,
         accountable,
         start,
         end,
         workDays
-      } : p));
+      }));
     }
     setProjectModal(null);
   };
@@ -385,78 +1055,390 @@ export default function App() {
   const addItemAt = (index: number) => {
     const parent = items[index];
     const newItem: ProjectItem = {
-      id: uuidv4(), sId: parent.sId, tId: `${parent.sId}.new`, type: 'T',
+      id: uuidv4(), sId: parent.sId, tId: `${parent.tId}.new`, type: 'T', level: parent.type === 'S' ? getLevel(parent) + 1 : getLevel(parent),
       description: "New Task", accountable: "", workDays: 1, start: parent.end,
-      end: parent.end, progress: 0, mode: 'FS', color: parent.color
+      end: parent.end, progress: 0, color: parent.color,
+      predecessors: isSchedulable(parent) ? [{ id: parent.id, mode: 'FS', lag: 0 }] : []
     };
     const updated = [...items];
     updated.splice(index + 1, 0, newItem);
-    updateItemsWithHistory(reIndexItems(updated));
+    const { items: scheduled } = rescheduleItems(updated, [], { relink: [newItem.id], calendar });
+    commitItems(`Added a task ${parent.type === 'S' ? 'under' : 'after'} '${parent.description}'`, reIndexItems(scheduled, calendar));
+    if (collapsedIds.has(parent.id)) toggleCollapsed(parent.id);
   };
 
   const addStep = () => {
     const lastItem = items[items.length - 1];
     const baseDate = lastItem ? lastItem.end : format(new Date(), 'yyyy-MM-dd');
     const newStep: ProjectItem = {
-      id: uuidv4(), sId: 0, tId: "-1", type: 'S', description: "New Phase",
-      accountable: "", workDays: 1, start: baseDate, end: baseDate, progress: 0, mode: 'FS', color: STEP_COLORS[0]
+      id: uuidv4(), sId: 0, tId: "-1", type: 'S', level: 0, description: "New Phase",
+      accountable: "", workDays: 1, start: baseDate, end: baseDate, progress: 0, predecessors: [], color: STEP_COLORS[0]
     };
-    updateItemsWithHistory(reIndexItems([...items, newStep]));
+    commitItems('Added a phase', reIndexItems([...items, newStep], calendar));
   };
 
   const deleteProject = (id: string) => {
     setProjects(prev => prev.filter(p => p.id !== id));
+    setHistories(prev => {
+      const { [id]: _deleted, ...rest } = prev;
+      return rest;
+    });
     if (currentProjectId === id) setCurrentProjectId(null);
     setConfirmingDeleteProject(null);
-    localStorage.removeItem(`backups_${id}`);
   };
 
-  const onDragStart = (idx: number) => {
-    setDraggedIndex(idx);
+  const onDragStart = (item: ProjectItem, clientX: number) => {
+    setDragged({ id: item.id, clientX });
   };
 
-  const onDrop = (targetIdx: number) => {
-    if (draggedIndex === null || draggedIndex === targetIdx) return;
-    const list = [...items];
-    const sourceItem = list[draggedIndex];
-    if (sourceItem.type === 'S') {
-      const stepItems = list.filter(i => i.sId === sourceItem.sId);
-      const others = list.filter(i => i.sId !== sourceItem.sId);
-      const targetItem = items[targetIdx];
-      let insertPos = others.findIndex(i => i.id === targetItem.id);
-      if (insertPos === -1) insertPos = others.length;
-      others.splice(draggedIndex < targetIdx ? insertPos + 1 : insertPos, 0, ...stepItems);
-      updateItemsWithHistory(reIndexItems(others));
-    } else {
-      const [moved] = list.splice(draggedIndex, 1);
-      list.splice(targetIdx, 0, moved);
-      updateItemsWithHistory(reIndexItems(list));
-    }
-    setDraggedIndex(null);
+  // Rows move with their subtree; dragging sideways while dropping indents or outdents them
+  const onDrop = (target: ProjectItem, clientX: number) => {
+    if (!dragged) return;
+    setDragged(null);
+    const from = items.findIndex(i => i.id === dragged.id);
+    const to = items.findIndex(i => i.id === target.id);
+    if (from === -1 || to === -1) return;
+    const moved = moveSubtree(items, from, to, Math.round((clientX - dragged.clientX) / INDENT_PX));
+    if (moved === items) return;
+    const next = reIndexItems(moved, calendar);
+    const row = next.find(i => i.id === dragged.id);
+    commitItems(`Moved '${row?.description}' to ${row?.tId}`, next);
+  };
+
+  const shiftLevel = (item: ProjectItem, delta: number) => {
+    const index = items.findIndex(i => i.id === item.id);
+    const moved = moveSubtree(items, index, index, delta);
+    if (moved !== items) commitItems(`${delta > 0 ? 'Indented' : 'Outdented'} '${item.description}'`, reIndexItems(moved, calendar));
   };
 
+  // Snapshots in the list have passed readBackup, so their projects are already migrated
   const restoreBackup = (backup: Backup) => {
-    setProjects(prev => prev.map(p => p.id === backup.project.id ? backup.project : p));
-    setHistory([backup.project.items]);
-    setHistoryIndex(0);
+    commitProject(backup.project.id, `Restored the snapshot of ${new Date(backup.timestamp).toLocaleString()}`, () => backup.project);
+    setComparedBackup(null);
     setShowBackupModal(false);
   };
 
+  // Restored rows keep the snapshot's dates; their successors in the live plan follow them
+  const restoreBackupRows = (backup: Backup, chosen: SnapshotChange[]) => {
+    const restored = pruneDependencyLinks(restoreSnapshotRows(items, backup.project.items, chosen));
+    const pinned = chosen.filter(c => c.kind !== 'added').map(c => c.id);
+    const { items: scheduled, cycle } = rescheduleItems(restored, pinned, { calendar });
+    if (cycle) {
+      setScheduleError(`Circular dependency detected between tasks ${describeCycle(cycle, restored)}. The snapshot rows were not restored.`);
+      return;
+    }
+    setScheduleError(null);
+    const label = `Restored ${chosen.length} row${chosen.length === 1 ? '' : 's'} from the snapshot of ${new Date(backup.timestamp).toLocaleString()}`;
+    commitItems(label, reIndexItems(scheduled, calendar));
+    setComparedBackup(null);
+    setShowBackupModal(false);
+  };
+
+  const saveCalendar = (nextCalendar: WorkCalendar) => {
+    if (!currentProjectId) return;
+    const effective = withResourceCalendars(nextCalendar, resources);
+    const rescheduled = reIndexItems(recalculateAllDates(items, effective), effective);
+    commitProject(currentProjectId, 'Changed the working calendar', p => ({ ...p, calendar: nextCalendar, items: rescheduled }));
+    setShowCalendarModal(false);
+  };
+
+  const updateActiveProject = (label: string, updates: Partial<Project>) => {
+    if (!currentProjectId) return;
+    commitProject(currentProjectId, label, p => ({ ...p, ...updates }));
+  };
+
+  // --- RESOURCES ---
+  const saveResources = (next: Resource[]) => {
+    if (!currentProjectId) return;
+    // Per-person calendar exceptions are keyed by name, so they follow renames
+    const renamed = new Map<string, string>();
+    resources.forEach(r => {
+      const updated = next.find(n => n.id === r.id);
+      if (updated && updated.name !== r.name) renamed.set(r.name.trim().toLowerCase(), updated.name);
+    });
+    const nextCalendar: WorkCalendar = {
+      ...baseCalendar,
+      exceptions: baseCalendar.exceptions.map(e => renamed.get(e.person.trim().toLowerCase()) ? { ...e, person: renamed.get(e.person.trim().toLowerCase())! } : e)
+    };
+    const effective = withResourceCalendars(nextCalendar, next);
+
+    // Items whose owner now follows another work week keep their start and work days
+    const { items: reconciled, changedIds } = reconcileAssignments(items, resources, next);
+    const changed = new Set(changedIds);
+    const withEnds = reconciled.map(item => changed.has(item.id) && item.type === 'T'
+      ? { ...item, end: calculateEndDate(item.start, item.workDays, effective, item.accountable) }
+      : item);
+    const { items: scheduled } = rescheduleItems(withEnds, changedIds, { calendar: effective });
+
+    commitProject(currentProjectId, 'Edited the resources', p => ({ ...p, resources: next, calendar: nextCalendar, items: reIndexItems(scheduled, effective) }));
+    setShowResourceModal(false);
+  };
+
+  // One history entry for the whole run, so a single undo restores the previous dates
+  const applyLeveling = (leveled: ProjectItem[]) => {
+    const moved = leveled.filter(i => i.type === 'T' && items.find(o => o.id === i.id)?.start !== i.start).length;
+    commitItems(`Leveled resources (${moved} task${moved === 1 ? '' : 's'} moved)`, reIndexItems(leveled, calendar));
+    setShowLevelingModal(false);
+  };
+
+  const saveAssignments = (item: ProjectItem, assignments: Assignment[], registry: Resource[]) => {
+    updateItem(item.id, { assignments, accountable: getAccountableName(assignments, registry) }, registry !== resources ? { resources: registry } : {});
+    setAssigningItem(null);
+  };
+
+  const saveBaseline = (name: string) => {
+    if (!activeProject) return;
+    const baseline = createBaseline(name, items);
+    updateActiveProject(`Saved baseline '${baseline.name}'`, { baselines: [...(activeProject.baselines || []), baseline], activeBaselineId: baseline.id });
+  };
+
+  const deleteBaseline = (id: string) => {
+    if (!activeProject) return;
+    const baseline = activeProject.baselines?.find(b => b.id === id);
+    updateActiveProject(`Deleted baseline '${baseline?.name}'`, {
+      baselines: (activeProject.baselines || []).filter(b => b.id !== id),
+      activeBaselineId: activeProject.activeBaselineId === id ? null : activeProject.activeBaselineId
+    });
+  };
+
+  const saveStatusDate = (date: string | null) => {
+    updateActiveProject(date ? `Set the status date to ${formatProjectDate(date)}` : 'Measured progress against today', { statusDate: date });
+  };
+
+  // Milestones only have a finish; finishing anything marks it complete
+  const saveActualDate = (item: ProjectItem, key: 'actualStart' | 'actualFinish', value: string) => {
+    const date = value || undefined;
+    const start = key === 'actualStart' ? date : item.actualStart;
+    const finish = key === 'actualFinish' ? date : item.actualFinish;
+    if (start && finish && finish < start) {
+      setScheduleError(`The actual finish of '${item.description}' cannot be before its actual start. The change was not applied.`);
+      return;
+    }
+    updateItem(item.id, key === 'actualFinish' && date ? { actualFinish: date, progress: 100 } : { [key]: date });
+  };
+
+  // An empty planned cost goes back to pricing the item from its resources' rates
+  const saveCost = (item: ProjectItem, key: 'fixedCost' | 'actualCost', value: string) => {
+    const amount = value.trim() === '' ? undefined : Math.max(0, parseFloat(value) || 0);
+    if (amount === (key === 'fixedCost' ? item.fixedCost : item.actualCost)) return;
+    updateItem(item.id, { [key]: amount });
+  };
+
+  // --- FILE IMPORT / EXPORT ---
+  const handleImportFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    const content = await file.text();
+    const { project, report } = importProjectFromMspdi(content, file.name);
+    if (project) {
+      const imported = migrateProjectResources({ ...project, items: reIndexItems(project.items, project.calendar) });
+      const { value, issues } = readProject(imported);
+      if (value && issues.length === 0) setProjects(prev => [...prev, value]);
+      else {
+        setQuarantine(prev => mergeQuarantine(prev, [toQuarantined('import', imported, issues, !!value)]));
+        setShowQuarantine(true);
+      }
+    }
+    setImportReport(report);
+  };
+
+  // Snapshots that fail the schema are left out here; the snapshot list quarantines them
+  const loadValidBackups = async (projectId: string): Promise<Backup[]> => {
+    if (!storage) return [];
+    const list = await storage.loadBackups(projectId);
+    return (list as unknown[]).map(raw => readBackup(raw)).filter(r => r.value && r.issues.length === 0).map(r => r.value!);
+  };
+
+  const exportWorkspace = async (includeBackups: boolean) => {
+    setShowWorkspaceMenu(false);
+    try {
+      const entries: WorkspaceEntry[] = [];
+      for (const project of projectsRef.current) {
+        entries.push(includeBackups ? { project, backups: await loadValidBackups(project.id) } : { project });
+      }
+      const file = createWorkspaceFile(entries);
+      downloadFile(`workspace-${format(new Date(), 'yyyy-MM-dd')}.json`, JSON.stringify(file, null, 2), 'application/json');
+    } catch (err) {
+      setStorageError(describeStorageError(err));
+    }
+  };
+
+  const handleWorkspaceFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    const result = readWorkspaceFile(await file.text());
+    if (result.error) setImportReport({ source: file.name, imported: 0, warnings: [], errors: [result.error] });
+    else setWorkspaceImport({ fileName: file.name, file: result });
+  };
+
+  const importWorkspace = async (resolutions: Record<string, ClashResolution>, includeBackups: boolean) => {
+    if (!workspaceImport) return;
+    const { fileName, file } = workspaceImport;
+    setWorkspaceImport(null);
+
+    let list = projectsRef.current;
+    let imported = 0;
+    const outcomes: string[] = [];
+    // Snapshots to add per project; `current` is the local version a replace overwrites
+    const backupPlans: { projectId: string; added: Backup[]; current?: Project }[] = [];
+    file.entries.forEach(entry => {
+      const added = includeBackups ? entry.backups || [] : [];
+      const existing = list.find(p => p.id === entry.project.id);
+      const resolution = existing ? resolutions[existing.id] || 'duplicate' : null;
+      if (!existing || resolution === 'duplicate') {
+        const { project, backups = [] } = existing ? duplicateProject({ ...entry, backups: added }) : { ...entry, backups: added };
+        list = [...list, project];
+        imported += project.items.length;
+        outcomes.push(existing ? `'${entry.project.name}' was already here and was added as '${project.name}'.` : `'${project.name}' was added.`);
+        if (backups.length > 0) backupPlans.push({ projectId: project.id, added: backups });
+      } else if (resolution === 'merge') {
+        const { project, added: rows } = mergeImportedProject(existing, entry.project);
+        list = list.map(p => p.id === project.id ? project : p);
+        imported += rows;
+        outcomes.push(`'${existing.name}' was merged: ${rows} row${rows === 1 ? '' : 's'} added, the rest kept as they were here.`);
+        if (added.length > 0) backupPlans.push({ projectId: project.id, added });
+      } else {
+        list = list.map(p => p.id === existing.id ? entry.project : p);
+        imported += entry.project.items.length;
+        outcomes.push(`'${existing.name}' was replaced by the file's version; the previous version is kept as a snapshot.`);
+        backupPlans.push({ projectId: existing.id, added, current: existing });
+        setHistories(prev => {
+          const { [existing.id]: _replaced, ...rest } = prev;
+          return rest;
+        });
+      }
+    });
+    projectsRef.current = list;
+    setProjects(list);
+
+    if (file.rejected.length > 0) {
+      setQuarantine(prev => mergeQuarantine(prev, file.rejected.map(r => toQuarantined('import', r.raw, r.issues, r.recovered))));
+    }
+    const errors = file.rejected.map(r => {
+      const name = (r.raw as { name?: unknown } | null)?.name;
+      return `${typeof name === 'string' && name ? `'${name}'` : 'A project'} failed the checks and was kept aside in the quarantine.`;
+    });
+    setImportReport({ source: fileName, imported, warnings: file.warnings, errors, outcomes });
+
+    try {
+      for (const plan of backupPlans) {
+        const current = plan.current ? [{ timestamp: new Date().toISOString(), project: plan.current }] : [];
+        const local = await loadValidBackups(plan.projectId);
+        await storage?.saveBackups(plan.projectId, combineBackups([...current, ...local], plan.added));
+      }
+    } catch (err) {
+      setStorageError(describeStorageError(err));
+    }
+  };
+
+  const exportMspdi = () => {
+    if (!activeProject) return;
+    downloadFile(`${toFileStem(activeProject.name)}.xml`, exportProjectToMspdi(activeProject), 'application/xml');
+    setShowFileMenu(false);
+  };
+
+  const exportDelimited = (delimiter: ',' | '\t') => {
+    if (!activeProject) return;
+    const extension = delimiter === '\t' ? 'tsv' : 'csv';
+    downloadFile(`${toFileStem(activeProject.name)}.${extension}`, exportItemsToDelimited(items, delimiter), delimiter === '\t' ? 'text/tab-separated-values' : 'text/csv');
+    setShowFileMenu(false);
+  };
+
+  const exportCosts = () => {
+    if (!activeProject) return;
+    downloadFile(`${toFileStem(activeProject.name)}-costs.csv`, exportCostBreakdown(items, resources), 'text/csv');
+    setShowFileMenu(false);
+  };
+
+  const handleCsvImport = ({ items: rows, errors, warnings, replace }: CsvImportResult) => {
+    // Names in the file are matched against the registry; unknown ones are registered
+    const { items: imported, resources: registry } = linkAccountablesToResources(rows, resources);
+    const importedIds = imported.filter(i => i.type === 'T').map(i => i.id);
+    const merged = reIndexItems(replace ? imported : [...items, ...imported], calendar);
+    const { items: scheduled, cycle } = rescheduleItems(merged, [], { relink: importedIds, calendar });
+    const cycleWarning = cycle ? ['The imported links form a cycle; dates were kept as they were in the file.'] : [];
+    const label = `${replace ? 'Replaced the items with' : 'Imported'} ${imported.length} spreadsheet row${imported.length === 1 ? '' : 's'}`;
+    commitProject(activeProject!.id, label, p => ({ ...p, resources: registry, items: reIndexItems(scheduled, calendar) }));
+    setShowCsvImport(false);
+    setImportReport({
+      source: replace ? 'CSV import (replaced items)' : 'CSV import (appended)',
+      imported: imported.length,
+      warnings: [...warnings, ...cycleWarning],
+      errors: errors.map(e => `Row ${e.row}: ${e.message}`)
+    });
+  };
+
   const executeDeleteItem = () => {
     if (!itemToDelete) return;
     
     let newList: ProjectItem[];
     if (itemToDelete.type === 'S') {
-      // Delete the step and ALL child tasks sharing the same sId
-      newList = items.filter(i => i.id !== itemToDelete.id && i.sId !== itemToDelete.sId);
+      // Delete the step and everything nested below it
+      const index = items.findIndex(i => i.id === itemToDelete.id);
+      newList = [...items.slice(0, index), ...items.slice(getSubtreeEnd(items, index))];
     } else {
       newList = items.filter(i => i.id !== itemToDelete.id);
     }
+    const nested = items.length - newList.length - 1;
     
-    updateItemsWithHistory(reIndexItems(newList));
+    commitItems(`Deleted '${itemToDelete.description}'${nested > 0 ? ` and ${nested} row${nested === 1 ? '' : 's'} below it` : ''}`, reIndexItems(pruneDependencyLinks(newList), calendar));
     setItemToDelete(null);
   };
 
+  const storageBanner = storageError && (
+    <div className="bg-red-50 border-b border-red-200 px-6 py-2 flex items-center justify-between z-30">
+      <div className="flex items-center space-x-2 text-[11px] text-red-700">
+        <AlertTriangle className="w-4 h-4 text-red-500 shrink-0" />
+        <span className="font-bold">{storageError}</span>
+      </div>
+      <div className="flex items-center space-x-3">
+        {storage && <button onClick={() => persistProjects(projects)} className="text-[10px] font-black uppercase text-red-600 hover:underline">Retry</button>}
+        <button onClick={() => setStorageError(null)} className="text-red-400 hover:text-red-600"><X className="w-4 h-4" /></button>
+      </div>
+    </div>
+  );
+
+  const quarantineBanner = quarantine.length > 0 && !showQuarantine && (
+    <div className="bg-amber-50 border-b border-amber-200 px-6 py-2 flex items-center justify-between z-30">
+      <div className="flex items-center space-x-2 text-[11px] text-amber-700">
+        <ShieldAlert className="w-4 h-4 text-amber-500 shrink-0" />
+        <span className="font-bold">{quarantine.length} damaged record{quarantine.length === 1 ? ' is' : 's are'} kept out of the workspace.</span>
+      </div>
+      <button onClick={() => setShowQuarantine(true)} className="text-[10px] font-black uppercase text-amber-700 hover:underline">Review</button>
+    </div>
+  );
+
+  const quarantineModal = showQuarantine && (
+    <QuarantineModal
+      records={quarantine}
+      onRecover={recoverQuarantined}
+      onDownload={downloadQuarantined}
+      onDiscard={discardQuarantined}
+      onClose={() => setShowQuarantine(false)}
+    />
+  );
+
+  const tabConflictNotice = tabConflicts.length > 0 && (
+    <TabConflictNotice
+      conflicts={tabConflicts}
+      onResolve={resolveTabConflict}
+      onDismiss={() => tabConflicts.forEach(c => resolveTabConflict(c, 'mine'))}
+    />
+  );
+
+  if (!storage) {
+    return (
+      <div className="min-h-screen bg-gray-50 flex flex-col">
+        {storageBanner}
+        <div className="flex-1 flex items-center justify-center text-xs font-bold text-gray-400 uppercase tracking-widest">
+          <Database className="w-4 h-4 mr-2 text-indigo-400 animate-pulse" /> {storageError ? 'The workspace could not be opened' : 'Loading workspace...'}
+        </div>
+      </div>
+    );
+  }
+
   if (!currentProjectId) {
     return (
       <div className="min-h-screen bg-gray-50 flex flex-col">
@@ -468,14 +1450,67 @@ export default function App() {
               <p className="text-xs text-indigo-300 font-bold tracking-widest uppercase">Select or create a workspace</p>
             </div>
           </div>
-          <button 
-            onClick={() => setProjectModal({ mode: 'create' })}
-            className="flex items-center px-6 py-3 bg-indigo-600 hover:bg-indigo-700 rounded-lg font-bold text-sm transition-all shadow-lg shadow-indigo-500/20"
-          >
-            <Plus className="w-5 h-5 mr-2" /> NEW PROJECT
-          </button>
+          <div className="flex items-center space-x-3">
+            <input ref={importInputRef} type="file" accept=".xml,application/xml,text/xml" className="hidden" onChange={handleImportFile} />
+            <input ref={workspaceInputRef} type="file" accept=".json,application/json" className="hidden" onChange={handleWorkspaceFile} />
+            <div className="relative">
+              <button
+                onClick={() => setShowWorkspaceMenu(!showWorkspaceMenu)}
+                className="flex items-center px-6 py-3 bg-[#34495e] border border-[#5d6d7e] hover:bg-[#2c3e50] rounded-lg font-bold text-sm transition-all"
+                title="Save or load every project as one file"
+              >
+                <FolderInput className="w-5 h-5 mr-2" /> WORKSPACE
+              </button>
+              {showWorkspaceMenu && (
+                <>
+                  <div className="fixed inset-0 z-40" onClick={() => setShowWorkspaceMenu(false)} />
+                  <div className="absolute right-0 mt-2 w-64 bg-white rounded-xl shadow-2xl border border-gray-100 py-2 z-50 text-gray-700">
+                    <button onClick={() => exportWorkspace(false)} className="w-full flex items-center px-4 py-2 text-[11px] font-bold hover:bg-indigo-50 hover:text-indigo-600 text-left">
+                      <FileDown className="w-4 h-4 mr-2 text-indigo-400" /> Export Projects (.json)
+                    </button>
+                    <button onClick={() => exportWorkspace(true)} className="w-full flex items-center px-4 py-2 text-[11px] font-bold hover:bg-indigo-50 hover:text-indigo-600 text-left">
+                      <History className="w-4 h-4 mr-2 text-indigo-400" /> Export Projects + Snapshots (.json)
+                    </button>
+                    <div className="my-1 border-t border-gray-100" />
+                    <button onClick={() => { workspaceInputRef.current?.click(); setShowWorkspaceMenu(false); }} className="w-full flex items-center px-4 py-2 text-[11px] font-bold hover:bg-indigo-50 hover:text-indigo-600 text-left">
+                      <Upload className="w-4 h-4 mr-2 text-indigo-400" /> Import Workspace File…
+                    </button>
+                  </div>
+                </>
+              )}
+            </div>
+            <button 
+              onClick={() => importInputRef.current?.click()}
+              className="flex items-center px-6 py-3 bg-[#34495e] border border-[#5d6d7e] hover:bg-[#2c3e50] rounded-lg font-bold text-sm transition-all"
+              title="Import a Microsoft Project XML (MSPDI) file"
+            >
+              <Upload className="w-5 h-5 mr-2" /> IMPORT MS PROJECT
+            </button>
+            <button 
+              onClick={() => setProjectModal({ mode: 'create' })}
+              className="flex items-center px-6 py-3 bg-indigo-600 hover:bg-indigo-700 rounded-lg font-bold text-sm transition-all shadow-lg shadow-indigo-500/20"
+            >
+              <Plus className="w-5 h-5 mr-2" /> NEW PROJECT
+            </button>
+          </div>
         </header>
 
+        {storageBanner}
+        {quarantineBanner}
+        {tabConflictNotice}
+        {quarantineModal}
+
+        {workspaceImport && (
+          <WorkspaceImportModal
+            fileName={workspaceImport.fileName}
+            file={workspaceImport.file}
+            projects={projects}
+            onImport={importWorkspace}
+            onClose={() => setWorkspaceImport(null)}
+          />
+        )}
+        {importReport && <ImportReportModal report={importReport} onClose={() => setImportReport(null)} />}
+
         <main className="flex-1 p-10 max-w-7xl mx-auto w-full">
           {projects.length === 0 ? (
             <div className="flex flex-col items-center justify-center h-[50vh] text-center border-4 border-dashed border-gray-200 rounded-3xl bg-white/50">
@@ -535,6 +1570,17 @@ export default function App() {
                       <span className="font-bold uppercase tracking-tighter">Total Days:</span>
                       <span className="ml-2 text-gray-800">{p.workDays} Work Days</span>
                     </div>
+                    {(() => {
+                      const totals = getCostTotals(p.items);
+                      return (
+                        <div className="flex items-center text-[11px] text-gray-500">
+                          <Coins className="w-3.5 h-3.5 mr-2 text-indigo-400" />
+                          <span className="font-bold uppercase tracking-tighter">Cost:</span>
+                          <span className="ml-2 text-gray-800">{formatCost(totals.planned)} planned</span>
+                          <span className={`ml-1 ${totals.actual > totals.planned ? 'text-red-600 font-bold' : 'text-gray-500'}`}>• {formatCost(totals.actual)} spent</span>
+                        </div>
+                      );
+                    })()}
                   </div>
                   <div className="pt-4 border-t border-gray-100 flex items-center justify-between">
                     <span className="text-[10px] text-gray-400 font-bold uppercase">{p.items.length} Tasks/Steps</span>
@@ -547,7 +1593,7 @@ export default function App() {
         </main>
 
         {projectModal && (
-          <div className="fixed inset-0 z-[100] flex items-center justify-center p-4 bg-[#1a2b3c]/80 backdrop-blur-md animate-in fade-in duration-200">
+          <div role="dialog" aria-modal="true" className="fixed inset-0 z-[100] flex items-center justify-center p-4 bg-[#1a2b3c]/80 backdrop-blur-md animate-in fade-in duration-200">
             <div className="bg-white rounded-3xl shadow-2xl w-full max-w-xl overflow-hidden animate-in zoom-in-95 duration-200">
               <form onSubmit={handleProjectSubmit}>
                 <div className="px-8 py-6 bg-gray-50 border-b flex items-center justify-between">
@@ -588,7 +1634,7 @@ export default function App() {
         )}
 
         {confirmingDeleteProject && (
-          <div className="fixed inset-0 z-[110] flex items-center justify-center p-4 bg-black/60 backdrop-blur-sm animate-in fade-in duration-200">
+          <div role="dialog" aria-modal="true" className="fixed inset-0 z-[110] flex items-center justify-center p-4 bg-black/60 backdrop-blur-sm animate-in fade-in duration-200">
             <div className="bg-white rounded-3xl shadow-2xl w-full max-w-md overflow-hidden animate-in zoom-in-95 duration-200">
               <div className="px-8 py-10 text-center">
                 <div className="w-20 h-20 bg-red-50 rounded-full flex items-center justify-center mx-auto mb-6">
@@ -621,10 +1667,10 @@ export default function App() {
   }
 
   return (
-    <div className={`flex flex-col h-screen overflow-hidden bg-[#f3f4f6] ${isResizing ? 'cursor-col-resize select-none' : ''}`}>
+    <div className={`flex flex-col h-screen overflow-hidden bg-[#f3f4f6] ${isResizing ? 'cursor-col-resize select-none' : ''} ${barDrag ? 'select-none' : ''}`}>
       {/* Improved Ergonomic Delete Modal */}
       {itemToDelete && (
-        <div className="fixed inset-0 z-[150] flex items-center justify-center p-4 bg-[#1a2b3c]/80 backdrop-blur-sm animate-in fade-in duration-200">
+        <div role="dialog" aria-modal="true" className="fixed inset-0 z-[150] flex items-center justify-center p-4 bg-[#1a2b3c]/80 backdrop-blur-sm animate-in fade-in duration-200">
           <div className="bg-white rounded-3xl shadow-2xl w-full max-w-md overflow-hidden p-0 animate-in zoom-in-95 duration-200 border border-gray-100">
             <div className="p-8 text-center">
               <div className="w-20 h-20 bg-red-50 rounded-full flex items-center justify-center mx-auto mb-6">
@@ -641,7 +1687,7 @@ export default function App() {
               </div>
               <p className="text-gray-500 text-sm leading-relaxed mb-8 px-4">
                 {itemToDelete.type === 'S' 
-                  ? "Are you sure? This will permanently delete this Phase and ALL associated tasks belonging to it." 
+                  ? "Are you sure? This will permanently delete this Phase and ALL tasks and phases nested in it." 
                   : "Are you sure you want to delete this task? This action is permanent."}
               </p>
               <div className="flex flex-col space-y-3">
@@ -664,7 +1710,7 @@ export default function App() {
       )}
 
       {showBackupModal && activeProject && (
-        <div className="fixed inset-0 z-[120] flex items-center justify-center p-4 bg-black/60 backdrop-blur-md animate-in fade-in duration-200">
+        <div role="dialog" aria-modal="true" className="fixed inset-0 z-[120] flex items-center justify-center p-4 bg-black/60 backdrop-blur-md animate-in fade-in duration-200">
           <div className="bg-white rounded-3xl shadow-2xl w-full max-w-2xl overflow-hidden animate-in zoom-in-95 duration-200">
             <div className="px-8 py-6 bg-gray-50 border-b flex items-center justify-between">
               <div className="flex items-center space-x-3 text-indigo-600">
@@ -677,13 +1723,12 @@ export default function App() {
               <div className="bg-amber-50 border border-amber-100 rounded-xl p-4 mb-6 flex items-start space-x-3">
                 <Clock className="w-5 h-5 text-amber-500 mt-0.5 shrink-0" />
                 <p className="text-xs text-amber-700 leading-relaxed">
-                  Historical snapshots are stored in your browser's local storage. Restoring a version will replace your current workspace.
+                  Historical snapshots are stored in your browser ({storage?.name}), separately from the projects. Review a version to see what changed since, then restore it whole or only the rows you pick.
                 </p>
               </div>
               
               <div className="space-y-3 max-h-[400px] overflow-y-auto pr-2">
                 {(() => {
-                   const backups: Backup[] = JSON.parse(localStorage.getItem(`backups_${activeProject.id}`) || '[]');
                    if (backups.length === 0) {
                      return <div className="text-center py-10 text-gray-400 font-bold uppercase tracking-widest text-xs">No snapshots available yet</div>;
                    }
@@ -697,10 +1742,10 @@ export default function App() {
                          </div>
                        </div>
                        <button 
-                         onClick={() => restoreBackup(b)}
+                         onClick={() => setComparedBackup(b)}
                          className="flex items-center px-4 py-2 bg-white border border-indigo-200 text-indigo-600 rounded-lg text-xs font-black uppercase hover:bg-indigo-600 hover:text-white transition-all shadow-sm"
                        >
-                         <RotateCcw className="w-3.5 h-3.5 mr-2" /> RESTORE
+                         <RotateCcw className="w-3.5 h-3.5 mr-2" /> REVIEW & RESTORE
                        </button>
                      </div>
                    ));
@@ -710,7 +1755,7 @@ export default function App() {
             <div className="px-8 py-6 bg-gray-50 flex items-center justify-between">
               <p className="text-[10px] text-gray-400 font-bold uppercase">Browser-based persistence active</p>
               <button 
-                onClick={() => { saveBackup(activeProject); setShowBackupModal(false); }}
+                onClick={() => { saveBackup(activeProject).then(() => setShowBackupModal(false)); }}
                 className="flex items-center px-6 py-2 bg-indigo-600 text-white rounded-lg text-xs font-black uppercase hover:bg-indigo-700 shadow-lg"
               >
                 <Save className="w-3.5 h-3.5 mr-2" /> Manual Snapshot
@@ -720,8 +1765,128 @@ export default function App() {
         </div>
       )}
 
+      {comparedBackup && activeProject && (
+        <SnapshotDiffModal
+          backup={comparedBackup}
+          items={items}
+          onRestoreAll={() => restoreBackup(comparedBackup)}
+          onRestoreRows={chosen => restoreBackupRows(comparedBackup, chosen)}
+          onClose={() => setComparedBackup(null)}
+        />
+      )}
+
+      {showCostModal && activeProject && (
+        <CostModal
+          items={items}
+          calendar={calendar}
+          asOf={statusDate}
+          onExport={exportCosts}
+          onClose={() => setShowCostModal(false)}
+        />
+      )}
+
+      {showStatusModal && activeProject && (
+        <StatusModal
+          report={earnedValue}
+          items={items}
+          statusDate={statusDate}
+          isToday={!activeProject.statusDate}
+          onStatusDateChange={saveStatusDate}
+          onClose={() => setShowStatusModal(false)}
+        />
+      )}
+
+      {showBaselineModal && activeProject && (
+        <BaselineModal
+          baselines={activeProject.baselines || []}
+          activeBaselineId={activeProject.activeBaselineId || null}
+          items={items}
+          calendar={calendar}
+          threshold={varianceThreshold}
+          onThresholdChange={setVarianceThreshold}
+          onSave={saveBaseline}
+          onDelete={deleteBaseline}
+          onActivate={id => updateActiveProject(
+            id ? `Compared with baseline '${activeProject.baselines?.find(b => b.id === id)?.name}'` : 'Stopped comparing with a baseline',
+            { activeBaselineId: id }
+          )}
+          onClose={() => setShowBaselineModal(false)}
+        />
+      )}
+
+      {showCsvImport && (
+        <CsvImportModal calendar={calendar} onImport={handleCsvImport} onClose={() => setShowCsvImport(false)} />
+      )}
+
+      {importReport && <ImportReportModal report={importReport} onClose={() => setImportReport(null)} />}
+
+      {showChartExport && activeProject && (
+        <ChartExportModal
+          projectName={activeProject.name}
+          items={items}
+          calendar={calendar}
+          defaultStart={format(rawTimelineStart, 'yyyy-MM-dd')}
+          defaultEnd={format(rawTimelineEnd, 'yyyy-MM-dd')}
+          hideWeekends={hideWeekends}
+          criticalIds={criticalIds}
+          criticalColor={CRITICAL_COLOR}
+          onClose={() => setShowChartExport(false)}
+        />
+      )}
+
+      {showCalendarModal && (
+        <CalendarModal
+          calendar={baseCalendar}
+          people={resources.map(r => r.name)}
+          onSave={saveCalendar}
+          onClose={() => setShowCalendarModal(false)}
+        />
+      )}
+
+      {showResourceModal && (
+        <ResourceModal
+          resources={resources}
+          items={items}
+          projectWeekdays={baseCalendar.workingWeekdays}
+          overloaded={Object.fromEntries(resourceUsage.map(u => [u.resource.id, u.overloaded]))}
+          onSave={saveResources}
+          onClose={() => setShowResourceModal(false)}
+        />
+      )}
+
+      {showSyncModal && (
+        <SyncModal
+          url={syncUrl}
+          status={syncStatus}
+          onSaveUrl={saveSyncUrl}
+          onSyncNow={() => syncRef.current?.syncNow()}
+          onResolve={(id, keep) => syncRef.current?.resolve(id, keep)}
+          onClose={() => setShowSyncModal(false)}
+        />
+      )}
+
+      {showLevelingModal && (
+        <LevelingModal
+          items={items}
+          resources={resources}
+          calendar={calendar}
+          onApply={applyLeveling}
+          onClose={() => setShowLevelingModal(false)}
+        />
+      )}
+
+      {assigningItem && (
+        <AssignmentModal
+          item={assigningItem}
+          resources={resources}
+          onSave={(assignments, registry) => saveAssignments(assigningItem, assignments, registry)}
+          onManageResources={() => { setAssigningItem(null); setShowResourceModal(true); }}
+          onClose={() => setAssigningItem(null)}
+        />
+      )}
+
       {projectModal && (
-        <div className="fixed inset-0 z-[100] flex items-center justify-center p-4 bg-[#1a2b3c]/80 backdrop-blur-md">
+        <div role="dialog" aria-modal="true" className="fixed inset-0 z-[100] flex items-center justify-center p-4 bg-[#1a2b3c]/80 backdrop-blur-md">
           <div className="bg-white rounded-3xl shadow-2xl w-full max-w-xl overflow-hidden">
             <form onSubmit={handleProjectSubmit}>
               <div className="px-8 py-6 bg-gray-50 border-b flex items-center justify-between">
@@ -735,7 +1900,8 @@ export default function App() {
                 </div>
                 <div>
                   <label className="block text-[10px] font-black text-gray-500 uppercase tracking-widest mb-2">Responsible Person</label>
-                  <input name="accountable" required defaultValue={activeProject.accountable} className="w-full px-4 py-3 bg-gray-100 border-none rounded-xl focus:ring-2 focus:ring-indigo-500 transition-all font-bold" />
+                  <input name="accountable" required list="project-people" defaultValue={activeProject.accountable} className="w-full px-4 py-3 bg-gray-100 border-none rounded-xl focus:ring-2 focus:ring-indigo-500 transition-all font-bold" />
+                  <datalist id="project-people">{resources.map(r => <option key={r.id} value={r.name} />)}</datalist>
                 </div>
                 <div className="grid grid-cols-2 gap-6">
                   <div>
@@ -780,24 +1946,39 @@ export default function App() {
         </div>
 
         <div className="flex items-center space-x-4">
-          <div className="flex items-center bg-[#2c3e50] rounded-lg p-1 border border-[#5d6d7e]">
+          <div className="relative flex items-center bg-[#2c3e50] rounded-lg p-1 border border-[#5d6d7e]">
             <button 
-              disabled={historyIndex <= 0}
+              disabled={currentHistory.index === 0}
               onClick={undo}
-              className={`p-2 rounded hover:bg-white/10 transition-all ${historyIndex <= 0 ? 'opacity-30 cursor-not-allowed' : 'text-indigo-300'}`}
-              title="Undo Action"
+              className={`p-2 rounded hover:bg-white/10 transition-all ${currentHistory.index === 0 ? 'opacity-30 cursor-not-allowed' : 'text-indigo-300'}`}
+              title={currentHistory.index > 0 ? `Undo: ${currentHistory.entries[currentHistory.index - 1].label} (Ctrl+Z)` : 'Nothing to undo'}
             >
               <Undo2 className="w-4 h-4" />
             </button>
             <div className="w-[1px] h-4 bg-[#5d6d7e] mx-1"></div>
             <button 
-              disabled={historyIndex >= history.length - 1}
+              disabled={currentHistory.index >= currentHistory.entries.length}
               onClick={redo}
-              className={`p-2 rounded hover:bg-white/10 transition-all ${historyIndex >= history.length - 1 ? 'opacity-30 cursor-not-allowed' : 'text-indigo-300'}`}
-              title="Redo Action"
+              className={`p-2 rounded hover:bg-white/10 transition-all ${currentHistory.index >= currentHistory.entries.length ? 'opacity-30 cursor-not-allowed' : 'text-indigo-300'}`}
+              title={currentHistory.index < currentHistory.entries.length ? `Redo: ${currentHistory.entries[currentHistory.index].label} (Ctrl+Shift+Z)` : 'Nothing to redo'}
             >
               <Redo2 className="w-4 h-4" />
             </button>
+            <div className="w-[1px] h-4 bg-[#5d6d7e] mx-1"></div>
+            <button
+              onClick={() => setShowHistoryPanel(v => !v)}
+              className={`p-2 rounded hover:bg-white/10 transition-all ${showHistoryPanel ? 'text-white bg-white/10' : 'text-indigo-300'}`}
+              title="History"
+            >
+              <ListRestart className="w-4 h-4" />
+            </button>
+            {showHistoryPanel && (
+              <HistoryPanel
+                history={currentHistory}
+                onJump={target => travelHistory(target)}
+                onClose={() => setShowHistoryPanel(false)}
+              />
+            )}
           </div>
 
           <button 
@@ -807,11 +1988,60 @@ export default function App() {
             <History className="w-4 h-4 mr-2" /> SNAPSHOTS
           </button>
 
+          <button 
+            onClick={() => setShowBaselineModal(true)}
+            className={`flex items-center px-4 py-2 text-[10px] font-bold border rounded-lg transition-all shadow-sm ${activeBaseline ? 'bg-indigo-600 border-indigo-500 text-white' : 'bg-[#34495e] border-[#5d6d7e] text-gray-300 hover:bg-[#2c3e50]'}`}
+          >
+            <Flag className="w-4 h-4 mr-2" /> {activeBaseline ? activeBaseline.name.toUpperCase() : 'BASELINES'}
+          </button>
+
+          <button 
+            onClick={() => setShowCalendarModal(true)}
+            className="flex items-center px-4 py-2 text-[10px] font-bold bg-[#34495e] border border-[#5d6d7e] rounded-lg hover:bg-[#2c3e50] transition-all text-gray-300 shadow-sm"
+          >
+            <CalendarDays className="w-4 h-4 mr-2" /> CALENDAR
+          </button>
+
           <button onClick={() => setHideWeekends(!hideWeekends)} className={`flex items-center px-4 py-2 text-[10px] font-bold rounded-lg transition-all shadow-sm ${hideWeekends ? 'bg-indigo-600 text-white' : 'bg-[#34495e] text-gray-300 border border-[#5d6d7e] hover:bg-[#2c3e50]'}`}>
             {hideWeekends ? <Eye className="w-3.5 h-3.5 mr-2" /> : <EyeOff className="w-3.5 h-3.5 mr-2" />}
             {hideWeekends ? 'SHOW WEEKENDS' : 'HIDE WEEKENDS'}
           </button>
           
+          <div className="relative">
+            <button 
+              onClick={() => setShowFileMenu(!showFileMenu)}
+              className="flex items-center px-4 py-2 text-[10px] font-bold bg-[#34495e] border border-[#5d6d7e] rounded-lg hover:bg-[#2c3e50] transition-all text-gray-300 shadow-sm"
+            >
+              <Download className="w-4 h-4 mr-2" /> FILE
+            </button>
+            {showFileMenu && (
+              <>
+                <div className="fixed inset-0 z-40" onClick={() => setShowFileMenu(false)} />
+                <div className="absolute right-0 mt-2 w-56 bg-white rounded-xl shadow-2xl border border-gray-100 py-2 z-50 text-gray-700">
+                  <button onClick={exportMspdi} className="w-full flex items-center px-4 py-2 text-[11px] font-bold hover:bg-indigo-50 hover:text-indigo-600 text-left">
+                    <FileDown className="w-4 h-4 mr-2 text-indigo-400" /> MS Project XML (.xml)
+                  </button>
+                  <button onClick={() => exportDelimited(',')} className="w-full flex items-center px-4 py-2 text-[11px] font-bold hover:bg-indigo-50 hover:text-indigo-600 text-left">
+                    <FileSpreadsheet className="w-4 h-4 mr-2 text-indigo-400" /> Spreadsheet CSV (.csv)
+                  </button>
+                  <button onClick={() => exportDelimited('\t')} className="w-full flex items-center px-4 py-2 text-[11px] font-bold hover:bg-indigo-50 hover:text-indigo-600 text-left">
+                    <FileSpreadsheet className="w-4 h-4 mr-2 text-indigo-400" /> Tab Separated (.tsv)
+                  </button>
+                  <button onClick={() => { setShowChartExport(true); setShowFileMenu(false); }} className="w-full flex items-center px-4 py-2 text-[11px] font-bold hover:bg-indigo-50 hover:text-indigo-600 text-left">
+                    <ImageIcon className="w-4 h-4 mr-2 text-indigo-400" /> Chart Image / Print…
+                  </button>
+                  <button onClick={exportCosts} className="w-full flex items-center px-4 py-2 text-[11px] font-bold hover:bg-indigo-50 hover:text-indigo-600 text-left">
+                    <Coins className="w-4 h-4 mr-2 text-indigo-400" /> Cost Breakdown (.csv)
+                  </button>
+                  <div className="my-1 border-t border-gray-100" />
+                  <button onClick={() => { setShowCsvImport(true); setShowFileMenu(false); }} className="w-full flex items-center px-4 py-2 text-[11px] font-bold hover:bg-indigo-50 hover:text-indigo-600 text-left">
+                    <Upload className="w-4 h-4 mr-2 text-indigo-400" /> Import CSV / Paste Rows…
+                  </button>
+                </div>
+              </>
+            )}
+          </div>
+
           <button onClick={jumpToToday} className="flex items-center px-6 py-2 text-[10px] font-bold bg-[#34495e] border border-[#5d6d7e] rounded-lg hover:bg-[#2c3e50] transition-all shadow-sm">
             <Navigation className="w-3.5 h-3.5 mr-2 rotate-45 text-indigo-400" /> TODAY
           </button>
@@ -829,12 +2059,78 @@ export default function App() {
              <span className="uppercase">Project Period:</span>
              <span className="text-indigo-600 font-mono">{formatProjectDate(rawTimelineStart)} - {formatProjectDate(rawTimelineEnd)}</span>
            </div>
+           {showCosts && (() => {
+             const totals = getCostTotals(items);
+             return (
+               <button onClick={() => setShowCostModal(true)} className="flex items-center space-x-2 text-[10px] font-bold text-gray-500 hover:text-indigo-600" title="Cost over time and breakdown by step">
+                 <Coins className="w-3.5 h-3.5" />
+                 <span className="uppercase">Cost:</span>
+                 <span className="font-mono text-indigo-600">{formatCost(totals.planned)} planned</span>
+                 <span className={`font-mono ${totals.actual > totals.planned ? 'text-red-600' : 'text-amber-600'}`}>• {formatCost(totals.actual)} actual</span>
+               </button>
+             );
+           })()}
+           {showStatus && (
+             <button onClick={() => setShowStatusModal(true)} className="flex items-center space-x-2 text-[10px] font-bold text-gray-500 hover:text-indigo-600" title="Schedule performance on the status date">
+               <Gauge className="w-3.5 h-3.5" />
+               <span className="uppercase">Status {formatProjectDate(statusDate)}:</span>
+               <span className={`font-mono ${earnedValue.project.scheduleVariance < 0 ? 'text-red-600' : 'text-green-600'}`}>SPI {formatSpi(earnedValue.project.spi)} • SV {formatEffort(earnedValue.project.scheduleVariance, true)}</span>
+               {earnedValue.behind.length > 0 && <span className="px-1.5 rounded bg-red-50 text-red-600">{earnedValue.behind.length} BEHIND</span>}
+             </button>
+           )}
            <div className={`flex items-center transition-opacity duration-300 ${isSyncing ? 'opacity-100' : 'opacity-40'}`}>
               <Database className="w-3 h-3 text-indigo-400 mr-1.5" />
-              <span className="text-[8px] font-black uppercase tracking-tighter text-gray-400">LocalStorage Synced</span>
+              <span className="text-[8px] font-black uppercase tracking-tighter text-gray-400">{storage?.name} Synced</span>
            </div>
          </div>
          <div className="flex items-center space-x-6">
+           <div className="flex items-center bg-gray-100 rounded-lg p-0.5">
+             <button onClick={() => stepZoom(-1)} disabled={zoomLevel === 'day'} className="p-1 text-gray-500 hover:text-indigo-600 disabled:opacity-30" title="Zoom in (Ctrl + scroll)"><ZoomIn className="w-3.5 h-3.5" /></button>
+             {ZOOM_LEVELS.map(level => (
+               <button key={level} onClick={() => zoomTo(ZOOM_DAY_WIDTHS[level])} className={`text-[10px] font-bold px-2 py-1 rounded-md uppercase transition-all ${zoomLevel === level ? 'bg-white text-indigo-600 shadow-sm' : 'text-gray-500 hover:text-gray-700'}`}>
+                 {level}
+               </button>
+             ))}
+             <button onClick={() => stepZoom(1)} disabled={zoomLevel === 'quarter'} className="p-1 text-gray-500 hover:text-indigo-600 disabled:opacity-30" title="Zoom out (Ctrl + scroll)"><ZoomOut className="w-3.5 h-3.5" /></button>
+           </div>
+           <button onClick={fitToProject} className="flex items-center text-[10px] font-bold px-3 py-1.5 rounded text-gray-500 hover:bg-gray-100 transition-all" title="Fit the whole project into the view">
+             <MoveHorizontal className="w-3.5 h-3.5 mr-2" />
+             FIT
+           </button>
+           <button onClick={() => setShowLinks(!showLinks)} className={`flex items-center text-[10px] font-bold px-3 py-1.5 rounded transition-all ${showLinks ? 'bg-indigo-50 text-indigo-600' : 'text-gray-500 hover:bg-gray-100'}`}>
+             <Spline className="w-3.5 h-3.5 mr-2" />
+             LINKS
+           </button>
+           <button onClick={() => setCollapsedIds(collapsedIds.size > 0 ? new Set() : new Set(stepsWithChildren))} className="flex items-center text-[10px] font-bold px-3 py-1.5 rounded text-gray-500 hover:bg-gray-100 transition-all" title="Collapse or expand every phase">
+             {collapsedIds.size > 0 ? <ChevronsUpDown className="w-3.5 h-3.5 mr-2" /> : <ChevronsDownUp className="w-3.5 h-3.5 mr-2" />}
+             {collapsedIds.size > 0 ? 'EXPAND ALL' : 'COLLAPSE ALL'}
+           </button>
+           <button onClick={() => setMilestonesOnly(!milestonesOnly)} className={`flex items-center text-[10px] font-bold px-3 py-1.5 rounded transition-all ${milestonesOnly ? 'bg-purple-50 text-purple-600' : 'text-gray-500 hover:bg-gray-100'}`} title="Show only milestones under their steps">
+             <Diamond className="w-3.5 h-3.5 mr-2" />
+             MILESTONES
+           </button>
+           <button onClick={() => setShowResourcePanel(!showResourcePanel)} className={`flex items-center text-[10px] font-bold px-3 py-1.5 rounded transition-all ${showResourcePanel ? 'bg-indigo-50 text-indigo-600' : 'text-gray-500 hover:bg-gray-100'}`}>
+             <Users className="w-3.5 h-3.5 mr-2" />
+             RESOURCES
+           </button>
+           <button onClick={() => setShowCosts(!showCosts)} className={`flex items-center text-[10px] font-bold px-3 py-1.5 rounded transition-all ${showCosts ? 'bg-indigo-50 text-indigo-600' : 'text-gray-500 hover:bg-gray-100'}`} title="Planned and actual cost per item">
+             <Coins className="w-3.5 h-3.5 mr-2" />
+             COSTS
+           </button>
+           <button onClick={() => setShowStatus(!showStatus)} className={`flex items-center text-[10px] font-bold px-3 py-1.5 rounded transition-all ${showStatus ? 'bg-indigo-50 text-indigo-600' : 'text-gray-500 hover:bg-gray-100'}`} title="Actual dates, the status date and tasks behind plan">
+             <Gauge className="w-3.5 h-3.5 mr-2" />
+             STATUS
+           </button>
+           <button onClick={() => setShowCriticalPath(!showCriticalPath)} className={`flex items-center text-[10px] font-bold px-3 py-1.5 rounded transition-all ${showCriticalPath ? 'bg-red-50 text-red-600' : 'text-gray-500 hover:bg-gray-100'}`}>
+             <Activity className="w-3.5 h-3.5 mr-2" />
+             CRITICAL PATH
+           </button>
+           {showTable && (
+             <button onClick={() => setShowFloat(!showFloat)} className={`flex items-center text-[10px] font-bold px-3 py-1.5 rounded transition-all ${showFloat ? 'bg-indigo-50 text-indigo-600' : 'text-gray-500 hover:bg-gray-100'}`}>
+               <Columns3 className="w-3.5 h-3.5 mr-2" />
+               FLOAT COLUMN
+             </button>
+           )}
            <button onClick={() => setShowTable(!showTable)} className="flex items-center text-[10px] font-bold text-indigo-600 hover:bg-indigo-50 px-3 py-1.5 rounded transition-all">
              <Maximize2 className="w-3.5 h-3.5 mr-2" />
              {showTable ? "HIDE TABLE" : "SHOW FULL CHART"}
@@ -842,6 +2138,21 @@ export default function App() {
          </div>
       </div>
 
+      {storageBanner}
+      {quarantineBanner}
+      {tabConflictNotice}
+      {quarantineModal}
+
+      {scheduleError && (
+        <div className="bg-amber-50 border-b border-amber-200 px-6 py-2 flex items-center justify-between z-20">
+          <div className="flex items-center space-x-2 text-[11px] text-amber-700">
+            <AlertTriangle className="w-4 h-4 text-amber-500 shrink-0" />
+            <span className="font-bold">{scheduleError}</span>
+          </div>
+          <button onClick={() => setScheduleError(null)} className="text-amber-400 hover:text-amber-600"><X className="w-4 h-4" /></button>
+        </div>
+      )}
+
       <main className="flex flex-1 overflow-hidden relative">
         {showTable && (
           <>
@@ -852,7 +2163,7 @@ export default function App() {
                     <th className="w-8"></th>
                     <th className="w-12 px-1 text-center font-bold border-r border-white/10 uppercase">ID</th>
                     <th className="w-12 px-1 text-center font-bold border-r border-white/10">S ID</th>
-                    <th className="w-16 px-1 text-center font-bold border-r border-white/10">T ID</th>
+                    <th className="w-16 px-1 text-center font-bold border-r border-white/10">WBS</th>
                     <th className="w-20 px-1 text-center font-bold border-r border-white/10 uppercase">Type</th>
                     <th className="w-64 px-3 text-left font-bold border-r border-white/10 uppercase">Description</th>
                     <th className="w-32 px-3 text-left font-bold border-r border-white/10 uppercase">Accountable</th>
@@ -861,38 +2172,110 @@ export default function App() {
                     <th className="w-24 px-2 text-left font-bold border-r border-white/10 uppercase">Start</th>
                     <th className="w-24 px-2 text-left font-bold border-r border-white/10 uppercase">End</th>
                     <th className="w-20 px-1 text-center font-bold border-r border-white/10 uppercase">% PROGRESS</th>
-                    <th className="w-12 px-1 text-center font-bold border-r border-white/10 uppercase">Mode</th>
-                    <th className="w-20"></th>
+                    {showCosts && (
+                      <>
+                        <th className="w-24 px-2 text-right font-bold border-r border-white/10 uppercase" title="Fixed cost, or blank to price from the resources' day rates">Plan Cost</th>
+                        <th className="w-24 px-2 text-right font-bold border-r border-white/10 uppercase">Act. Cost</th>
+                      </>
+                    )}
+                    {showStatus && (
+                      <>
+                        <th className="w-24 px-2 text-left font-bold border-r border-white/10 uppercase">Act. Start</th>
+                        <th className="w-24 px-2 text-left font-bold border-r border-white/10 uppercase">Act. Finish</th>
+                      </>
+                    )}
+                    <th className="w-28 px-2 text-left font-bold border-r border-white/10 uppercase" title="Predecessors, e.g. 1.2FS+3; 2.1SS">Predecessors</th>
+                    {showFloat && <th className="w-20 px-1 text-center font-bold border-r border-white/10 uppercase" title="Total float / free float in working days">Float TF/FF</th>}
+                    {activeBaseline && (
+                      <>
+                        <th className="w-16 px-1 text-center font-bold border-r border-white/10 uppercase" title={`Start variance vs. ${activeBaseline.name} (working days)`}>Δ Start</th>
+                        <th className="w-16 px-1 text-center font-bold border-r border-white/10 uppercase" title={`Finish variance vs. ${activeBaseline.name} (working days)`}>Δ Finish</th>
+                      </>
+                    )}
+                    <th className="w-28"></th>
                   </tr>
                 </thead>
                 <tbody className="divide-y divide-gray-200">
-                  {items.map((item, idx) => (
-                    <tr key={item.id} draggable onDragStart={() => onDragStart(idx)} onDragOver={(e) => e.preventDefault()} onDrop={() => onDrop(idx)} className={`group hover:bg-gray-50 transition-colors ${item.type === 'S' ? 'bg-gray-100/60 font-bold' : ''}`} style={{ height: rowHeight }}>
+                  {rowStart > 0 && <tr aria-hidden style={{ height: rowStart * rowHeight }}><td colSpan={tableColumnCount} /></tr>}
+                  {visibleRows.map((item, i) => { const idx = rowStart + i; return (
+                    <tr key={item.id} draggable={!milestonesOnly} onDragStart={e => onDragStart(item, e.clientX)} onDragOver={(e) => e.preventDefault()} onDrop={e => onDrop(item, e.clientX)} className={`group hover:bg-gray-50 transition-colors ${item.type === 'S' ? 'bg-gray-100/60 font-bold' : ''}`} style={{ height: rowHeight }}>
                       <td className="text-center cursor-grab active:cursor-grabbing text-gray-300 hover:text-gray-500"><GripVertical className="w-3.5 h-3.5 mx-auto" /></td>
                       <td className="text-center text-gray-400 bg-gray-50/80 border-r">{idx + 1}</td>
                       <td className="text-center border-r"><input className="w-full text-center bg-transparent border-none p-0 focus:ring-1 focus:ring-indigo-300" value={item.sId} type="number" onChange={e => updateItem(item.id, { sId: parseInt(e.target.value) || 0 })} /></td>
-                      <td className="text-center border-r"><input className="w-full text-center bg-transparent border-none p-0 focus:ring-1 focus:ring-indigo-300 disabled:opacity-0" value={item.type === 'S' ? '' : item.tId} disabled={item.type === 'S'} onChange={e => updateItem(item.id, { tId: e.target.value })} /></td>
+                      <td className="text-center border-r"><span className="font-mono text-[10px] text-gray-600">{item.tId}</span></td>
                       <td className="text-center border-r px-1">
-                         <select className={`w-full bg-transparent border-none p-0 text-[10px] font-bold focus:ring-0 cursor-pointer rounded ${item.type === 'S' ? 'text-indigo-600' : 'text-amber-600'}`} value={item.type} onChange={e => updateItem(item.id, { type: e.target.value as ItemType })}>
-                           <option value="S">STEP</option><option value="T">TASK</option>
+                         <select className={`w-full bg-transparent border-none p-0 text-[10px] font-bold focus:ring-0 cursor-pointer rounded ${item.type === 'S' ? 'text-indigo-600' : item.type === 'M' ? 'text-purple-600' : 'text-amber-600'}`} value={item.type} onChange={e => updateItem(item.id, { type: e.target.value as ItemType })}>
+                           <option value="S">STEP</option><option value="T">TASK</option><option value="M">MILESTONE</option>
                          </select>
                       </td>
-                      <td className="px-3 border-r truncate"><div className="flex items-center h-full">{item.type === 'T' && <div className="w-4 border-l border-gray-300 h-full mr-2" />}<input className="w-full bg-transparent border-none p-0 focus:ring-0 text-[11px]" value={item.description} onChange={e => updateItem(item.id, { description: e.target.value })} /></div></td>
-                      <td className="px-3 border-r truncate"><div className="flex items-center h-full text-gray-600"><User className="w-3 h-3 mr-1.5 text-gray-400 shrink-0" /><input className="w-full bg-transparent border-none p-0 focus:ring-0 text-[10px]" placeholder="Person..." value={item.accountable} onChange={e => updateItem(item.id, { accountable: e.target.value })} /></div></td>
+                      <td className="px-3 border-r truncate"><div className="flex items-center h-full" style={{ paddingLeft: Math.max(0, getLevel(item) - 1) * 16 }}>
+                        {getLevel(item) > 0 && <div className="w-4 border-l border-gray-300 h-full mr-2 shrink-0" />}
+                        {item.type === 'S' && (stepsWithChildren.has(item.id)
+                          ? <button onClick={() => toggleCollapsed(item.id)} className="mr-1 text-gray-400 hover:text-indigo-600 shrink-0" title={collapsedIds.has(item.id) ? 'Expand' : 'Collapse'}>{collapsedIds.has(item.id) ? <ChevronRight className="w-3.5 h-3.5" /> : <ChevronDown className="w-3.5 h-3.5" />}</button>
+                          : <span className="w-3.5 mr-1 shrink-0" />)}
+                        {item.type === 'M' && <Diamond className="w-3 h-3 mr-1.5 text-purple-500 shrink-0" />}<input className="w-full bg-transparent border-none p-0 focus:ring-0 text-[11px]" value={item.description} onChange={e => updateItem(item.id, { description: e.target.value })} /></div></td>
+                      <td className="px-3 border-r truncate">{(() => {
+                        const extra = (item.assignments?.length || 0) - 1;
+                        const allocation = item.assignments?.[0]?.allocation ?? 100;
+                        return (
+                          <button onClick={() => setAssigningItem(item)} className="flex items-center w-full h-full text-left text-gray-600 hover:text-indigo-600" title={item.assignments?.map(a => `${resources.find(r => r.id === a.resourceId)?.name} ${a.allocation}%`).join(', ') || 'Assign resources'}>
+                            <User className="w-3 h-3 mr-1.5 text-gray-400 shrink-0" />
+                            <span className={`truncate text-[10px] ${item.accountable ? '' : 'text-gray-400'}`}>{item.accountable || 'Person...'}</span>
+                            {allocation !== 100 && <span className="ml-1 text-[9px] font-mono text-gray-400">{allocation}%</span>}
+                            {extra > 0 && <span className="ml-1 px-1 rounded bg-indigo-50 text-indigo-600 text-[9px] font-bold">+{extra}</span>}
+                          </button>
+                        );
+                      })()}</td>
                       <td className="border-r px-2"><div className="w-full h-4 rounded-sm shadow-inner" style={{ backgroundColor: item.color, opacity: item.type === 'T' ? 0.8 : 1 }} /></td>
-                      <td className="text-center border-r font-mono"><input disabled={item.type === 'S'} className={`w-full text-center bg-transparent border-none p-0 focus:ring-0 font-bold ${item.type === 'S' ? 'text-gray-400' : 'text-blue-600'}`} value={item.workDays} type="number" onChange={e => updateItem(item.id, { workDays: parseInt(e.target.value) || 1 })} /></td>
+                      <td className="text-center border-r font-mono"><input disabled={item.type !== 'T'} className={`w-full text-center bg-transparent border-none p-0 focus:ring-0 font-bold ${item.type !== 'T' ? 'text-gray-400' : 'text-blue-600'}`} value={item.workDays} type="number" onChange={e => updateItem(item.id, { workDays: parseInt(e.target.value) || 1 })} /></td>
                       <td className="px-2 border-r font-mono whitespace-nowrap"><input type="date" disabled={item.type === 'S'} className="w-full bg-transparent border-none p-0 focus:ring-0 text-[10px]" value={item.start} onChange={e => updateItem(item.id, { start: e.target.value })} /></td>
-                      <td className="px-2 border-r font-mono whitespace-nowrap"><input type="date" disabled={item.type === 'S'} className="w-full bg-transparent border-none p-0 focus:ring-0 text-[10px]" value={item.end} onChange={e => updateItem(item.id, { end: e.target.value })} /></td>
+                      <td className="px-2 border-r font-mono whitespace-nowrap"><input type="date" disabled={item.type !== 'T'} className="w-full bg-transparent border-none p-0 focus:ring-0 text-[10px]" value={item.end} onChange={e => updateItem(item.id, { end: e.target.value })} /></td>
                       <td className="text-center border-r text-indigo-700 font-bold bg-indigo-50/20"><div className="flex items-center justify-center space-x-0.5"><input className="w-10 text-right bg-transparent border-none p-0 focus:ring-1 focus:ring-indigo-300 font-bold" value={item.progress} type="number" min="0" max="100" onChange={e => updateItem(item.id, { progress: parseInt(e.target.value) || 0 })} /><span className="text-[9px] text-indigo-400">%</span></div></td>
-                      <td className="text-center border-r"><select className="bg-transparent border-none p-0 text-[10px] focus:ring-0 cursor-pointer uppercase font-bold" value={item.mode} onChange={e => updateItem(item.id, { mode: e.target.value as DependencyMode })}><option value="SS">SS</option><option value="FS">FS</option><option value="SF">SF</option><option value="FF">FF</option></select></td>
+                      {showCosts && (
+                        <>
+                          <td className="px-2 border-r font-mono" title={item.type === 'S' ? 'Sum of the rows below' : item.fixedCost === undefined ? 'From resource rates' : 'Fixed cost'}>
+                            <input key={`${item.plannedCost}`} disabled={item.type === 'S'} className={`w-full text-right bg-transparent border-none p-0 focus:ring-1 focus:ring-indigo-300 text-[10px] ${item.fixedCost === undefined ? 'text-gray-400 italic' : 'font-bold text-gray-700'}`} defaultValue={item.fixedCost ?? ''} placeholder={formatCost(item.plannedCost || 0)} onBlur={e => saveCost(item, 'fixedCost', e.currentTarget.value)} onKeyDown={e => { if (e.key === 'Enter') e.currentTarget.blur(); }} />
+                          </td>
+                          <td className={`px-2 border-r font-mono ${item.actualCost !== undefined && item.actualCost > (item.plannedCost || 0) ? 'bg-red-50/60' : ''}`}>
+                            <input key={`${item.actualCost}`} disabled={item.type === 'S'} className="w-full text-right bg-transparent border-none p-0 focus:ring-1 focus:ring-indigo-300 text-[10px] font-bold text-gray-700" defaultValue={item.actualCost ?? ''} placeholder="—" onBlur={e => saveCost(item, 'actualCost', e.currentTarget.value)} onKeyDown={e => { if (e.key === 'Enter') e.currentTarget.blur(); }} />
+                          </td>
+                        </>
+                      )}
+                      {showStatus && (
+                        <>
+                          <td className="px-2 border-r font-mono whitespace-nowrap"><input type="date" disabled={item.type !== 'T'} className={`w-full bg-transparent border-none p-0 focus:ring-0 text-[10px] ${item.type === 'M' ? 'opacity-0' : ''}`} value={item.actualStart || ''} onChange={e => saveActualDate(item, 'actualStart', e.target.value)} /></td>
+                          <td className={`px-2 border-r font-mono whitespace-nowrap ${behindIds.has(item.id) ? 'bg-red-50/60' : ''}`}><input type="date" disabled={item.type === 'S'} className="w-full bg-transparent border-none p-0 focus:ring-0 text-[10px]" value={item.actualFinish || ''} onChange={e => saveActualDate(item, 'actualFinish', e.target.value)} /></td>
+                        </>
+                      )}
+                      <td className="px-2 border-r font-mono">{(() => {
+                        const predText = formatPredecessors(item, items);
+                        return <input key={predText} disabled={item.type === 'S'} className="w-full bg-transparent border-none p-0 focus:ring-1 focus:ring-indigo-300 text-[10px] uppercase font-bold disabled:opacity-0" placeholder="—" defaultValue={predText} onBlur={e => { if (e.currentTarget.value !== predText) commitPredecessors(item, e.currentTarget.value); }} onKeyDown={e => { if (e.key === 'Enter') e.currentTarget.blur(); }} />;
+                      })()}</td>
+                      {activeBaseline && (() => {
+                        const variance = getItemVariance(item, activeBaseline, calendar);
+                        const cell = (days: number | undefined) => (
+                          <td className={`text-center border-r font-mono text-[10px] font-bold ${days === undefined ? 'text-gray-300' : days > varianceThreshold ? 'text-red-600 bg-red-50/60' : days > 0 ? 'text-amber-600' : days < 0 ? 'text-green-600' : 'text-gray-400'}`}>
+                            {days === undefined ? '—' : days > 0 ? `+${days}` : days}
+                          </td>
+                        );
+                        return <>{cell(variance?.startVariance)}{cell(variance?.finishVariance)}</>;
+                      })()}
+                      {showFloat && (
+                        <td className={`text-center border-r font-mono text-[10px] font-bold ${scheduleAnalysis[item.id]?.critical ? 'text-red-600 bg-red-50/40' : 'text-gray-600'}`} title={scheduleAnalysis[item.id] ? `Late start ${formatProjectDate(scheduleAnalysis[item.id].lateStart)} • Late finish ${formatProjectDate(scheduleAnalysis[item.id].lateFinish)}` : undefined}>
+                          {scheduleAnalysis[item.id] ? `${scheduleAnalysis[item.id].totalFloat} / ${scheduleAnalysis[item.id].freeFloat}` : '—'}
+                        </td>
+                      )}
                       <td className="text-center flex items-center justify-center space-x-1 h-full px-1">
-                        <button onClick={() => addItemAt(idx)} className="p-1 text-indigo-300 hover:text-indigo-600 opacity-0 group-hover:opacity-100 transition-all hover:bg-indigo-50 rounded" title="Add Task Below"><Plus className="w-3.5 h-3.5" /></button>
+                        <button onClick={() => shiftLevel(item, -1)} className="p-1 text-gray-300 hover:text-indigo-600 opacity-0 group-hover:opacity-100 transition-all hover:bg-indigo-50 rounded" title="Outdent (or drag the row left)"><IndentDecrease className="w-3.5 h-3.5" /></button>
+                        <button onClick={() => shiftLevel(item, 1)} className="p-1 text-gray-300 hover:text-indigo-600 opacity-0 group-hover:opacity-100 transition-all hover:bg-indigo-50 rounded" title="Indent under the phase above (or drag the row right)"><IndentIncrease className="w-3.5 h-3.5" /></button>
+                        <button onClick={() => addItemAt(items.indexOf(item))} className="p-1 text-indigo-300 hover:text-indigo-600 opacity-0 group-hover:opacity-100 transition-all hover:bg-indigo-50 rounded" title="Add Task Below"><Plus className="w-3.5 h-3.5" /></button>
                         <button onClick={() => setItemToDelete(item)} className="p-1 text-gray-300 hover:text-red-500 opacity-0 group-hover:opacity-100 transition-all hover:bg-red-50 rounded" title="Delete"><Trash2 className="w-3.5 h-3.5" /></button>
                       </td>
                     </tr>
-                  ))}
+                  ); })}
+                  {rowEnd < rows.length - 1 && <tr aria-hidden style={{ height: (rows.length - 1 - rowEnd) * rowHeight }}><td colSpan={tableColumnCount} /></tr>}
                   <tr style={{ height: bottomButtonHeight }}>
-                    <td colSpan={14} className="p-3 border-t border-gray-100 bg-gray-50/30">
+                    <td colSpan={tableColumnCount} className="p-3 border-t border-gray-100 bg-gray-50/30">
                       <button onClick={addStep} className="text-[10px] font-bold text-indigo-600 hover:bg-indigo-100 px-4 py-2 rounded-lg transition-all flex items-center shadow-sm bg-white border border-indigo-100 uppercase tracking-widest">
                         <Plus className="w-3.5 h-3.5 mr-2" /> CREATE NEW PHASE
                       </button>
@@ -911,38 +2294,35 @@ export default function App() {
           <div style={{ width: Math.max(0, daysCount * dayWidth), minHeight: '100%' }} className="relative bg-[#fafbfc]">
             <div className="sticky top-0 bg-[#34495e] z-30 shadow-md">
                <svg width={Math.max(0, daysCount * dayWidth)} height={headerHeight} className="block">
-                  {/* Month headers */}
-                  {visibleDates.map((date, i) => {
-                    if (date.getDate() === 1 || i === 0) {
-                      return (
-                        <g key={`month-${i}`}>
-                           <rect x={i * dayWidth} y={0} width={dayWidth * 30} height={26} fill="#2c3e50" />
-                           <text x={i * dayWidth + 10} y={18} fill="white" className="text-[10px] font-bold uppercase tracking-widest">{format(date, 'MMMM yyyy')}</text>
-                        </g>
-                      );
-                    }
-                    return null;
-                  })}
-                  
-                  {/* Week Numbers - Improved Styling */}
-                  {visibleDates.map((date, i) => {
-                    const isFirstDayOfWeek = date.getDay() === 1; 
-                    if (isFirstDayOfWeek || i === 0) {
-                      return (
-                        <g key={`week-${i}`}>
-                           <rect x={i * dayWidth} y={26} width={dayWidth * (hideWeekends ? 5 : 7)} height={20} fill="#1a2b3c" />
-                           <text x={i * dayWidth + 10} y={40} fill="#818cf8" className="text-[9px] font-black uppercase tracking-tighter">
-                             WEEK {getISOWeek(date)}
-                           </text>
-                        </g>
-                      );
-                    }
-                    return null;
+                  {/* Upper tier: months at day/week zoom, years at month/quarter zoom */}
+                  {headerTiers.upper.filter(inColumnWindow).map(seg => {
+                    const x = seg.first * dayWidth;
+                    const w = (seg.last - seg.first + 1) * dayWidth;
+                    const label = zoomLevel === 'day' || zoomLevel === 'week'
+                      ? (w >= 100 ? format(seg.date, 'MMMM yyyy') : w >= 44 ? format(seg.date, 'MMM yy') : '')
+                      : (w >= 36 ? format(seg.date, 'yyyy') : '');
+                    return (
+                      <g key={`upper-${seg.first}`}>
+                         <rect x={x} y={0} width={w} height={26} fill="#2c3e50" />
+                         <line x1={x} y1={0} x2={x} y2={26} stroke="rgba(255,255,255,0.15)" />
+                         {label && <text x={x + 10} y={18} fill="white" className="text-[10px] font-bold uppercase tracking-widest">{label}</text>}
+                      </g>
+                    );
                   })}
 
+                  {zoomLevel === 'day' && headerTiers.weeks?.filter(inColumnWindow).map(seg => (
+                    <g key={`week-${seg.first}`}>
+                       <rect x={seg.first * dayWidth} y={26} width={(seg.last - seg.first + 1) * dayWidth} height={20} fill="#1a2b3c" />
+                       <text x={seg.first * dayWidth + 10} y={40} fill="#818cf8" className="text-[9px] font-black uppercase tracking-tighter">
+                         WEEK {getISOWeek(seg.date)}
+                       </text>
+                    </g>
+                  ))}
+
                   {/* Day headers */}
-                  {visibleDates.map((date, i) => {
-                    const isWe = isWeekend(date);
+                  {zoomLevel === 'day' && visibleColumns.map(i => {
+                    const date = visibleDates[i];
+                    const isWe = !isWorkingDay(date, calendar);
                     const x = i * dayWidth;
                     return (
                       <g key={`header-${i}`}>
@@ -954,65 +2334,160 @@ export default function App() {
                       </g>
                     );
                   })}
+
+                  {/* Lower tier at week/month/quarter zoom: one labelled cell per unit */}
+                  {headerTiers.lower?.filter(inColumnWindow).map(seg => {
+                    const x = seg.first * dayWidth;
+                    const w = (seg.last - seg.first + 1) * dayWidth;
+                    const [label, sub] = zoomLevel === 'week'
+                      ? [`W${getISOWeek(seg.date)}`, format(seg.date, 'dd-MMM')]
+                      : zoomLevel === 'month'
+                        ? [format(seg.date, w >= 40 ? 'MMM' : 'MMMMM'), w >= 40 ? format(seg.date, 'yyyy') : '']
+                        : [format(seg.date, 'QQQ'), w >= 50 ? format(seg.date, 'yyyy') : ''];
+                    return (
+                      <g key={`lower-${seg.first}`}>
+                        <rect x={x} y={26} width={w} height={headerHeight - 26} fill="#2c3e50" />
+                        <line x1={x} y1={26} x2={x} y2={headerHeight} stroke="rgba(255,255,255,0.1)" />
+                        {w >= 14 && <text x={x + w / 2} y={64} textAnchor="middle" fill="white" className="text-[10px] font-bold uppercase">{label}</text>}
+                        {w >= 30 && sub && <text x={x + w / 2} y={84} textAnchor="middle" fill="#95a5a6" className="text-[8px] uppercase">{sub}</text>}
+                      </g>
+                    );
+                  })}
                </svg>
             </div>
-            <div className="relative">
+            <div className="relative" style={{ height: (rows.length * rowHeight) + bottomButtonHeight }}>
               {/* Ensure Gantt background height matches table exactly */}
-              <svg className="absolute inset-0 pointer-events-none" width={Math.max(0, daysCount * dayWidth)} height={(items.length * rowHeight) + bottomButtonHeight}>
-                 {items.map((item, i) => item.type === 'S' ? (<rect key={`bg-shade-${i}`} x={0} y={i * rowHeight} width={Math.max(0, daysCount * dayWidth)} height={rowHeight} fill="rgba(0,0,0,0.02)" />) : null)}
+              <svg className="absolute inset-0 pointer-events-none" width={Math.max(0, daysCount * dayWidth)} height={(rows.length * rowHeight) + bottomButtonHeight}>
+                 {visibleRows.map((item, i) => item.type === 'S' ? (<rect key={`bg-shade-${item.id}`} x={0} y={(rowStart + i) * rowHeight} width={Math.max(0, daysCount * dayWidth)} height={rowHeight} fill="rgba(0,0,0,0.02)" />) : null)}
                  
-                 {visibleDates.map((date, i) => {
-                    if (isWeekend(date)) return <rect key={`we-${i}`} x={i * dayWidth} y={0} width={dayWidth} height={(items.length * rowHeight) + bottomButtonHeight} fill="rgba(0,0,0,0.03)" />;
+                 {dayWidth >= 4 && visibleColumns.map(i => {
+                    if (!isWorkingDay(visibleDates[i], calendar)) return <rect key={`we-${i}`} x={i * dayWidth} y={0} width={dayWidth} height={(rows.length * rowHeight) + bottomButtonHeight} fill="rgba(0,0,0,0.03)" />;
                     return null;
                  })}
                  
-                 {visibleDates.map((_, i) => (<line key={`grid-${i}`} x1={i * dayWidth} y1={0} x2={i * dayWidth} y2={(items.length * rowHeight) + bottomButtonHeight} stroke="#e5e7eb" strokeWidth="0.5" />))}
-                 {Array.from({ length: items.length + 1 }).map((_, i) => (
-                    <line key={`hgrid-${i}`} x1={0} y1={i * rowHeight} x2={Math.max(0, daysCount * dayWidth)} y2={i * rowHeight} stroke={items[i]?.type === 'S' ? "#94a3b8" : "#e5e7eb"} strokeWidth={items[i]?.type === 'S' ? "1.5" : "0.5"} />
+                 {zoomLevel === 'day'
+                   ? visibleColumns.map(i => (<line key={`grid-${i}`} x1={i * dayWidth} y1={0} x2={i * dayWidth} y2={(rows.length * rowHeight) + bottomButtonHeight} stroke="#e5e7eb" strokeWidth="0.5" />))
+                   : headerTiers.lower?.filter(inColumnWindow).map(seg => (<line key={`grid-${seg.first}`} x1={seg.first * dayWidth} y1={0} x2={seg.first * dayWidth} y2={(rows.length * rowHeight) + bottomButtonHeight} stroke="#e5e7eb" strokeWidth="0.5" />))}
+                 {visibleRows.map((item, i) => (
+                    <line key={`hgrid-${item.id}`} x1={0} y1={(rowStart + i) * rowHeight} x2={Math.max(0, daysCount * dayWidth)} y2={(rowStart + i) * rowHeight} stroke={item.type === 'S' ? "#94a3b8" : "#e5e7eb"} strokeWidth={item.type === 'S' ? "1.5" : "0.5"} />
                  ))}
+                 <line x1={0} y1={rows.length * rowHeight} x2={Math.max(0, daysCount * dayWidth)} y2={rows.length * rowHeight} stroke="#e5e7eb" strokeWidth="0.5" />
                  {/* Bottom border line matching the button row */}
-                 <line x1={0} y1={(items.length * rowHeight) + bottomButtonHeight} x2={Math.max(0, daysCount * dayWidth)} y2={(items.length * rowHeight) + bottomButtonHeight} stroke="#e5e7eb" strokeWidth="0.5" />
+                 <line x1={0} y1={(rows.length * rowHeight) + bottomButtonHeight} x2={Math.max(0, daysCount * dayWidth)} y2={(rows.length * rowHeight) + bottomButtonHeight} stroke="#e5e7eb" strokeWidth="0.5" />
               </svg>
 
-              {items.map((item, idx) => {
-                const itemStart = startOfDay(parseISO(item.start));
-                const itemEnd = startOfDay(parseISO(item.end));
-                if (!isValid(itemStart) || !isValid(itemEnd)) return null;
-
-                let firstVisibleIdx = visibleDates.findIndex(d => isSameDay(d, itemStart));
-                if (firstVisibleIdx === -1) firstVisibleIdx = visibleDates.findIndex(d => d > itemStart);
-                let lastVisibleIdx = visibleDates.findIndex(d => isSameDay(d, itemEnd));
-                if (lastVisibleIdx === -1) {
-                  const lastBefore = [...visibleDates].reverse().find(d => d < itemEnd);
-                  if (lastBefore) lastVisibleIdx = visibleDates.findIndex(d => isSameDay(d, lastBefore));
-                }
+              {visibleRows.map((item, i) => {
+                const idx = rowStart + i;
+                const baseSpan = barSpans.get(item.id);
+                if (!baseSpan) return null;
 
-                if (firstVisibleIdx === -1 || lastVisibleIdx === -1 || firstVisibleIdx > lastVisibleIdx) return null;
+                const drag = barDrag?.itemId === item.id ? barDrag : null;
+                // Bars far outside the horizontal window are skipped unless they are being dragged
+                if (!drag && !inColumnWindow(baseSpan)) return null;
+                const { first: firstVisibleIdx, last: lastVisibleIdx } = drag ? getDragSpan(drag) : baseSpan;
+                const progress = drag?.kind === 'progress' ? drag.nextProgress : item.progress;
 
                 const x = firstVisibleIdx * dayWidth;
-                const width = (lastVisibleIdx - firstVisibleIdx + 1) * dayWidth;
+                const width = Math.max(2, (lastVisibleIdx - firstVisibleIdx + 1) * dayWidth); // Keep one-day bars visible when zoomed out
                 const barHeight = rowHeight * 0.6;
                 const barY = (rowHeight - barHeight) / 2;
+                const isCritical = showCriticalPath && !!scheduleAnalysis[item.id]?.critical;
+                const isDraggable = item.type !== 'S';
+                const isLinkEnd = !!hoveredLink && (hoveredLink.fromId === item.id || hoveredLink.toId === item.id);
+                const baselineEntry = activeBaseline?.items[item.id];
+                const baselineSpan = baselineEntry ? getVisibleSpan(columnIndex, baselineEntry.start, baselineEntry.end) : null;
 
                 return (
-                  <div key={item.id} style={{ height: rowHeight }} className="relative group">
+                  <div key={item.id} style={{ top: idx * rowHeight, height: rowHeight }} className={`absolute left-0 right-0 group ${drag ? 'z-20' : ''}`}>
                     <svg className="absolute inset-0 w-full h-full overflow-visible">
-                      <g className="cursor-pointer">
+                      <g className={isDraggable ? (drag ? 'cursor-grabbing' : 'cursor-grab') : 'cursor-pointer'}>
+                        {baselineSpan && (
+                          <rect x={baselineSpan.first * dayWidth} y={barY + barHeight + 2} width={(baselineSpan.last - baselineSpan.first + 1) * dayWidth} height={4} fill="#94a3b8" opacity={0.7} rx={1}>
+                            <title>{`Baseline: ${formatProjectDate(baselineEntry!.start)} - ${formatProjectDate(baselineEntry!.end)}`}</title>
+                          </rect>
+                        )}
+                        {item.type === 'M' ? (
+                          <>
+                            <polygon points={getMilestonePoints(x + width / 2, barY + barHeight / 2, barHeight / 2)} fill={isCritical ? CRITICAL_COLOR : item.color} stroke={isLinkEnd ? '#4f46e5' : showStatus && behindIds.has(item.id) ? '#dc2626' : '#1f2937'} strokeWidth={isLinkEnd ? 2.5 : showStatus && behindIds.has(item.id) ? 2 : 1} opacity={drag ? 0.6 : 1} onMouseDown={e => startBarDrag(e, item, 'move', baseSpan.first, baseSpan.last)}>
+                              {showStatus && behindIds.has(item.id) && <title>{`Behind plan: due ${formatProjectDate(item.end)} and not finished`}</title>}
+                            </polygon>
+                            <text x={x + width / 2 + barHeight / 2 + 6} y={barY + barHeight / 2 + 4} className="text-[10px] font-bold pointer-events-none fill-gray-600">
+                              {item.description} • {formatProjectDate(item.end)}
+                            </text>
+                          </>
+                        ) : (
+                        <>
                         {item.type === 'S' && <rect x={x} y={barY + 2} width={width} height={barHeight} fill="black" opacity="0.1" rx={3} />}
-                        <rect x={x} y={barY} width={width} height={barHeight} rx={item.type === 'S' ? 4 : 2} fill={item.color} opacity={item.type === 'T' ? 0.8 : 1} className="transition-opacity hover:opacity-100" />
-                        <rect x={x} y={barY + barHeight - 4} width={(width * item.progress) / 100} height={4} fill="rgba(255,255,255,0.5)" rx={1} />
+                        <rect x={x} y={barY} width={width} height={barHeight} rx={item.type === 'S' ? 4 : 2} fill={isCritical ? CRITICAL_COLOR : item.color} stroke={isLinkEnd ? '#4f46e5' : isCritical ? '#7f1d1d' : 'none'} strokeWidth={isLinkEnd ? 2.5 : isCritical ? 1.5 : 0} opacity={drag ? 0.6 : item.type === 'T' ? 0.8 : 1} className="transition-opacity hover:opacity-100" onMouseDown={isDraggable ? (e => startBarDrag(e, item, 'move', baseSpan.first, baseSpan.last)) : undefined} onClick={stepsWithChildren.has(item.id) ? () => toggleCollapsed(item.id) : undefined} />
+                        <rect x={x} y={barY + barHeight - 4} width={(width * progress) / 100} height={4} fill="rgba(255,255,255,0.5)" rx={1} className="pointer-events-none" />
+                        {showStatus && behindIds.has(item.id) && item.type === 'T' && (() => {
+                          const expectedX = x + (width * earnedValue.items[item.id].expectedProgress) / 100;
+                          return (
+                            <g>
+                              <line x1={expectedX} y1={barY - 3} x2={expectedX} y2={barY + barHeight + 1} stroke="#dc2626" strokeWidth={2} />
+                              <polygon points={`${expectedX - 4},${barY - 6} ${expectedX + 4},${barY - 6} ${expectedX},${barY - 1}`} fill="#dc2626">
+                                <title>{`Behind plan: ${progress}% done, ${earnedValue.items[item.id].expectedProgress}% expected by ${formatProjectDate(statusDate)}`}</title>
+                              </polygon>
+                            </g>
+                          );
+                        })()}
                         <text x={width > 80 ? x + 8 : x + width + 8} y={barY + barHeight / 2 + 4} className={`text-[10px] font-bold pointer-events-none ${width > 80 ? 'fill-white' : 'fill-gray-600'}`}>
-                          {item.description} {item.progress}% {item.accountable ? `• ${item.accountable}` : ''}
+                          {stepsWithChildren.has(item.id) ? (collapsedIds.has(item.id) ? '▸ ' : '▾ ') : ''}{item.description} {progress}% {item.accountable ? `• ${item.accountable}` : ''}
                         </text>
+                        {item.type === 'T' && (
+                          <>
+                            <rect x={x} y={barY + barHeight - 6} width={width} height={6} fill="transparent" className="cursor-col-resize" onMouseDown={e => startBarDrag(e, item, 'progress', baseSpan.first, baseSpan.last)}><title>Drag to set progress</title></rect>
+                            <rect x={x - 3} y={barY} width={6} height={barHeight - 6} fill="transparent" className="cursor-ew-resize" onMouseDown={e => startBarDrag(e, item, 'start', baseSpan.first, baseSpan.last)} />
+                            <rect x={x + width - 3} y={barY} width={6} height={barHeight - 6} fill="transparent" className="cursor-ew-resize" onMouseDown={e => startBarDrag(e, item, 'end', baseSpan.first, baseSpan.last)} />
+                          </>
+                        )}
+                        </>
+                        )}
                       </g>
                     </svg>
+                    {drag && (
+                      <div className="absolute pointer-events-none bg-[#1a2b3c] text-white text-[10px] font-bold px-2 py-1 rounded shadow-lg whitespace-nowrap z-30" style={{ left: x, top: idx === 0 ? rowHeight - 2 : -22 }}>
+                        {drag.kind === 'progress'
+                          ? `${progress}% COMPLETE`
+                          : item.type === 'M'
+                          ? formatProjectDate(visibleDates[firstVisibleIdx])
+                          : `${formatProjectDate(visibleDates[firstVisibleIdx])} → ${formatProjectDate(visibleDates[lastVisibleIdx])} • ${drag.kind === 'move' ? item.workDays : calculateWorkDays(format(visibleDates[firstVisibleIdx], 'yyyy-MM-dd'), format(visibleDates[lastVisibleIdx], 'yyyy-MM-dd'), calendar, item.accountable)} DAYS`}
+                      </div>
+                    )}
                   </div>
                 );
               })}
               
+              {showLinks && (
+                <DependencyArrows
+                  items={rows}
+                  spans={(() => {
+                    // Keep arrows attached to the preview while a bar is dragged
+                    const dragged = barDrag && barSpans.get(barDrag.itemId);
+                    if (!barDrag || !dragged) return barSpans;
+                    return new Map(barSpans).set(barDrag.itemId, { ...dragged, ...getDragSpan(barDrag) });
+                  })()}
+                  rowHeight={rowHeight}
+                  dayWidth={dayWidth}
+                  width={Math.max(0, daysCount * dayWidth)}
+                  height={(rows.length * rowHeight) + bottomButtonHeight}
+                  hoveredLink={hoveredLink}
+                  criticalIds={criticalIds}
+                  rowWindow={{ first: rowStart, last: rowEnd }}
+                  onHover={setHoveredLink}
+                />
+              )}
+
+              {showStatus && statusX !== -100 && statusDate !== today && (
+                <svg className="absolute inset-0 pointer-events-none" width={Math.max(0, daysCount * dayWidth)} height={(rows.length * rowHeight) + bottomButtonHeight}>
+                  <line x1={statusX} y1={0} x2={statusX} y2={(rows.length * rowHeight) + bottomButtonHeight} stroke="#4f46e5" strokeWidth="2" strokeDasharray="2 3" />
+                  <rect x={statusX - 25} y={16} width={50} height={14} fill="#4f46e5" rx={2} />
+                  <text x={statusX} y={26} textAnchor="middle" fill="white" className="text-[9px] font-bold uppercase">STATUS</text>
+                </svg>
+              )}
               {todayX !== -100 && (
-                <svg className="absolute inset-0 pointer-events-none" width={Math.max(0, daysCount * dayWidth)} height={(items.length * rowHeight) + bottomButtonHeight}>
-                  <line x1={todayX} y1={0} x2={todayX} y2={(items.length * rowHeight) + bottomButtonHeight} stroke="#e74c3c" strokeWidth="2" strokeDasharray="4 2" />
+                <svg className="absolute inset-0 pointer-events-none" width={Math.max(0, daysCount * dayWidth)} height={(rows.length * rowHeight) + bottomButtonHeight}>
+                  <line x1={todayX} y1={0} x2={todayX} y2={(rows.length * rowHeight) + bottomButtonHeight} stroke="#e74c3c" strokeWidth="2" strokeDasharray="4 2" />
                   <rect x={todayX - 25} y={0} width={50} height={14} fill="#e74c3c" rx={2} />
                   <text x={todayX} y={10} textAnchor="middle" fill="white" className="text-[9px] font-bold uppercase">TODAY</text>
                 </svg>
@@ -1022,6 +2497,22 @@ export default function App() {
         </div>
       </main>
 
+      {showResourcePanel && (
+        <ResourceUsagePanel
+          usage={resourceUsage}
+          dates={visibleDates}
+          dayWidth={dayWidth}
+          colStart={colStart}
+          colEnd={colEnd}
+          labelWidth={showTable ? tableWidth + 6 : 0}
+          innerRef={usageInnerRef}
+          onScrollBy={dx => ganttContainerRef.current?.scrollBy({ left: dx, behavior: 'instant' })}
+          onManage={() => setShowResourceModal(true)}
+          onLevel={() => setShowLevelingModal(true)}
+          onClose={() => setShowResourcePanel(false)}
+        />
+      )}
+
       <footer className="bg-[#1a2b3c] text-[#95a5a6] px-6 py-2 flex justify-between items-center text-[10px] font-medium border-t border-[#2c3e50] z-30">
         <div className="flex items-center space-x-6">
            <span className="flex items-center uppercase tracking-widest opacity-80"><Calendar className="w-3 h-3 mr-2 text-indigo-400"/> Project Period: {formatProjectDate(rawTimelineStart)} - {formatProjectDate(rawTimelineEnd)}</span>
@@ -1031,9 +2522,19 @@ export default function App() {
            )}
         </div>
         <div className="flex items-center space-x-4">
-           <span className={`flex items-center uppercase tracking-widest text-[8px] transition-colors duration-500 ${isSyncing ? 'text-indigo-400' : 'text-gray-500'}`}>
-              <Database className={`w-2.5 h-2.5 mr-1 ${isSyncing ? 'animate-bounce' : ''}`}/> {isSyncing ? 'Syncing to LocalStorage...' : 'Browser Persistence Active'}
-           </span>
+           {syncStatus.state === 'disabled' ? (
+             <button onClick={() => setShowSyncModal(true)} title="Set up server sync" className={`flex items-center uppercase tracking-widest text-[8px] transition-colors duration-500 hover:text-white ${isSyncing ? 'text-indigo-400' : 'text-gray-500'}`}>
+                <Database className={`w-2.5 h-2.5 mr-1 ${isSyncing ? 'animate-bounce' : ''}`}/> {isSyncing ? `Saving to ${storage?.name}...` : 'Browser Persistence Active'}
+             </button>
+           ) : (
+             <button onClick={() => setShowSyncModal(true)} className={`flex items-center uppercase tracking-widest text-[8px] font-bold hover:underline ${SYNC_STATE_STYLES[syncStatus.state]}`}>
+                {syncStatus.state === 'offline' ? <CloudOff className="w-2.5 h-2.5 mr-1"/> : syncStatus.state === 'conflict' ? <AlertTriangle className="w-2.5 h-2.5 mr-1"/> : <Cloud className={`w-2.5 h-2.5 mr-1 ${syncStatus.state === 'pending' ? 'animate-pulse' : ''}`}/>}
+                {syncStatus.state === 'offline' && `Offline${syncStatus.pending ? ` · ${syncStatus.pending} queued` : ''}`}
+                {syncStatus.state === 'pending' && `Syncing ${syncStatus.pending} project${syncStatus.pending === 1 ? '' : 's'}...`}
+                {syncStatus.state === 'synced' && 'Synced'}
+                {syncStatus.state === 'conflict' && `${syncStatus.conflicts.length} sync conflict${syncStatus.conflicts.length === 1 ? '' : 's'}`}
+             </button>
+           )}
         </div>
       </footer>
     </div>
@@ -0,0 +1,108 @@
+
+import React, { useState } from 'react';
+import { Star, UserPlus, Users, X } from 'lucide-react';
+
+import { Assignment, ProjectItem, Resource } from '../types';
+import { createResource, findResourceByName } from '../utils/resources';
+
+interface AssignmentModalProps {
+  item: ProjectItem;
+  resources: Resource[];
+  onSave: (assignments: Assignment[], resources: Resource[]) => void;
+  onManageResources: () => void;
+  onClose: () => void;
+}
+
+/**
+ * Assigns registered resources to one item with an allocation each. The first assignment is
+ * the primary one: its name shows as the item's accountable and its calendar drives the dates.
+ */
+export default function AssignmentModal({ item, resources, onSave, onManageResources, onClose }: AssignmentModalProps) {
+  const [registry, setRegistry] = useState<Resource[]>(resources);
+  const [draft, setDraft] = useState<Assignment[]>(item.assignments || []);
+  const [newName, setNewName] = useState('');
+
+  const assignmentOf = (id: string) => draft.find(a => a.resourceId === id);
+
+  const toggle = (id: string) => {
+    setDraft(prev => prev.some(a => a.resourceId === id) ? prev.filter(a => a.resourceId !== id) : [...prev, { resourceId: id, allocation: 100 }]);
+  };
+
+  const setAllocation = (id: string, allocation: number) => {
+    setDraft(prev => prev.map(a => a.resourceId === id ? { ...a, allocation } : a));
+  };
+
+  const makePrimary = (id: string) => {
+    setDraft(prev => [...prev.filter(a => a.resourceId === id), ...prev.filter(a => a.resourceId !== id)]);
+  };
+
+  // Typing a registered name assigns that resource instead of creating a near-duplicate
+  const addPerson = () => {
+    if (!newName.trim()) return;
+    let resource = findResourceByName(registry, newName);
+    if (!resource) {
+      resource = createResource(newName);
+      setRegistry(prev => [...prev, resource!]);
+    }
+    if (!assignmentOf(resource.id)) setDraft(prev => [...prev, { resourceId: resource!.id, allocation: 100 }]);
+    setNewName('');
+  };
+
+  const invalid = draft.some(a => !(a.allocation > 0));
+
+  return (
+    <div role="dialog" aria-modal="true" className="fixed inset-0 z-[120] flex items-center justify-center p-4 bg-black/60 backdrop-blur-md animate-in fade-in duration-200">
+      <div className="bg-white rounded-3xl shadow-2xl w-full max-w-lg overflow-hidden animate-in zoom-in-95 duration-200">
+        <div className="px-8 py-6 bg-gray-50 border-b flex items-center justify-between">
+          <div className="flex items-center space-x-3 text-indigo-600 min-w-0">
+            <Users className="w-6 h-6 shrink-0" />
+            <h3 className="text-xl font-black uppercase tracking-tight truncate">Assign • {item.description}</h3>
+          </div>
+          <button onClick={onClose} className="text-gray-400 hover:text-gray-600"><X /></button>
+        </div>
+
+        <div className="p-8 space-y-4 max-h-[60vh] overflow-y-auto">
+          <div className="flex items-center space-x-2">
+            <input list="assignment-people" value={newName} onChange={e => setNewName(e.target.value)} onKeyDown={e => { if (e.key === 'Enter') addPerson(); }} placeholder="Add a person..." className="flex-1 px-4 py-2 bg-gray-100 border-none rounded-lg text-xs font-bold focus:ring-2 focus:ring-indigo-500" />
+            <datalist id="assignment-people">{registry.map(r => <option key={r.id} value={r.name} />)}</datalist>
+            <button onClick={addPerson} className="p-2 bg-indigo-50 text-indigo-600 rounded-lg hover:bg-indigo-100" title="Assign (registers new names)"><UserPlus className="w-4 h-4" /></button>
+          </div>
+
+          <div className="space-y-1">
+            {registry.length === 0 && <div className="text-center py-4 text-gray-400 font-bold uppercase tracking-widest text-xs">No resources registered yet</div>}
+            {registry.map(r => {
+              const assignment = assignmentOf(r.id);
+              const isPrimary = draft[0]?.resourceId === r.id;
+              return (
+                <div key={r.id} className={`flex items-center justify-between px-3 py-2 rounded-lg border text-[11px] ${assignment ? 'bg-indigo-50 border-indigo-100' : 'bg-gray-50 border-gray-100'}`}>
+                  <label className="flex items-center flex-1 min-w-0 cursor-pointer">
+                    <input type="checkbox" checked={!!assignment} onChange={() => toggle(r.id)} className="mr-2 rounded text-indigo-600" />
+                    <span className="font-bold text-gray-800 truncate">{r.name}</span>
+                    {r.role && <span className="ml-2 text-[10px] text-gray-400 truncate">{r.role}</span>}
+                  </label>
+                  {assignment && (
+                    <div className="flex items-center space-x-2">
+                      <button onClick={() => makePrimary(r.id)} className={isPrimary ? 'text-amber-500' : 'text-gray-300 hover:text-amber-400'} title={isPrimary ? 'Primary: shown as accountable, drives the dates' : 'Make primary'}>
+                        <Star className="w-3.5 h-3.5" fill={isPrimary ? 'currentColor' : 'none'} />
+                      </button>
+                      <input type="number" min="1" step="10" value={assignment.allocation} onChange={e => setAllocation(r.id, parseInt(e.target.value) || 0)} className="w-16 px-2 py-1 bg-white border border-gray-200 rounded text-right font-bold focus:ring-2 focus:ring-indigo-500" />
+                      <span className="text-[10px] font-bold text-gray-400">%</span>
+                    </div>
+                  )}
+                </div>
+              );
+            })}
+          </div>
+        </div>
+
+        <div className="px-8 py-6 bg-gray-50 flex items-center justify-between">
+          <button onClick={onManageResources} className="text-[10px] font-black text-indigo-600 uppercase hover:underline">Manage Resources…</button>
+          <div className="flex items-center space-x-4">
+            <button onClick={onClose} className="px-6 py-2 text-sm font-bold text-gray-500 hover:text-gray-700">CANCEL</button>
+            <button disabled={invalid} onClick={() => onSave(draft, registry)} className="px-8 py-2 bg-indigo-600 text-white text-xs font-black uppercase rounded-lg shadow-lg hover:bg-indigo-700 disabled:opacity-40">Apply</button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
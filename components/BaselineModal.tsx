@@ -0,0 +1,137 @@
+
+import React, { useState } from 'react';
+import { format } from 'date-fns';
+import { Flag, Plus, Trash2, X, AlertTriangle, Check, Diamond } from 'lucide-react';
+
+import { Baseline, ProjectItem, WorkCalendar } from '../types';
+import { getMilestoneVariances, getSlippedItems } from '../utils/baselines';
+import { formatProjectDate } from '../utils/dateHelpers';
+
+interface BaselineModalProps {
+  baselines: Baseline[];
+  activeBaselineId: string | null;
+  items: ProjectItem[];
+  calendar: WorkCalendar;
+  threshold: number;
+  onThresholdChange: (days: number) => void;
+  onSave: (name: string) => void;
+  onDelete: (id: string) => void;
+  onActivate: (id: string | null) => void;
+  onClose: () => void;
+}
+
+/**
+ * Saves named baselines, picks the one compared against the live plan and lists slipped items.
+ */
+export default function BaselineModal({ baselines, activeBaselineId, items, calendar, threshold, onThresholdChange, onSave, onDelete, onActivate, onClose }: BaselineModalProps) {
+  const [name, setName] = useState('');
+  const active = baselines.find(b => b.id === activeBaselineId) || null;
+  // Milestones are reported in their own section below the slipped work
+  const slipped = active ? getSlippedItems(items, active, threshold, calendar).filter(s => s.item.type !== 'M') : [];
+  const milestones = active ? getMilestoneVariances(items, active, calendar) : [];
+
+  return (
+    <div role="dialog" aria-modal="true" className="fixed inset-0 z-[120] flex items-center justify-center p-4 bg-black/60 backdrop-blur-md animate-in fade-in duration-200">
+      <div className="bg-white rounded-3xl shadow-2xl w-full max-w-2xl overflow-hidden animate-in zoom-in-95 duration-200">
+        <div className="px-8 py-6 bg-gray-50 border-b flex items-center justify-between">
+          <div className="flex items-center space-x-3 text-indigo-600">
+            <Flag className="w-6 h-6" />
+            <h3 className="text-xl font-black uppercase tracking-tight">Schedule Baselines</h3>
+          </div>
+          <button onClick={onClose} className="text-gray-400 hover:text-gray-600"><X /></button>
+        </div>
+
+        <div className="p-8 space-y-6 max-h-[65vh] overflow-y-auto">
+          <div className="flex items-center space-x-2">
+            <input value={name} onChange={e => setName(e.target.value)} placeholder="e.g. Approved Plan Q1" className="flex-1 px-4 py-2 bg-gray-100 border-none rounded-lg text-xs font-bold focus:ring-2 focus:ring-indigo-500" />
+            <button onClick={() => { onSave(name); setName(''); }} className="flex items-center px-4 py-2 bg-indigo-600 text-white rounded-lg text-[10px] font-black uppercase hover:bg-indigo-700 shadow">
+              <Plus className="w-3.5 h-3.5 mr-1" /> Save Baseline
+            </button>
+          </div>
+
+          <div className="space-y-2">
+            {baselines.length === 0 && (
+              <div className="text-center py-6 text-gray-400 font-bold uppercase tracking-widest text-xs">No baselines saved yet</div>
+            )}
+            {baselines.map(b => (
+              <div key={b.id} className={`flex items-center justify-between p-3 rounded-xl border transition-all ${b.id === activeBaselineId ? 'bg-indigo-50 border-indigo-200' : 'bg-gray-50 border-gray-100'}`}>
+                <div>
+                  <p className="text-sm font-bold text-gray-800">{b.name}</p>
+                  <p className="text-[10px] text-gray-400 font-bold uppercase tracking-widest">{format(b.createdAt, 'PPp')} • {Object.keys(b.items).length} Work Items</p>
+                </div>
+                <div className="flex items-center space-x-2">
+                  <button
+                    onClick={() => onActivate(b.id === activeBaselineId ? null : b.id)}
+                    className={`flex items-center px-3 py-1.5 rounded-lg text-[10px] font-black uppercase transition-all ${b.id === activeBaselineId ? 'bg-indigo-600 text-white' : 'bg-white border border-indigo-200 text-indigo-600 hover:bg-indigo-50'}`}
+                  >
+                    {b.id === activeBaselineId ? <><Check className="w-3 h-3 mr-1" /> Compared</> : 'Compare'}
+                  </button>
+                  <button onClick={() => onDelete(b.id)} className="p-1.5 text-gray-300 hover:text-red-500 hover:bg-red-50 rounded" title="Delete Baseline"><Trash2 className="w-3.5 h-3.5" /></button>
+                </div>
+              </div>
+            ))}
+          </div>
+
+          {active && (
+            <div className="border-t pt-6">
+              <div className="flex items-center justify-between mb-3">
+                <h4 className="text-[10px] font-black text-gray-500 uppercase tracking-widest">Variance Summary</h4>
+                <label className="flex items-center text-[10px] font-bold text-gray-500 uppercase">
+                  Flag slips over
+                  <input type="number" min="0" value={threshold} onChange={e => onThresholdChange(Math.max(0, parseInt(e.target.value) || 0))} className="w-14 mx-2 px-2 py-1 bg-gray-100 border-none rounded text-center font-bold focus:ring-2 focus:ring-indigo-500" />
+                  days
+                </label>
+              </div>
+              {slipped.length === 0 ? (
+                <div className="flex items-center p-3 bg-green-50 border border-green-100 rounded-xl text-xs font-bold text-green-700">
+                  <Check className="w-4 h-4 mr-2" /> No item finishes more than {threshold} working days late.
+                </div>
+              ) : (
+                <div className="space-y-1">
+                  {slipped.map(({ item, variance }) => (
+                    <div key={item.id} className="flex items-center justify-between px-3 py-2 bg-red-50 border border-red-100 rounded-lg text-[11px]">
+                      <span className="flex items-center font-bold text-gray-800 truncate">
+                        <AlertTriangle className="w-3.5 h-3.5 mr-2 text-red-500 shrink-0" />
+                        {item.tId} • {item.description}
+                      </span>
+                      <span className="font-mono text-gray-500 shrink-0 ml-4">{formatProjectDate(active.items[item.id].end)} → {formatProjectDate(item.end)}</span>
+                      <span className="font-black text-red-600 shrink-0 ml-4">+{variance.finishVariance}d</span>
+                    </div>
+                  ))}
+                </div>
+              )}
+
+              {milestones.length > 0 && (
+                <>
+                  <h4 className="text-[10px] font-black text-gray-500 uppercase tracking-widest mt-6 mb-3">Milestones</h4>
+                  <div className="space-y-1">
+                    {milestones.map(({ item, variance }) => {
+                      const late = !!variance && variance.finishVariance > threshold;
+                      return (
+                        <div key={item.id} className={`flex items-center justify-between px-3 py-2 rounded-lg border text-[11px] ${late ? 'bg-red-50 border-red-100' : 'bg-gray-50 border-gray-100'}`}>
+                          <span className="flex items-center font-bold text-gray-800 truncate">
+                            <Diamond className={`w-3.5 h-3.5 mr-2 shrink-0 ${late ? 'text-red-500' : 'text-purple-500'}`} />
+                            {item.tId} • {item.description}
+                          </span>
+                          <span className="font-mono text-gray-500 shrink-0 ml-4">{variance ? `${formatProjectDate(active.items[item.id].end)} → ` : ''}{formatProjectDate(item.end)}</span>
+                          <span className={`font-black shrink-0 ml-4 w-12 text-right ${!variance ? 'text-gray-400' : variance.finishVariance > threshold ? 'text-red-600' : variance.finishVariance > 0 ? 'text-amber-600' : variance.finishVariance < 0 ? 'text-green-600' : 'text-gray-400'}`}>
+                            {!variance ? 'NEW' : variance.finishVariance > 0 ? `+${variance.finishVariance}d` : `${variance.finishVariance}d`}
+                          </span>
+                        </div>
+                      );
+                    })}
+                  </div>
+                </>
+              )}
+            </div>
+          )}
+        </div>
+
+        <div className="px-8 py-6 bg-gray-50 flex items-center justify-between">
+          <p className="text-[10px] text-gray-400 font-bold uppercase">Variance is measured in working days</p>
+          <button onClick={onClose} className="px-8 py-2 bg-indigo-600 text-white text-xs font-black uppercase rounded-lg shadow-lg hover:bg-indigo-700">Done</button>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,130 @@
+
+import React, { useState } from 'react';
+import { format } from 'date-fns';
+import { CalendarDays, Plus, Trash2, X } from 'lucide-react';
+
+import { WorkCalendar, CalendarException } from '../types';
+import { WEEKDAY_LABELS } from '../utils/calendar';
+import { formatProjectDate } from '../utils/dateHelpers';
+
+interface CalendarModalProps {
+  calendar: WorkCalendar;
+  people: string[];
+  onSave: (calendar: WorkCalendar) => void;
+  onClose: () => void;
+}
+
+/**
+ * Edits the project working calendar: working weekdays, holidays and per-person exceptions.
+ */
+export default function CalendarModal({ calendar, people, onSave, onClose }: CalendarModalProps) {
+  const [draft, setDraft] = useState<WorkCalendar>(calendar);
+  const [holidayDate, setHolidayDate] = useState(format(new Date(), 'yyyy-MM-dd'));
+  const [exception, setException] = useState<CalendarException>({ person: people[0] || '', date: format(new Date(), 'yyyy-MM-dd'), working: false });
+
+  const toggleWeekday = (day: number) => {
+    setDraft(prev => ({
+      ...prev,
+      workingWeekdays: prev.workingWeekdays.includes(day)
+        ? prev.workingWeekdays.filter(d => d !== day)
+        : [...prev.workingWeekdays, day].sort()
+    }));
+  };
+
+  const addHoliday = () => {
+    if (!holidayDate || draft.holidays.includes(holidayDate)) return;
+    setDraft(prev => ({ ...prev, holidays: [...prev.holidays, holidayDate].sort() }));
+  };
+
+  const addException = () => {
+    if (!exception.person.trim() || !exception.date) return;
+    setDraft(prev => ({
+      ...prev,
+      exceptions: [...prev.exceptions.filter(e => !(e.person === exception.person && e.date === exception.date)), { ...exception, person: exception.person.trim() }]
+        .sort((a, b) => a.date.localeCompare(b.date))
+    }));
+  };
+
+  return (
+    <div role="dialog" aria-modal="true" className="fixed inset-0 z-[120] flex items-center justify-center p-4 bg-black/60 backdrop-blur-md animate-in fade-in duration-200">
+      <div className="bg-white rounded-3xl shadow-2xl w-full max-w-2xl overflow-hidden animate-in zoom-in-95 duration-200">
+        <div className="px-8 py-6 bg-gray-50 border-b flex items-center justify-between">
+          <div className="flex items-center space-x-3 text-indigo-600">
+            <CalendarDays className="w-6 h-6" />
+            <h3 className="text-xl font-black uppercase tracking-tight">Working Calendar</h3>
+          </div>
+          <button onClick={onClose} className="text-gray-400 hover:text-gray-600"><X /></button>
+        </div>
+
+        <div className="p-8 space-y-6 max-h-[60vh] overflow-y-auto">
+          <div>
+            <label className="block text-[10px] font-black text-gray-500 uppercase tracking-widest mb-2">Working Weekdays</label>
+            <div className="flex space-x-2">
+              {WEEKDAY_LABELS.map((label, day) => (
+                <button
+                  key={label}
+                  onClick={() => toggleWeekday(day)}
+                  className={`px-3 py-2 rounded-lg text-[10px] font-black transition-all ${draft.workingWeekdays.includes(day) ? 'bg-indigo-600 text-white shadow' : 'bg-gray-100 text-gray-400 hover:bg-gray-200'}`}
+                >
+                  {label}
+                </button>
+              ))}
+            </div>
+          </div>
+
+          <div>
+            <label className="block text-[10px] font-black text-gray-500 uppercase tracking-widest mb-2">Holidays</label>
+            <div className="flex items-center space-x-2 mb-3">
+              <input type="date" value={holidayDate} onChange={e => setHolidayDate(e.target.value)} className="px-3 py-2 bg-gray-100 border-none rounded-lg text-xs font-bold focus:ring-2 focus:ring-indigo-500" />
+              <button onClick={addHoliday} className="flex items-center px-4 py-2 bg-indigo-50 text-indigo-600 rounded-lg text-[10px] font-black uppercase hover:bg-indigo-100">
+                <Plus className="w-3.5 h-3.5 mr-1" /> Add Holiday
+              </button>
+            </div>
+            <div className="flex flex-wrap gap-2">
+              {draft.holidays.length === 0 && <span className="text-[10px] text-gray-400 font-bold uppercase">No holidays defined</span>}
+              {draft.holidays.map(h => (
+                <span key={h} className="flex items-center px-2 py-1 bg-red-50 text-red-600 rounded text-[10px] font-bold font-mono">
+                  {formatProjectDate(h)}
+                  <button onClick={() => setDraft(prev => ({ ...prev, holidays: prev.holidays.filter(d => d !== h) }))} className="ml-1.5 hover:text-red-800"><X className="w-3 h-3" /></button>
+                </span>
+              ))}
+            </div>
+          </div>
+
+          <div>
+            <label className="block text-[10px] font-black text-gray-500 uppercase tracking-widest mb-2">Per-Person Exceptions</label>
+            <div className="flex items-center space-x-2 mb-3">
+              <input list="calendar-people" value={exception.person} onChange={e => setException({ ...exception, person: e.target.value })} placeholder="Person..." className="flex-1 px-3 py-2 bg-gray-100 border-none rounded-lg text-xs font-bold focus:ring-2 focus:ring-indigo-500" />
+              <datalist id="calendar-people">{people.map(p => <option key={p} value={p} />)}</datalist>
+              <input type="date" value={exception.date} onChange={e => setException({ ...exception, date: e.target.value })} className="px-3 py-2 bg-gray-100 border-none rounded-lg text-xs font-bold focus:ring-2 focus:ring-indigo-500" />
+              <select value={exception.working ? 'work' : 'off'} onChange={e => setException({ ...exception, working: e.target.value === 'work' })} className="px-3 py-2 bg-gray-100 border-none rounded-lg text-xs font-bold focus:ring-2 focus:ring-indigo-500">
+                <option value="off">Day Off</option>
+                <option value="work">Works</option>
+              </select>
+              <button onClick={addException} className="p-2 bg-indigo-50 text-indigo-600 rounded-lg hover:bg-indigo-100"><Plus className="w-4 h-4" /></button>
+            </div>
+            <div className="space-y-1">
+              {draft.exceptions.length === 0 && <span className="text-[10px] text-gray-400 font-bold uppercase">No exceptions defined</span>}
+              {draft.exceptions.map(e => (
+                <div key={`${e.person}-${e.date}`} className="flex items-center justify-between px-3 py-2 bg-gray-50 rounded-lg border border-gray-100 text-[11px]">
+                  <span className="font-bold text-gray-800">{e.person}</span>
+                  <span className="font-mono text-gray-500">{formatProjectDate(e.date)}</span>
+                  <span className={`text-[10px] font-black uppercase ${e.working ? 'text-green-600' : 'text-red-500'}`}>{e.working ? 'Works' : 'Day Off'}</span>
+                  <button onClick={() => setDraft(prev => ({ ...prev, exceptions: prev.exceptions.filter(x => x !== e) }))} className="text-gray-300 hover:text-red-500"><Trash2 className="w-3.5 h-3.5" /></button>
+                </div>
+              ))}
+            </div>
+          </div>
+        </div>
+
+        <div className="px-8 py-6 bg-gray-50 flex items-center justify-between">
+          <p className="text-[10px] text-gray-400 font-bold uppercase">Saving reschedules every task</p>
+          <div className="flex items-center space-x-4">
+            <button onClick={onClose} className="px-6 py-2 text-sm font-bold text-gray-500 hover:text-gray-700">CANCEL</button>
+            <button onClick={() => onSave(draft)} className="px-8 py-2 bg-indigo-600 text-white text-xs font-black uppercase rounded-lg shadow-lg hover:bg-indigo-700">Apply Calendar</button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
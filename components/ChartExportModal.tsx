@@ -0,0 +1,143 @@
+
+import React, { useMemo, useState } from 'react';
+import { Image as ImageIcon, FileImage, Printer, X, XCircle } from 'lucide-react';
+
+import { ProjectItem, WorkCalendar } from '../types';
+import {
+  PAPER_SIZES,
+  PaperOrientation,
+  PaperSize,
+  ChartExportOptions,
+  renderGanttSvg,
+  renderGanttPages,
+  countGanttPages,
+  rasterizeSvg,
+  printPages
+} from '../utils/chartExport';
+import { downloadFile, toFileStem } from '../utils/download';
+
+interface ChartExportModalProps {
+  projectName: string;
+  items: ProjectItem[];
+  calendar: WorkCalendar;
+  defaultStart: string;
+  defaultEnd: string;
+  hideWeekends: boolean;
+  criticalIds?: Set<string>;
+  criticalColor: string;
+  onClose: () => void;
+}
+
+/**
+ * Exports the chart as a standalone SVG, a PNG or paginated pages for printing / saving as PDF.
+ */
+export default function ChartExportModal({ projectName, items, calendar, defaultStart, defaultEnd, hideWeekends, criticalIds, criticalColor, onClose }: ChartExportModalProps) {
+  const [rangeStart, setRangeStart] = useState(defaultStart);
+  const [rangeEnd, setRangeEnd] = useState(defaultEnd);
+  const [includeTable, setIncludeTable] = useState(true);
+  const [skipWeekends, setSkipWeekends] = useState(hideWeekends);
+  const [paper, setPaper] = useState<PaperSize>('A4');
+  const [orientation, setOrientation] = useState<PaperOrientation>('landscape');
+  const [error, setError] = useState<string | null>(null);
+  const [busy, setBusy] = useState(false);
+
+  const rangeError = !rangeStart || !rangeEnd ? 'Choose both a start and an end date.' : rangeStart > rangeEnd ? 'The end date is before the start date.' : null;
+
+  const options = useMemo<ChartExportOptions>(
+    () => ({ title: projectName, items, calendar, rangeStart, rangeEnd, hideWeekends: skipWeekends, includeTable, criticalIds, criticalColor }),
+    [projectName, items, calendar, rangeStart, rangeEnd, skipWeekends, includeTable, criticalIds, criticalColor]
+  );
+  const pageCount = useMemo(() => (rangeError ? 0 : countGanttPages(options, paper, orientation)), [options, paper, orientation, rangeError]);
+  const stem = toFileStem(projectName);
+
+  const exportSvg = () => {
+    downloadFile(`${stem}-gantt.svg`, renderGanttSvg(options).svg, 'image/svg+xml');
+  };
+
+  const exportPng = async () => {
+    setBusy(true);
+    setError(null);
+    try {
+      downloadFile(`${stem}-gantt.png`, await rasterizeSvg(renderGanttSvg(options)), 'image/png');
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'PNG export failed.');
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const print = () => {
+    setError(null);
+    if (!printPages(renderGanttPages(options, paper, orientation), projectName, paper, orientation)) {
+      setError('The print window was blocked. Allow pop-ups for this page and try again.');
+    }
+  };
+
+  return (
+    <div role="dialog" aria-modal="true" className="fixed inset-0 z-[120] flex items-center justify-center p-4 bg-black/60 backdrop-blur-md animate-in fade-in duration-200">
+      <div className="bg-white rounded-3xl shadow-2xl w-full max-w-xl overflow-hidden animate-in zoom-in-95 duration-200">
+        <div className="px-8 py-6 bg-gray-50 border-b flex items-center justify-between">
+          <div className="flex items-center space-x-3 text-indigo-600">
+            <ImageIcon className="w-6 h-6" />
+            <h3 className="text-xl font-black uppercase tracking-tight">Export Chart</h3>
+          </div>
+          <button onClick={onClose} className="text-gray-400 hover:text-gray-600"><X /></button>
+        </div>
+
+        <div className="p-8 space-y-6">
+          <div className="grid grid-cols-2 gap-4">
+            <label className="block">
+              <span className="text-[10px] font-black text-gray-500 uppercase tracking-widest">From</span>
+              <input type="date" value={rangeStart} onChange={e => setRangeStart(e.target.value)} className="mt-1 w-full px-3 py-2 bg-gray-100 border-none rounded-lg text-xs font-bold focus:ring-2 focus:ring-indigo-500" />
+            </label>
+            <label className="block">
+              <span className="text-[10px] font-black text-gray-500 uppercase tracking-widest">To</span>
+              <input type="date" value={rangeEnd} onChange={e => setRangeEnd(e.target.value)} className="mt-1 w-full px-3 py-2 bg-gray-100 border-none rounded-lg text-xs font-bold focus:ring-2 focus:ring-indigo-500" />
+            </label>
+          </div>
+
+          <div className="flex items-center space-x-6 text-[11px] font-bold text-gray-700">
+            <label className="flex items-center"><input type="checkbox" checked={includeTable} onChange={e => setIncludeTable(e.target.checked)} className="mr-2 rounded text-indigo-600" /> Include table columns</label>
+            <label className="flex items-center"><input type="checkbox" checked={skipWeekends} onChange={e => setSkipWeekends(e.target.checked)} className="mr-2 rounded text-indigo-600" /> Hide weekends</label>
+          </div>
+
+          <div className="flex items-center space-x-3">
+            <button disabled={!!rangeError} onClick={exportSvg} className="flex-1 flex items-center justify-center px-4 py-2 bg-white border border-indigo-200 text-indigo-600 rounded-lg text-[10px] font-black uppercase hover:bg-indigo-50 disabled:opacity-40">
+              <FileImage className="w-4 h-4 mr-2" /> Download SVG
+            </button>
+            <button disabled={!!rangeError || busy} onClick={exportPng} className="flex-1 flex items-center justify-center px-4 py-2 bg-white border border-indigo-200 text-indigo-600 rounded-lg text-[10px] font-black uppercase hover:bg-indigo-50 disabled:opacity-40">
+              <ImageIcon className="w-4 h-4 mr-2" /> {busy ? 'Rendering…' : 'Download PNG'}
+            </button>
+          </div>
+
+          <div className="border-t pt-6 space-y-3">
+            <h4 className="text-[10px] font-black text-gray-500 uppercase tracking-widest">Print / PDF</h4>
+            <div className="flex items-center space-x-3">
+              <select value={paper} onChange={e => setPaper(e.target.value as PaperSize)} className="flex-1 px-3 py-2 bg-gray-100 border-none rounded-lg text-xs font-bold focus:ring-2 focus:ring-indigo-500">
+                {(Object.keys(PAPER_SIZES) as PaperSize[]).map(size => <option key={size} value={size}>{PAPER_SIZES[size].label}</option>)}
+              </select>
+              <select value={orientation} onChange={e => setOrientation(e.target.value as PaperOrientation)} className="px-3 py-2 bg-gray-100 border-none rounded-lg text-xs font-bold focus:ring-2 focus:ring-indigo-500">
+                <option value="landscape">Landscape</option>
+                <option value="portrait">Portrait</option>
+              </select>
+            </div>
+            <p className="text-[10px] text-gray-400 font-bold uppercase">{pageCount} page{pageCount === 1 ? '' : 's'} • headers repeat on every page • choose "Save as PDF" in the print dialog</p>
+          </div>
+
+          {(rangeError || error) && (
+            <div className="flex items-center p-3 bg-red-50 border border-red-100 rounded-lg text-[11px] text-red-700">
+              <XCircle className="w-3.5 h-3.5 mr-2 shrink-0" /> {rangeError || error}
+            </div>
+          )}
+        </div>
+
+        <div className="px-8 py-6 bg-gray-50 flex items-center justify-between">
+          <button onClick={onClose} className="px-6 py-2 text-xs font-bold text-gray-500 uppercase hover:text-gray-700">Close</button>
+          <button disabled={!!rangeError} onClick={print} className="flex items-center px-8 py-2 bg-indigo-600 text-white text-xs font-black uppercase rounded-lg shadow-lg hover:bg-indigo-700 disabled:opacity-40">
+            <Printer className="w-4 h-4 mr-2" /> Print / PDF
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,137 @@
+import React, { useMemo } from 'react';
+import { Coins, FileSpreadsheet, X } from 'lucide-react';
+
+import { ProjectItem, WorkCalendar } from '../types';
+import { formatCost, getCostOverTime, getCostTotals } from '../utils/costs';
+import { formatProjectDate } from '../utils/dateHelpers';
+import { getLevel } from '../utils/wbs';
+
+interface CostModalProps {
+  items: ProjectItem[];
+  calendar: WorkCalendar;
+  asOf: string; // Status date: unfinished actual costs are spread up to it
+  onExport: () => void;
+  onClose: () => void;
+}
+
+const CHART_WIDTH = 640;
+const CHART_HEIGHT = 180;
+const PADDING = { top: 12, right: 12, bottom: 24, left: 56 };
+const PLANNED_COLOR = '#4f46e5';
+const ACTUAL_COLOR = '#d97706';
+
+/**
+ * Planned against actual cost: cumulative curves per week and the breakdown by step.
+ */
+export default function CostModal({ items, calendar, asOf, onExport, onClose }: CostModalProps) {
+  const points = useMemo(() => getCostOverTime(items, asOf, calendar), [items, asOf, calendar]);
+  const totals = getCostTotals(items);
+  const steps = items.filter(i => i.type === 'S' && ((i.plannedCost || 0) > 0 || i.actualCost !== undefined));
+
+  const max = Math.max(1, ...points.map(p => Math.max(p.planned, p.actual)));
+  const innerWidth = CHART_WIDTH - PADDING.left - PADDING.right;
+  const innerHeight = CHART_HEIGHT - PADDING.top - PADDING.bottom;
+  const xAt = (i: number) => PADDING.left + (points.length > 1 ? (i / (points.length - 1)) * innerWidth : innerWidth / 2);
+  const yAt = (value: number) => PADDING.top + innerHeight - (value / max) * innerHeight;
+  const line = (key: 'planned' | 'actual') => points.map((p, i) => `${xAt(i)},${yAt(p[key])}`).join(' ');
+  // Actual cost stops at the status date rather than running flat into the future
+  const actualPoints = points.filter(p => p.week <= asOf);
+
+  return (
+    <div role="dialog" aria-modal="true" className="fixed inset-0 z-[120] flex items-center justify-center p-4 bg-black/60 backdrop-blur-md animate-in fade-in duration-200">
+      <div className="bg-white rounded-3xl shadow-2xl w-full max-w-3xl overflow-hidden animate-in zoom-in-95 duration-200">
+        <div className="px-8 py-6 bg-gray-50 border-b flex items-center justify-between">
+          <div className="flex items-center space-x-3 text-indigo-600">
+            <Coins className="w-6 h-6" />
+            <div>
+              <h3 className="text-xl font-black uppercase tracking-tight">Budget & Cost</h3>
+              <p className="text-[10px] text-gray-400 font-bold uppercase tracking-widest">Cumulative per week • actuals up to {formatProjectDate(asOf)}</p>
+            </div>
+          </div>
+          <button onClick={onClose} className="text-gray-400 hover:text-gray-600"><X /></button>
+        </div>
+
+        <div className="p-8 space-y-6 max-h-[65vh] overflow-y-auto">
+          <div className="grid grid-cols-3 gap-3">
+            <div className="p-4 bg-indigo-50 rounded-xl border border-indigo-100 text-center">
+              <p className="text-2xl font-black text-indigo-600">{formatCost(totals.planned)}</p>
+              <p className="text-[10px] text-indigo-400 font-bold uppercase tracking-widest">Planned Cost</p>
+            </div>
+            <div className="p-4 bg-amber-50 rounded-xl border border-amber-100 text-center">
+              <p className="text-2xl font-black text-amber-600">{formatCost(totals.actual)}</p>
+              <p className="text-[10px] text-amber-500 font-bold uppercase tracking-widest">Actual Cost</p>
+            </div>
+            <div className="p-4 bg-gray-50 rounded-xl border border-gray-100 text-center">
+              <p className={`text-2xl font-black ${totals.actual > totals.planned ? 'text-red-600' : 'text-green-600'}`}>{formatCost(totals.planned - totals.actual)}</p>
+              <p className="text-[10px] text-gray-500 font-bold uppercase tracking-widest">Remaining Budget</p>
+            </div>
+          </div>
+
+          {points.length === 0 ? (
+            <div className="text-center py-10 text-gray-400 font-bold uppercase tracking-widest text-xs">No costs yet: set day rates on resources or fixed costs on tasks</div>
+          ) : (
+            <div>
+              <svg width="100%" viewBox={`0 0 ${CHART_WIDTH} ${CHART_HEIGHT}`} className="overflow-visible">
+                {[0, 0.5, 1].map(f => (
+                  <g key={f}>
+                    <line x1={PADDING.left} y1={yAt(max * f)} x2={CHART_WIDTH - PADDING.right} y2={yAt(max * f)} stroke="#e5e7eb" strokeWidth="0.5" />
+                    <text x={PADDING.left - 6} y={yAt(max * f) + 3} textAnchor="end" className="text-[9px] fill-gray-400 font-mono">{formatCost(max * f)}</text>
+                  </g>
+                ))}
+                <text x={xAt(0)} y={CHART_HEIGHT - 6} textAnchor="start" className="text-[9px] fill-gray-400 font-bold uppercase">{formatProjectDate(points[0].week)}</text>
+                <text x={xAt(points.length - 1)} y={CHART_HEIGHT - 6} textAnchor="end" className="text-[9px] fill-gray-400 font-bold uppercase">{formatProjectDate(points[points.length - 1].week)}</text>
+                <polyline points={line('planned')} fill="none" stroke={PLANNED_COLOR} strokeWidth="2" />
+                {actualPoints.length > 0 && <polyline points={actualPoints.map((p, i) => `${xAt(i)},${yAt(p.actual)}`).join(' ')} fill="none" stroke={ACTUAL_COLOR} strokeWidth="2" />}
+                {points.map((p, i) => (
+                  <rect key={p.week} x={xAt(i) - innerWidth / Math.max(1, points.length) / 2} y={PADDING.top} width={innerWidth / Math.max(1, points.length)} height={innerHeight} fill="transparent">
+                    <title>{`Week of ${formatProjectDate(p.week)}: planned ${formatCost(p.planned)}${p.week <= asOf ? `, actual ${formatCost(p.actual)}` : ''}`}</title>
+                  </rect>
+                ))}
+              </svg>
+              <div className="flex items-center justify-center space-x-6 mt-2 text-[10px] font-bold uppercase text-gray-500">
+                <span className="flex items-center"><span className="w-4 h-0.5 mr-2" style={{ backgroundColor: PLANNED_COLOR }} /> Planned</span>
+                <span className="flex items-center"><span className="w-4 h-0.5 mr-2" style={{ backgroundColor: ACTUAL_COLOR }} /> Actual</span>
+              </div>
+            </div>
+          )}
+
+          {steps.length > 0 && (
+            <div>
+              <h4 className="text-[10px] font-black text-gray-500 uppercase tracking-widest mb-2">By Step</h4>
+              <table className="w-full text-[11px]">
+                <thead>
+                  <tr className="text-[9px] text-gray-400 uppercase tracking-widest">
+                    <th className="text-left py-1 font-black">Step</th>
+                    <th className="text-right font-black">Planned</th>
+                    <th className="text-right font-black">Actual</th>
+                    <th className="text-right font-black">Variance</th>
+                  </tr>
+                </thead>
+                <tbody className="divide-y divide-gray-100">
+                  {steps.map(step => {
+                    const variance = step.actualCost === undefined ? undefined : step.actualCost - (step.plannedCost || 0);
+                    return (
+                      <tr key={step.id}>
+                        <td className="py-1.5 font-bold text-gray-700" style={{ paddingLeft: getLevel(step) * 12 }}><span className="font-mono text-gray-400 mr-2">{step.tId}</span>{step.description}</td>
+                        <td className="text-right font-mono">{formatCost(step.plannedCost || 0)}</td>
+                        <td className="text-right font-mono">{formatCost(step.actualCost)}</td>
+                        <td className={`text-right font-mono font-bold ${variance !== undefined && variance > 0 ? 'text-red-600' : 'text-gray-500'}`}>{variance === undefined ? '—' : `${variance > 0 ? '+' : ''}${formatCost(variance)}`}</td>
+                      </tr>
+                    );
+                  })}
+                </tbody>
+              </table>
+            </div>
+          )}
+        </div>
+
+        <div className="px-8 py-6 bg-gray-50 flex items-center justify-between">
+          <button onClick={onExport} className="flex items-center px-4 py-2 bg-white border border-indigo-200 text-indigo-600 rounded-lg text-xs font-black uppercase hover:bg-indigo-50">
+            <FileSpreadsheet className="w-3.5 h-3.5 mr-2" /> Export Breakdown (.csv)
+          </button>
+          <button onClick={onClose} className="px-8 py-2 bg-indigo-600 text-white text-xs font-black uppercase rounded-lg shadow-lg hover:bg-indigo-700">Close</button>
+        </div>
+      </div>
+    </div>
+  );
+}
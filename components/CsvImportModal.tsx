@@ -0,0 +1,184 @@
+
+import React, { useMemo, useState } from 'react';
+import { FileSpreadsheet, Upload, X, XCircle, AlertTriangle } from 'lucide-react';
+
+import { ProjectItem, WorkCalendar } from '../types';
+import {
+  CSV_COLUMNS,
+  ColumnMapping,
+  CsvRowError,
+  DATE_FORMATS,
+  buildItemsFromRows,
+  detectDateFormat,
+  detectDelimiter,
+  guessColumnMapping,
+  parseDelimited
+} from '../utils/csv';
+
+export interface CsvImportResult {
+  items: ProjectItem[];
+  errors: CsvRowError[];
+  warnings: string[];
+  replace: boolean;
+}
+
+interface CsvImportModalProps {
+  calendar: WorkCalendar;
+  onImport: (result: CsvImportResult) => void;
+  onClose: () => void;
+}
+
+const DELIMITER_LABELS: Record<string, string> = { ',': 'Comma', ';': 'Semicolon', '\t': 'Tab' };
+
+/**
+ * Paste or upload spreadsheet rows, map their columns to item fields and review row errors before importing.
+ */
+export default function CsvImportModal({ calendar, onImport, onClose }: CsvImportModalProps) {
+  const [text, setText] = useState('');
+  const [delimiter, setDelimiter] = useState(',');
+  const [mapping, setMapping] = useState<ColumnMapping | null>(null);
+  const [dateFormat, setDateFormat] = useState(DATE_FORMATS[0]);
+
+  const rows = useMemo(() => (text.trim() ? parseDelimited(text, delimiter) : []), [text, delimiter]);
+  const headers = rows[0] || [];
+
+  const loadText = (content: string) => {
+    const detected = detectDelimiter(content);
+    const parsed = parseDelimited(content, detected);
+    const guessed = guessColumnMapping(parsed[0] || []);
+    const dateCells = parsed.slice(1).flatMap(r => [r[guessed.start], r[guessed.end]]).filter((v): v is string => v !== undefined);
+    setText(content);
+    setDelimiter(detected);
+    setMapping(guessed);
+    setDateFormat(detectDateFormat(dateCells) || DATE_FORMATS[0]);
+  };
+
+  // Typing in the rows keeps the delimiter, mapping and date format (perhaps chosen by hand);
+  // detection runs again only for new text, such as a paste that brings another header row
+  const editText = (content: string) => {
+    const headerLine = (value: string) => value.split(/\r?\n/, 1)[0];
+    if (!mapping || headerLine(content) !== headerLine(text)) loadText(content);
+    else setText(content);
+  };
+
+  const handleFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (file) loadText(await file.text());
+  };
+
+  const preview = useMemo(
+    () => (mapping && rows.length > 1 ? buildItemsFromRows(rows, mapping, dateFormat, calendar) : null),
+    [rows, mapping, dateFormat, calendar]
+  );
+  const missingRequired = mapping ? CSV_COLUMNS.filter(c => c.required && mapping[c.field] < 0) : [];
+  const canImport = !!preview && preview.items.length > 0 && missingRequired.length === 0;
+
+  const submit = (replace: boolean) => {
+    if (!preview) return;
+    onImport({ ...preview, replace });
+  };
+
+  return (
+    <div role="dialog" aria-modal="true" className="fixed inset-0 z-[120] flex items-center justify-center p-4 bg-black/60 backdrop-blur-md animate-in fade-in duration-200">
+      <div className="bg-white rounded-3xl shadow-2xl w-full max-w-3xl overflow-hidden animate-in zoom-in-95 duration-200">
+        <div className="px-8 py-6 bg-gray-50 border-b flex items-center justify-between">
+          <div className="flex items-center space-x-3 text-indigo-600">
+            <FileSpreadsheet className="w-6 h-6" />
+            <h3 className="text-xl font-black uppercase tracking-tight">Import CSV / Spreadsheet</h3>
+          </div>
+          <button onClick={onClose} className="text-gray-400 hover:text-gray-600"><X /></button>
+        </div>
+
+        <div className="p-8 space-y-6 max-h-[65vh] overflow-y-auto">
+          <div className="space-y-2">
+            <div className="flex items-center justify-between">
+              <label className="text-[10px] font-black text-gray-500 uppercase tracking-widest">Paste rows (header included) or upload a file</label>
+              <label className="flex items-center px-3 py-1.5 bg-white border border-indigo-200 text-indigo-600 rounded-lg text-[10px] font-black uppercase cursor-pointer hover:bg-indigo-50">
+                <Upload className="w-3.5 h-3.5 mr-1" /> Choose File
+                <input type="file" accept=".csv,.tsv,.txt,text/csv,text/tab-separated-values" className="hidden" onChange={handleFile} />
+              </label>
+            </div>
+            <textarea
+              value={text}
+              onChange={e => editText(e.target.value)}
+              rows={6}
+              placeholder={CSV_COLUMNS.map(c => c.header).join('\t')}
+              className="w-full px-4 py-3 bg-gray-100 border-none rounded-lg text-[11px] font-mono focus:ring-2 focus:ring-indigo-500"
+            />
+          </div>
+
+          {mapping && headers.length > 0 && (
+            <>
+              <div className="flex items-center space-x-6">
+                <label className="flex items-center text-[10px] font-bold text-gray-500 uppercase">
+                  Delimiter
+                  <select value={delimiter} onChange={e => setDelimiter(e.target.value)} className="ml-2 px-2 py-1 bg-gray-100 border-none rounded text-[11px] font-bold focus:ring-2 focus:ring-indigo-500">
+                    {Object.entries(DELIMITER_LABELS).map(([value, label]) => <option key={label} value={value}>{label}</option>)}
+                  </select>
+                </label>
+                <label className="flex items-center text-[10px] font-bold text-gray-500 uppercase">
+                  Date Format
+                  <select value={dateFormat} onChange={e => setDateFormat(e.target.value)} className="ml-2 px-2 py-1 bg-gray-100 border-none rounded text-[11px] font-bold focus:ring-2 focus:ring-indigo-500">
+                    {DATE_FORMATS.map(f => <option key={f} value={f}>{f}</option>)}
+                  </select>
+                </label>
+              </div>
+
+              <div>
+                <h4 className="text-[10px] font-black text-gray-500 uppercase tracking-widest mb-2">Column Mapping</h4>
+                <div className="grid grid-cols-2 gap-2">
+                  {CSV_COLUMNS.map(col => (
+                    <label key={col.field} className="flex items-center justify-between px-3 py-2 bg-gray-50 border border-gray-100 rounded-lg text-[11px] font-bold text-gray-700">
+                      {col.header}{col.required && <span className="text-red-500 ml-0.5">*</span>}
+                      <select
+                        value={mapping[col.field]}
+                        onChange={e => setMapping({ ...mapping, [col.field]: parseInt(e.target.value) })}
+                        className="ml-2 w-40 px-2 py-1 bg-white border border-gray-200 rounded text-[11px] focus:ring-2 focus:ring-indigo-500"
+                      >
+                        <option value={-1}>— Not mapped —</option>
+                        {headers.map((h, i) => <option key={i} value={i}>{h || `Column ${i + 1}`}</option>)}
+                      </select>
+                    </label>
+                  ))}
+                </div>
+              </div>
+            </>
+          )}
+
+          {missingRequired.map(col => (
+            <div key={col.field} className="flex items-center p-3 bg-red-50 border border-red-100 rounded-lg text-[11px] text-red-700">
+              <XCircle className="w-3.5 h-3.5 mr-2 shrink-0" /> Map a column to {col.header} to continue.
+            </div>
+          ))}
+
+          {preview && missingRequired.length === 0 && (
+            <div className="space-y-1">
+              <p className="text-[10px] font-black text-gray-500 uppercase tracking-widest">
+                {preview.items.length} rows ready • {new Set(preview.errors.map(e => e.row)).size} rows skipped
+              </p>
+              {preview.errors.map((err, i) => (
+                <div key={`e-${i}`} className="flex items-start px-3 py-2 bg-red-50 border border-red-100 rounded-lg text-[11px] text-red-700">
+                  <XCircle className="w-3.5 h-3.5 mr-2 mt-0.5 shrink-0" /> Row {err.row}: {err.message}
+                </div>
+              ))}
+              {preview.warnings.map((message, i) => (
+                <div key={`w-${i}`} className="flex items-start px-3 py-2 bg-amber-50 border border-amber-100 rounded-lg text-[11px] text-amber-700">
+                  <AlertTriangle className="w-3.5 h-3.5 mr-2 mt-0.5 shrink-0" /> {message}
+                </div>
+              ))}
+            </div>
+          )}
+        </div>
+
+        <div className="px-8 py-6 bg-gray-50 flex items-center justify-between">
+          <p className="text-[10px] text-gray-400 font-bold uppercase">IDs, colors and phase dates are recalculated after import</p>
+          <div className="flex items-center space-x-2">
+            <button disabled={!canImport} onClick={() => submit(false)} className="px-6 py-2 bg-white border border-indigo-200 text-indigo-600 text-xs font-black uppercase rounded-lg hover:bg-indigo-50 disabled:opacity-40">Append</button>
+            <button disabled={!canImport} onClick={() => submit(true)} className="px-6 py-2 bg-indigo-600 text-white text-xs font-black uppercase rounded-lg shadow-lg hover:bg-indigo-700 disabled:opacity-40">Replace Items</button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,171 @@
+
+import React from 'react';
+import { ProjectItem, DependencyMode } from '../types';
+
+export interface BarSpan {
+  row: number;
+  first: number;
+  last: number;
+}
+
+export interface HoveredLink {
+  fromId: string;
+  toId: string;
+}
+
+interface DependencyArrowsProps {
+  items: ProjectItem[];
+  spans: Map<string, BarSpan>;
+  rowHeight: number;
+  dayWidth: number;
+  width: number;
+  height: number;
+  hoveredLink: HoveredLink | null;
+  criticalIds?: Set<string>;
+  rowWindow?: { first: number; last: number }; // Only links touching these rows are routed
+  onHover: (link: HoveredLink | null) => void;
+}
+
+const GAP = 8;          // Horizontal clearance between an arrow and the bar edge it leaves or enters
+const BAR_MARGIN = 4;   // Extra clearance when threading a vertical segment between bars
+
+const LINK_COLOR = '#64748b';
+const HOVER_COLOR = '#4f46e5';
+const CRITICAL_LINK_COLOR = '#dc2626';
+
+/**
+ * Picks an x for a vertical segment crossing the given rows that does not cut through any bar,
+ * preferring the position closest to `preferred`.
+ */
+const findFreeX = (preferred: number, blocked: [number, number][]): number => {
+  const isFree = (x: number) => blocked.every(([l, r]) => x < l || x > r);
+  if (isFree(preferred)) return preferred;
+  const candidates = blocked.flatMap(([l, r]) => [l - BAR_MARGIN, r + BAR_MARGIN])
+    .filter(x => x >= 0 && isFree(x))
+    .sort((a, b) => Math.abs(a - preferred) - Math.abs(b - preferred));
+  return candidates.length > 0 ? candidates[0] : preferred;
+};
+
+/**
+ * Orthogonal route from the predecessor anchor to the successor anchor.
+ * Horizontal runs follow the row boundaries so they never cross a bar.
+ */
+const routeLink = (
+  from: BarSpan,
+  to: BarSpan,
+  mode: DependencyMode,
+  spansByRow: BarSpan[][],
+  rowHeight: number,
+  dayWidth: number
+): { x: number; y: number }[] => {
+  const fromFinish = mode === 'FS' || mode === 'FF';
+  const toFinish = mode === 'FF' || mode === 'SF';
+
+  const sx = fromFinish ? (from.last + 1) * dayWidth : from.first * dayWidth;
+  const sy = from.row * rowHeight + rowHeight / 2;
+  const tx = toFinish ? (to.last + 1) * dayWidth : to.first * dayWidth;
+  const ty = to.row * rowHeight + rowHeight / 2;
+
+  const exitX = sx + (fromFinish ? GAP : -GAP);
+  const entryX = tx + (toFinish ? GAP : -GAP);
+  const down = to.row > from.row;
+  const leaveY = down ? (from.row + 1) * rowHeight : from.row * rowHeight;
+  const arriveY = down ? to.row * rowHeight : (to.row + 1) * rowHeight;
+
+  const points = [{ x: sx, y: sy }, { x: exitX, y: sy }, { x: exitX, y: leaveY }];
+  if (leaveY !== arriveY) {
+    const lo = Math.min(from.row, to.row) + 1;
+    const hi = Math.max(from.row, to.row) - 1;
+    const blocked: [number, number][] = [];
+    for (let r = lo; r <= hi; r++) {
+      (spansByRow[r] || []).forEach(s => blocked.push([s.first * dayWidth, (s.last + 1) * dayWidth]));
+    }
+    const vx = findFreeX(entryX, blocked);
+    points.push({ x: vx, y: leaveY }, { x: vx, y: arriveY });
+  }
+  points.push({ x: entryX, y: arriveY }, { x: entryX, y: ty }, { x: tx, y: ty });
+
+  // Drop zero-length segments so the arrowhead keeps its direction
+  return points.filter((p, i) => i === 0 || p.x !== points[i - 1].x || p.y !== points[i - 1].y);
+};
+
+/**
+ * Overlay drawing routed connector arrows for every predecessor link.
+ */
+export default function DependencyArrows({ items, spans, rowHeight, dayWidth, width, height, hoveredLink, criticalIds, rowWindow, onHover }: DependencyArrowsProps) {
+  const spansByRow: BarSpan[][] = [];
+  spans.forEach(span => {
+    (spansByRow[span.row] = spansByRow[span.row] || []).push(span);
+  });
+
+  const labels = new Map(items.map(i => [i.id, i.tId]));
+
+  const links = items.flatMap(item => (item.predecessors || []).map(link => {
+    const from = spans.get(link.id);
+    const to = spans.get(item.id);
+    if (!from || !to) return null;
+    if (rowWindow && (Math.max(from.row, to.row) < rowWindow.first || Math.min(from.row, to.row) > rowWindow.last)) return null;
+    const points = routeLink(from, to, link.mode, spansByRow, rowHeight, dayWidth);
+    const isHovered = hoveredLink?.fromId === link.id && hoveredLink?.toId === item.id;
+    const isCritical = !!criticalIds && criticalIds.has(link.id) && criticalIds.has(item.id);
+    const lag = link.lag === 0 ? '' : ` ${link.lag > 0 ? '+' : ''}${link.lag}d`;
+    return {
+      key: `${link.id}-${item.id}`,
+      fromId: link.id,
+      toId: item.id,
+      d: points.map((p, i) => `${i === 0 ? 'M' : 'L'} ${p.x} ${p.y}`).join(' '),
+      mid: points[Math.floor(points.length / 2)],
+      text: `${labels.get(link.id)} → ${labels.get(item.id)} • ${link.mode}${lag}`,
+      isHovered,
+      isCritical
+    };
+  })).filter((l): l is NonNullable<typeof l> => l !== null);
+
+  const hovered = links.find(l => l.isHovered);
+
+  return (
+    <>
+      <svg className="absolute inset-0 pointer-events-none z-10" width={width} height={height}>
+        <defs>
+          <marker id="dep-arrow" viewBox="0 0 8 8" refX="7" refY="4" markerWidth="6" markerHeight="6" orient="auto-start-reverse">
+            <path d="M 0 0 L 8 4 L 0 8 z" fill={LINK_COLOR} />
+          </marker>
+          <marker id="dep-arrow-hover" viewBox="0 0 8 8" refX="7" refY="4" markerWidth="6" markerHeight="6" orient="auto-start-reverse">
+            <path d="M 0 0 L 8 4 L 0 8 z" fill={HOVER_COLOR} />
+          </marker>
+          <marker id="dep-arrow-critical" viewBox="0 0 8 8" refX="7" refY="4" markerWidth="6" markerHeight="6" orient="auto-start-reverse">
+            <path d="M 0 0 L 8 4 L 0 8 z" fill={CRITICAL_LINK_COLOR} />
+          </marker>
+        </defs>
+        {links.map(link => (
+          <g key={link.key}>
+            <path
+              d={link.d}
+              fill="none"
+              stroke={link.isHovered ? HOVER_COLOR : link.isCritical ? CRITICAL_LINK_COLOR : LINK_COLOR}
+              strokeWidth={link.isHovered ? 2 : 1.2}
+              markerEnd={`url(#${link.isHovered ? 'dep-arrow-hover' : link.isCritical ? 'dep-arrow-critical' : 'dep-arrow'})`}
+              opacity={hoveredLink && !link.isHovered ? 0.35 : 0.9}
+            />
+            {/* Wide invisible stroke so thin arrows are easy to hover */}
+            <path
+              d={link.d}
+              fill="none"
+              stroke="transparent"
+              strokeWidth={8}
+              style={{ pointerEvents: 'stroke' }}
+              className="cursor-help"
+              onMouseEnter={() => onHover({ fromId: link.fromId, toId: link.toId })}
+              onMouseLeave={() => onHover(null)}
+            />
+          </g>
+        ))}
+      </svg>
+      {hovered && (
+        <div className="absolute pointer-events-none bg-indigo-600 text-white text-[10px] font-bold px-2 py-1 rounded shadow-lg whitespace-nowrap z-30" style={{ left: hovered.mid.x + 6, top: hovered.mid.y - 26 }}>
+          {hovered.text}
+        </div>
+      )}
+    </>
+  );
+}
@@ -0,0 +1,45 @@
+import React from 'react';
+import { Check, CornerUpLeft } from 'lucide-react';
+import { ProjectHistory } from '../utils/history';
+
+interface HistoryPanelProps {
+  history: ProjectHistory;
+  onJump: (index: number) => void;
+  onClose: () => void;
+}
+
+/**
+ * The project's undo history, newest first. Clicking a row undoes or redoes everything
+ * up to and including it; rows after the current point are greyed out until redone.
+ */
+export default function HistoryPanel({ history, onJump, onClose }: HistoryPanelProps) {
+  const rows = history.entries.map((entry, i) => ({ key: entry.id, label: entry.label, at: entry.at, target: i + 1 })).reverse();
+
+  return (
+    <>
+      <div className="fixed inset-0 z-40" onClick={onClose} />
+      <div className="absolute right-0 top-full mt-2 w-80 bg-white rounded-xl shadow-2xl border border-gray-100 py-2 z-50 text-gray-700">
+        <p className="px-4 pb-2 text-[9px] font-black text-gray-400 uppercase tracking-widest border-b border-gray-100">
+          History · {history.index} of {history.entries.length} applied
+        </p>
+        <div className="max-h-80 overflow-y-auto">
+          {[...rows, { key: 'start', label: 'Start of history', at: null, target: 0 }].map(row => {
+            const current = row.target === history.index;
+            const undone = row.target > history.index;
+            return (
+              <button
+                key={row.key}
+                onClick={() => onJump(row.target)}
+                className={`w-full flex items-center px-4 py-1.5 text-[11px] text-left hover:bg-indigo-50 ${current ? 'bg-indigo-50 text-indigo-700 font-bold' : undone ? 'text-gray-400 italic' : ''}`}
+              >
+                {current ? <Check className="w-3 h-3 mr-2 shrink-0" /> : <CornerUpLeft className="w-3 h-3 mr-2 shrink-0 opacity-30" />}
+                <span className="flex-1 truncate">{row.label}</span>
+                {row.at && <span className="ml-2 text-[9px] text-gray-400 font-mono">{new Date(row.at).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })}</span>}
+              </button>
+            );
+          })}
+        </div>
+      </div>
+    </>
+  );
+}
@@ -0,0 +1,73 @@
+
+import React from 'react';
+import { FileCheck2, AlertTriangle, XCircle, CheckCircle2, X } from 'lucide-react';
+import { ImportReport } from '../types';
+
+interface ImportReportModalProps {
+  report: ImportReport;
+  onClose: () => void;
+}
+
+/**
+ * Lists what an import created and everything it had to convert, drop or skip.
+ */
+export default function ImportReportModal({ report, onClose }: ImportReportModalProps) {
+  const failed = report.imported === 0 && report.errors.length > 0;
+
+  return (
+    <div role="dialog" aria-modal="true" className="fixed inset-0 z-[160] flex items-center justify-center p-4 bg-black/60 backdrop-blur-md animate-in fade-in duration-200">
+      <div className="bg-white rounded-3xl shadow-2xl w-full max-w-2xl overflow-hidden animate-in zoom-in-95 duration-200">
+        <div className="px-8 py-6 bg-gray-50 border-b flex items-center justify-between">
+          <div className={`flex items-center space-x-3 ${failed ? 'text-red-600' : 'text-indigo-600'}`}>
+            {failed ? <XCircle className="w-6 h-6" /> : <FileCheck2 className="w-6 h-6" />}
+            <div>
+              <h3 className="text-xl font-black uppercase tracking-tight">{failed ? 'Import Failed' : 'Import Report'}</h3>
+              <p className="text-[10px] text-gray-400 font-bold uppercase tracking-widest">{report.source}</p>
+            </div>
+          </div>
+          <button onClick={onClose} className="text-gray-400 hover:text-gray-600"><X /></button>
+        </div>
+
+        <div className="p-8 space-y-4 max-h-[60vh] overflow-y-auto">
+          <div className="flex items-center space-x-4">
+            <div className="flex-1 p-4 bg-indigo-50 rounded-xl border border-indigo-100 text-center">
+              <p className="text-2xl font-black text-indigo-600">{report.imported}</p>
+              <p className="text-[10px] text-indigo-400 font-bold uppercase tracking-widest">Items Imported</p>
+            </div>
+            <div className="flex-1 p-4 bg-amber-50 rounded-xl border border-amber-100 text-center">
+              <p className="text-2xl font-black text-amber-600">{report.warnings.length}</p>
+              <p className="text-[10px] text-amber-500 font-bold uppercase tracking-widest">Warnings</p>
+            </div>
+            <div className="flex-1 p-4 bg-red-50 rounded-xl border border-red-100 text-center">
+              <p className="text-2xl font-black text-red-600">{report.errors.length}</p>
+              <p className="text-[10px] text-red-400 font-bold uppercase tracking-widest">Errors</p>
+            </div>
+          </div>
+
+          {report.outcomes?.map((message, i) => (
+            <div key={`o-${i}`} className="flex items-start p-3 bg-indigo-50 border border-indigo-100 rounded-lg text-[11px] text-indigo-700">
+              <CheckCircle2 className="w-3.5 h-3.5 mr-2 mt-0.5 shrink-0" /> {message}
+            </div>
+          ))}
+          {report.errors.map((message, i) => (
+            <div key={`e-${i}`} className="flex items-start p-3 bg-red-50 border border-red-100 rounded-lg text-[11px] text-red-700">
+              <XCircle className="w-3.5 h-3.5 mr-2 mt-0.5 shrink-0" /> {message}
+            </div>
+          ))}
+          {report.warnings.map((message, i) => (
+            <div key={`w-${i}`} className="flex items-start p-3 bg-amber-50 border border-amber-100 rounded-lg text-[11px] text-amber-700">
+              <AlertTriangle className="w-3.5 h-3.5 mr-2 mt-0.5 shrink-0" /> {message}
+            </div>
+          ))}
+          {report.errors.length === 0 && report.warnings.length === 0 && (
+            <div className="text-center py-4 text-green-600 font-bold uppercase tracking-widest text-xs">Everything was imported as-is</div>
+          )}
+        </div>
+
+        <div className="px-8 py-6 bg-gray-50 flex justify-end">
+          <button onClick={onClose} className="px-8 py-2 bg-indigo-600 text-white text-xs font-black uppercase rounded-lg shadow-lg hover:bg-indigo-700">Close</button>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,98 @@
+
+import React, { useMemo, useState } from 'react';
+import { AlertTriangle, ArrowRight, Scale, X } from 'lucide-react';
+
+import { ProjectItem, Resource, WorkCalendar } from '../types';
+import { levelResources } from '../utils/leveling';
+import { formatProjectDate } from '../utils/dateHelpers';
+
+interface LevelingModalProps {
+  items: ProjectItem[];
+  resources: Resource[];
+  calendar: WorkCalendar;
+  onApply: (items: ProjectItem[]) => void;
+  onClose: () => void;
+}
+
+/**
+ * Previews a resource leveling run as a list of moved dates before it is applied.
+ */
+export default function LevelingModal({ items, resources, calendar, onApply, onClose }: LevelingModalProps) {
+  const [pastFloat, setPastFloat] = useState(false);
+  const result = useMemo(() => levelResources(items, resources, calendar, { pastFloat }), [items, resources, calendar, pastFloat]);
+  const byId = useMemo(() => new Map(items.map(i => [i.id, i])), [items]);
+  const label = (id: string) => {
+    const item = byId.get(id);
+    return item ? `${item.tId} ${item.description}` : id;
+  };
+
+  return (
+    <div role="dialog" aria-modal="true" className="fixed inset-0 z-[120] flex items-center justify-center p-4 bg-black/60 backdrop-blur-md animate-in fade-in duration-200">
+      <div className="bg-white rounded-3xl shadow-2xl w-full max-w-2xl overflow-hidden animate-in zoom-in-95 duration-200">
+        <div className="px-8 py-6 bg-gray-50 border-b flex items-center justify-between">
+          <div className="flex items-center space-x-3 text-indigo-600">
+            <Scale className="w-6 h-6" />
+            <h3 className="text-xl font-black uppercase tracking-tight">Level Resources</h3>
+          </div>
+          <button onClick={onClose} className="text-gray-400 hover:text-gray-600"><X /></button>
+        </div>
+
+        <div className="p-8 space-y-5 max-h-[65vh] overflow-y-auto">
+          <div className="flex items-center justify-between">
+            <label className="flex items-center text-[11px] font-bold text-gray-700">
+              <input type="checkbox" checked={pastFloat} onChange={e => setPastFloat(e.target.checked)} className="mr-2 rounded text-indigo-600" />
+              Allow delays past float (may push step and project finish dates)
+            </label>
+            <span className="text-[10px] font-black uppercase text-gray-500">
+              Over-allocated days: <span className="text-red-600">{result.overloadBefore}</span> → <span className={result.overloadAfter > 0 ? 'text-red-600' : 'text-green-600'}>{result.overloadAfter}</span>
+            </span>
+          </div>
+
+          {result.cycle && (
+            <div className="flex items-center p-3 bg-red-50 border border-red-100 rounded-lg text-[11px] text-red-700">
+              <AlertTriangle className="w-3.5 h-3.5 mr-2 shrink-0" /> The dependency links form a cycle, so nothing can be leveled.
+            </div>
+          )}
+
+          <div>
+            <h4 className="text-[10px] font-black text-gray-500 uppercase tracking-widest mb-2">Moved Tasks ({result.moves.length})</h4>
+            {result.moves.length === 0 && (
+              <div className="text-center py-4 text-gray-400 font-bold uppercase tracking-widest text-xs">{result.overloadBefore === 0 ? 'Nobody is over-allocated' : 'No task can be moved within the limits'}</div>
+            )}
+            <div className="space-y-1">
+              {result.moves.map(move => (
+                <div key={move.id} className="flex items-center justify-between px-3 py-2 bg-gray-50 rounded-lg border border-gray-100 text-[11px]">
+                  <span className="font-bold text-gray-800 truncate flex-1">{label(move.id)}</span>
+                  <span className="font-mono text-gray-400 line-through">{formatProjectDate(move.fromStart)} – {formatProjectDate(move.fromEnd)}</span>
+                  <ArrowRight className="w-3 h-3 mx-2 text-gray-400 shrink-0" />
+                  <span className="font-mono font-bold text-indigo-700">{formatProjectDate(move.toStart)} – {formatProjectDate(move.toEnd)}</span>
+                  <span className="ml-3 w-10 text-right font-mono font-black text-amber-600">+{move.delay}d</span>
+                </div>
+              ))}
+            </div>
+          </div>
+
+          {result.unresolved.length > 0 && (
+            <div>
+              <h4 className="text-[10px] font-black text-red-500 uppercase tracking-widest mb-2">Still Over-Allocated ({result.unresolved.length})</h4>
+              <p className="text-[11px] text-gray-600">
+                {result.unresolved.map(label).join(' • ')}
+              </p>
+              <p className="mt-1 text-[10px] text-gray-400 font-bold uppercase">
+                {pastFloat ? 'Started tasks and allocations above capacity are not moved' : 'Allow delays past float to move these as well'}
+              </p>
+            </div>
+          )}
+        </div>
+
+        <div className="px-8 py-6 bg-gray-50 flex items-center justify-between">
+          <p className="text-[10px] text-gray-400 font-bold uppercase">Tasks with less float keep their dates • one undo reverts the run</p>
+          <div className="flex items-center space-x-4">
+            <button onClick={onClose} className="px-6 py-2 text-sm font-bold text-gray-500 hover:text-gray-700">CANCEL</button>
+            <button disabled={result.moves.length === 0} onClick={() => onApply(result.items)} className="px-8 py-2 bg-indigo-600 text-white text-xs font-black uppercase rounded-lg shadow-lg hover:bg-indigo-700 disabled:opacity-40">Apply Leveling</button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,81 @@
+import React from 'react';
+import { ShieldAlert, AlertTriangle, Download, Trash2, RotateCcw, X } from 'lucide-react';
+import { QuarantinedRecord } from '../storage';
+
+interface QuarantineModalProps {
+  records: QuarantinedRecord[];
+  onRecover: (record: QuarantinedRecord) => void;
+  onDownload: (record: QuarantinedRecord) => void;
+  onDiscard: (record: QuarantinedRecord) => void;
+  onClose: () => void;
+}
+
+const SOURCE_LABELS: Record<QuarantinedRecord['source'], string> = {
+  storage: 'Saved project',
+  backup: 'Version snapshot',
+  import: 'Imported file'
+};
+
+/**
+ * Damaged data kept out of the workspace: each record can be recovered (the repaired
+ * version is used), downloaded as it was found, or discarded.
+ */
+export default function QuarantineModal({ records, onRecover, onDownload, onDiscard, onClose }: QuarantineModalProps) {
+  return (
+    <div role="dialog" aria-modal="true" className="fixed inset-0 z-[160] flex items-center justify-center p-4 bg-black/60 backdrop-blur-md animate-in fade-in duration-200">
+      <div className="bg-white rounded-3xl shadow-2xl w-full max-w-2xl overflow-hidden animate-in zoom-in-95 duration-200">
+        <div className="px-8 py-6 bg-gray-50 border-b flex items-center justify-between">
+          <div className="flex items-center space-x-3 text-amber-600">
+            <ShieldAlert className="w-6 h-6" />
+            <div>
+              <h3 className="text-xl font-black uppercase tracking-tight">Damaged Data</h3>
+              <p className="text-[10px] text-gray-400 font-bold uppercase tracking-widest">Kept aside so the rest of the workspace opens</p>
+            </div>
+          </div>
+          <button onClick={onClose} className="text-gray-400 hover:text-gray-600"><X /></button>
+        </div>
+
+        <div className="p-8 space-y-4 max-h-[60vh] overflow-y-auto">
+          {records.length === 0 && (
+            <div className="text-center py-4 text-green-600 font-bold uppercase tracking-widest text-xs">Nothing in quarantine</div>
+          )}
+          {records.map(record => (
+            <div key={record.key} className="p-4 bg-amber-50 border border-amber-100 rounded-xl">
+              <div className="flex items-center justify-between">
+                <div>
+                  <p className="text-xs font-black text-gray-800 uppercase tracking-tight">{record.name}</p>
+                  <p className="text-[10px] text-gray-400 font-bold uppercase tracking-widest">{SOURCE_LABELS[record.source]} · found {new Date(record.quarantinedAt).toLocaleString()}</p>
+                </div>
+                <div className="flex items-center space-x-3">
+                  {record.recoverable && (
+                    <button onClick={() => onRecover(record)} className="flex items-center text-[10px] font-black uppercase text-indigo-600 hover:underline" title="Use the repaired version">
+                      <RotateCcw className="w-3 h-3 mr-1" /> Recover
+                    </button>
+                  )}
+                  <button onClick={() => onDownload(record)} className="flex items-center text-[10px] font-black uppercase text-gray-500 hover:text-indigo-600" title="Download the data as it was found">
+                    <Download className="w-3 h-3 mr-1" /> Download
+                  </button>
+                  <button onClick={() => onDiscard(record)} className="flex items-center text-[10px] font-black uppercase text-gray-500 hover:text-red-600">
+                    <Trash2 className="w-3 h-3 mr-1" /> Discard
+                  </button>
+                </div>
+              </div>
+              <ul className="mt-2 space-y-1">
+                {record.issues.map((issue, i) => (
+                  <li key={i} className="flex items-start text-[11px] text-amber-700">
+                    <AlertTriangle className="w-3 h-3 mr-2 mt-0.5 shrink-0" /> {issue}
+                  </li>
+                ))}
+              </ul>
+              {!record.recoverable && <p className="mt-2 text-[10px] text-red-500 font-bold">Too damaged to repair. Download it to fix it by hand.</p>}
+            </div>
+          ))}
+        </div>
+
+        <div className="px-8 py-6 bg-gray-50 flex justify-end">
+          <button onClick={onClose} className="px-8 py-2 bg-indigo-600 text-white text-xs font-black uppercase rounded-lg shadow-lg hover:bg-indigo-700">Close</button>
+        </div>
+      </div>
+    </div>
+  );
+}
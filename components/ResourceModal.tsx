@@ -0,0 +1,133 @@
+
+import React, { useState } from 'react';
+import { Plus, Trash2, Users, X, XCircle } from 'lucide-react';
+
+import { ProjectItem, Resource } from '../types';
+import { WEEKDAY_LABELS } from '../utils/calendar';
+import { createResource } from '../utils/resources';
+
+interface ResourceModalProps {
+  resources: Resource[];
+  items: ProjectItem[];
+  projectWeekdays: number[];
+  overloaded: Record<string, number>; // Over-allocated visible days per resource id
+  onSave: (resources: Resource[]) => void;
+  onClose: () => void;
+}
+
+/**
+ * Edits the project's resource registry: names, roles, capacity, day rates and personal work weeks.
+ */
+export default function ResourceModal({ resources, items, projectWeekdays, overloaded, onSave, onClose }: ResourceModalProps) {
+  const [draft, setDraft] = useState<Resource[]>(resources);
+  const [newName, setNewName] = useState('');
+
+  const update = (id: string, changes: Partial<Resource>) => {
+    setDraft(prev => prev.map(r => r.id === id ? { ...r, ...changes } : r));
+  };
+
+  const toggleWeekday = (resource: Resource, day: number) => {
+    const current = resource.workingWeekdays || projectWeekdays;
+    const next = current.includes(day) ? current.filter(d => d !== day) : [...current, day].sort();
+    // Matching the project week again means the resource simply follows it
+    const same = next.length === projectWeekdays.length && next.every(d => projectWeekdays.includes(d));
+    update(resource.id, { workingWeekdays: same ? undefined : next });
+  };
+
+  const addResource = () => {
+    if (!newName.trim()) return;
+    setDraft(prev => [...prev, createResource(newName)]);
+    setNewName('');
+  };
+
+  const assignedCount = (id: string) => items.filter(i => i.assignments?.some(a => a.resourceId === id)).length;
+
+  const names = draft.map(r => r.name.trim().toLowerCase());
+  const error = names.some(n => !n)
+    ? 'Every resource needs a name.'
+    : names.some((n, i) => names.indexOf(n) !== i)
+      ? 'Two resources share the same name.'
+      : draft.some(r => !(r.capacity > 0))
+        ? 'Capacity must be above 0%.'
+        : null;
+
+  return (
+    <div role="dialog" aria-modal="true" className="fixed inset-0 z-[120] flex items-center justify-center p-4 bg-black/60 backdrop-blur-md animate-in fade-in duration-200">
+      <div className="bg-white rounded-3xl shadow-2xl w-full max-w-3xl overflow-hidden animate-in zoom-in-95 duration-200">
+        <div className="px-8 py-6 bg-gray-50 border-b flex items-center justify-between">
+          <div className="flex items-center space-x-3 text-indigo-600">
+            <Users className="w-6 h-6" />
+            <h3 className="text-xl font-black uppercase tracking-tight">Resources</h3>
+          </div>
+          <button onClick={onClose} className="text-gray-400 hover:text-gray-600"><X /></button>
+        </div>
+
+        <div className="p-8 space-y-4 max-h-[60vh] overflow-y-auto">
+          <div className="flex items-center space-x-2">
+            <input value={newName} onChange={e => setNewName(e.target.value)} onKeyDown={e => { if (e.key === 'Enter') addResource(); }} placeholder="Name of a person or team..." className="flex-1 px-4 py-2 bg-gray-100 border-none rounded-lg text-xs font-bold focus:ring-2 focus:ring-indigo-500" />
+            <button onClick={addResource} className="flex items-center px-4 py-2 bg-indigo-600 text-white rounded-lg text-[10px] font-black uppercase hover:bg-indigo-700 shadow">
+              <Plus className="w-3.5 h-3.5 mr-1" /> Add Resource
+            </button>
+          </div>
+
+          {draft.length === 0 && (
+            <div className="text-center py-6 text-gray-400 font-bold uppercase tracking-widest text-xs">No resources registered yet</div>
+          )}
+          {draft.map(r => {
+            const workWeek = r.workingWeekdays || projectWeekdays;
+            const count = assignedCount(r.id);
+            return (
+              <div key={r.id} className="p-3 rounded-xl border bg-gray-50 border-gray-100 space-y-2">
+                <div className="flex items-center space-x-2">
+                  <input value={r.name} onChange={e => update(r.id, { name: e.target.value })} className="flex-1 px-3 py-1.5 bg-white border border-gray-200 rounded-lg text-xs font-bold focus:ring-2 focus:ring-indigo-500" />
+                  <input value={r.role} onChange={e => update(r.id, { role: e.target.value })} placeholder="Role" className="w-36 px-3 py-1.5 bg-white border border-gray-200 rounded-lg text-xs focus:ring-2 focus:ring-indigo-500" />
+                  <label className="flex items-center text-[10px] font-bold text-gray-500 uppercase" title="Share of a full-time day; 200% is a two-person team">
+                    <input type="number" min="1" step="10" value={r.capacity} onChange={e => update(r.id, { capacity: parseInt(e.target.value) || 0 })} className="w-16 mr-1 px-2 py-1.5 bg-white border border-gray-200 rounded-lg text-xs text-right font-bold focus:ring-2 focus:ring-indigo-500" />
+                    % cap.
+                  </label>
+                  <label className="flex items-center text-[10px] font-bold text-gray-500 uppercase" title="Cost of one working day at 100% allocation; prices tasks without a fixed cost">
+                    <input type="number" min="0" value={r.rate ?? ''} placeholder="0" onChange={e => update(r.id, { rate: e.target.value === '' ? undefined : Math.max(0, parseFloat(e.target.value) || 0) })} className="w-20 mr-1 px-2 py-1.5 bg-white border border-gray-200 rounded-lg text-xs text-right font-bold focus:ring-2 focus:ring-indigo-500" />
+                    /day
+                  </label>
+                  <button onClick={() => setDraft(prev => prev.filter(x => x.id !== r.id))} className="p-1.5 text-gray-300 hover:text-red-500 hover:bg-red-50 rounded" title={count > 0 ? `Delete and unassign from ${count} item(s)` : 'Delete Resource'}><Trash2 className="w-3.5 h-3.5" /></button>
+                </div>
+                <div className="flex items-center justify-between">
+                  <div className="flex items-center space-x-1">
+                    {WEEKDAY_LABELS.map((label, day) => (
+                      <button
+                        key={label}
+                        onClick={() => toggleWeekday(r, day)}
+                        className={`px-2 py-1 rounded text-[9px] font-black transition-all ${workWeek.includes(day) ? (r.workingWeekdays ? 'bg-indigo-600 text-white' : 'bg-indigo-200 text-indigo-700') : 'bg-gray-100 text-gray-400 hover:bg-gray-200'}`}
+                      >
+                        {label}
+                      </button>
+                    ))}
+                    <span className="pl-2 text-[9px] font-bold text-gray-400 uppercase">{r.workingWeekdays ? 'Personal week' : 'Project week'}</span>
+                  </div>
+                  <span className="text-[10px] font-bold uppercase text-gray-400">
+                    {count} item{count === 1 ? '' : 's'}
+                    {overloaded[r.id] > 0 && <span className="ml-2 text-red-600">{overloaded[r.id]} day{overloaded[r.id] === 1 ? '' : 's'} over capacity</span>}
+                  </span>
+                </div>
+              </div>
+            );
+          })}
+
+          {error && (
+            <div className="flex items-center p-3 bg-red-50 border border-red-100 rounded-lg text-[11px] text-red-700">
+              <XCircle className="w-3.5 h-3.5 mr-2 shrink-0" /> {error}
+            </div>
+          )}
+        </div>
+
+        <div className="px-8 py-6 bg-gray-50 flex items-center justify-between">
+          <p className="text-[10px] text-gray-400 font-bold uppercase">Days off per person live in the calendar</p>
+          <div className="flex items-center space-x-4">
+            <button onClick={onClose} className="px-6 py-2 text-sm font-bold text-gray-500 hover:text-gray-700">CANCEL</button>
+            <button disabled={!!error} onClick={() => onSave(draft.map(r => ({ ...r, name: r.name.trim() })))} className="px-8 py-2 bg-indigo-600 text-white text-xs font-black uppercase rounded-lg shadow-lg hover:bg-indigo-700 disabled:opacity-40">Apply Resources</button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
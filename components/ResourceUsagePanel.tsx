@@ -0,0 +1,111 @@
+
+import React from 'react';
+import { Scale, Settings2, Users, X } from 'lucide-react';
+
+import { ResourceUsage } from '../utils/resources';
+import { formatProjectDate } from '../utils/dateHelpers';
+
+interface ResourceUsagePanelProps {
+  usage: ResourceUsage[];
+  dates: Date[];             // Visible timeline columns
+  dayWidth: number;
+  colStart: number;          // Column window shared with the Gantt
+  colEnd: number;
+  labelWidth: number;        // Width of the table beside the Gantt; 0 overlays the names on the chart
+  innerRef: React.Ref<HTMLDivElement>; // Translated by the Gantt's horizontal scroll
+  onScrollBy: (dx: number) => void;
+  onManage: () => void;
+  onLevel: () => void;
+  onClose: () => void;
+}
+
+const ROW_HEIGHT = 28;
+const MAX_VISIBLE_ROWS = 6;
+const OVER_COLOR = '#dc2626';
+const LOAD_COLOR = '#818cf8';
+
+/**
+ * Daily load per resource under the Gantt, one histogram row each. Days above capacity are red.
+ */
+export default function ResourceUsagePanel({ usage, dates, dayWidth, colStart, colEnd, labelWidth, innerRef, onScrollBy, onManage, onLevel, onClose }: ResourceUsagePanelProps) {
+  const width = Math.max(0, dates.length * dayWidth);
+  const capacityHeight = (ROW_HEIGHT - 4) * 0.7;
+
+  // Consecutive columns with the same load are drawn as one bar
+  const renderRow = ({ resource, load }: ResourceUsage, row: number) => {
+    const bars: React.ReactNode[] = [];
+    let runStart = colStart;
+    for (let col = colStart; col <= colEnd + 1; col++) {
+      if (col <= colEnd && load[col] === load[runStart]) continue;
+      const value = load[runStart];
+      if (value > 0) {
+        const height = Math.min(ROW_HEIGHT - 4, (value / resource.capacity) * capacityHeight);
+        bars.push(
+          <rect key={runStart} x={runStart * dayWidth} y={row * ROW_HEIGHT + ROW_HEIGHT - 2 - height} width={Math.max(1, (col - runStart) * dayWidth - (dayWidth >= 6 ? 1 : 0))} height={height} fill={value > resource.capacity ? OVER_COLOR : LOAD_COLOR} opacity={0.85}>
+            <title>{`${resource.name}: ${formatProjectDate(dates[runStart])}${col - 1 > runStart ? ` – ${formatProjectDate(dates[col - 1])}` : ''} • ${Math.round(value)}% of ${resource.capacity}%`}</title>
+          </rect>
+        );
+      }
+      runStart = col;
+    }
+    const capacityY = row * ROW_HEIGHT + ROW_HEIGHT - 2 - capacityHeight;
+    return (
+      <g key={resource.id}>
+        {bars}
+        <line x1={colStart * dayWidth} y1={capacityY} x2={(colEnd + 1) * dayWidth} y2={capacityY} stroke="#94a3b8" strokeWidth="0.5" strokeDasharray="3 3" />
+        <line x1={colStart * dayWidth} y1={(row + 1) * ROW_HEIGHT} x2={(colEnd + 1) * dayWidth} y2={(row + 1) * ROW_HEIGHT} stroke="#e5e7eb" strokeWidth="0.5" />
+      </g>
+    );
+  };
+
+  const label = ({ resource, overloaded, peak }: ResourceUsage) => (
+    <div key={resource.id} style={{ height: ROW_HEIGHT }} className="flex items-center justify-between px-3 border-b border-gray-100 text-[10px]">
+      <span className="font-bold text-gray-700 truncate">{resource.name}{resource.role && <span className="ml-1.5 font-medium text-gray-400">{resource.role}</span>}</span>
+      <span className={`ml-2 shrink-0 font-mono font-bold ${overloaded > 0 ? 'text-red-600' : 'text-gray-400'}`} title={`Peak ${Math.round(peak)}% • capacity ${resource.capacity}%`}>
+        {overloaded > 0 ? `${overloaded}d OVER` : `${Math.round(peak)}%`}
+      </span>
+    </div>
+  );
+
+  return (
+    <div className="bg-white border-t-2 border-gray-300 flex flex-col z-20">
+      <div className="flex items-center justify-between px-6 py-1 bg-gray-50 border-b border-gray-200 text-[10px] font-bold text-gray-500">
+        <div className="flex items-center space-x-4">
+          <span className="flex items-center uppercase"><Users className="w-3.5 h-3.5 mr-2" /> Resource Load</span>
+          <span className="flex items-center"><span className="w-2.5 h-2.5 mr-1 rounded-sm" style={{ backgroundColor: LOAD_COLOR }} /> Within capacity</span>
+          <span className="flex items-center"><span className="w-2.5 h-2.5 mr-1 rounded-sm" style={{ backgroundColor: OVER_COLOR }} /> Over-allocated</span>
+          <span className="flex items-center"><span className="w-4 mr-1 border-t border-dashed border-gray-400" /> Capacity</span>
+        </div>
+        <div className="flex items-center space-x-2">
+          <button onClick={onLevel} disabled={!usage.some(u => u.overloaded > 0)} className="flex items-center px-2 py-0.5 rounded text-indigo-600 hover:bg-indigo-50 uppercase disabled:opacity-30 disabled:hover:bg-transparent" title="Delay tasks with float until nobody is over capacity"><Scale className="w-3 h-3 mr-1" /> Level</button>
+          <button onClick={onManage} className="flex items-center px-2 py-0.5 rounded hover:bg-gray-200 uppercase"><Settings2 className="w-3 h-3 mr-1" /> Manage</button>
+          <button onClick={onClose} className="text-gray-400 hover:text-gray-600"><X className="w-3.5 h-3.5" /></button>
+        </div>
+      </div>
+
+      {usage.length === 0 ? (
+        <div className="py-4 text-center text-[10px] font-bold text-gray-400 uppercase tracking-widest">No resources registered — assign people from the Accountable column</div>
+      ) : (
+        <div className="flex overflow-y-auto" style={{ maxHeight: MAX_VISIBLE_ROWS * ROW_HEIGHT }}>
+          {labelWidth > 0 && (
+            <div style={{ width: labelWidth }} className="flex-shrink-0 border-r border-gray-300 bg-white">
+              {usage.map(label)}
+            </div>
+          )}
+          <div className="flex-1 overflow-hidden relative" onWheel={e => { if (e.deltaX) onScrollBy(e.deltaX); }}>
+            <div ref={innerRef} style={{ width, height: usage.length * ROW_HEIGHT }} className="relative bg-[#fafbfc] will-change-transform">
+              <svg width={width} height={usage.length * ROW_HEIGHT} className="block">
+                {usage.map(renderRow)}
+              </svg>
+            </div>
+            {labelWidth === 0 && (
+              <div className="absolute inset-y-0 left-0 w-56 bg-white/85 border-r border-gray-200 pointer-events-none">
+                {usage.map(label)}
+              </div>
+            )}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
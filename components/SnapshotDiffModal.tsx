@@ -0,0 +1,115 @@
+import React, { useMemo, useState } from 'react';
+import { format, parseISO } from 'date-fns';
+import { GitCompare, RotateCcw, X } from 'lucide-react';
+import { Backup, ProjectItem } from '../types';
+import { compareSnapshot, SnapshotChange, SnapshotChangeKind, SnapshotFieldChange } from '../utils/snapshots';
+import { formatProjectDate } from '../utils/dateHelpers';
+
+interface SnapshotDiffModalProps {
+  backup: Backup;
+  items: ProjectItem[];
+  onRestoreAll: () => void;
+  onRestoreRows: (chosen: SnapshotChange[]) => void;
+  onClose: () => void;
+}
+
+const KIND_STYLES: Record<SnapshotChangeKind, { label: string; className: string }> = {
+  added: { label: 'Added since', className: 'bg-green-100 text-green-700' },
+  removed: { label: 'Removed since', className: 'bg-red-100 text-red-700' },
+  moved: { label: 'Moved', className: 'bg-sky-100 text-sky-700' },
+  changed: { label: 'Edited', className: 'bg-amber-100 text-amber-700' }
+};
+
+const formatValue = (field: SnapshotFieldChange, value: string | number) => {
+  if (field.key === 'start' || field.key === 'end') return formatProjectDate(value as string);
+  if (field.key === 'progress') return `${value}%`;
+  return value === '' ? '—' : String(value);
+};
+
+/**
+ * What changed between a version snapshot and the live plan, before anything is restored.
+ * Rows (or whole steps) can be ticked to restore only those from the snapshot.
+ */
+export default function SnapshotDiffModal({ backup, items, onRestoreAll, onRestoreRows, onClose }: SnapshotDiffModalProps) {
+  const changes = useMemo(() => compareSnapshot(items, backup.project.items), [items, backup]);
+  const [selected, setSelected] = useState<Set<string>>(new Set());
+
+  const toggle = (change: SnapshotChange) => {
+    setSelected(prev => {
+      const next = new Set(prev);
+      const on = !prev.has(change.id);
+      change.rowIds.forEach(id => on ? next.add(id) : next.delete(id));
+      return next;
+    });
+  };
+
+  const counts = changes.reduce((acc, c) => ({ ...acc, [c.kind]: (acc[c.kind] || 0) + 1 }), {} as Partial<Record<SnapshotChangeKind, number>>);
+
+  return (
+    <div role="dialog" aria-modal="true" className="fixed inset-0 z-[130] flex items-center justify-center p-4 bg-black/60 backdrop-blur-md animate-in fade-in duration-200">
+      <div className="bg-white rounded-3xl shadow-2xl w-full max-w-3xl overflow-hidden animate-in zoom-in-95 duration-200">
+        <div className="px-8 py-6 bg-gray-50 border-b flex items-center justify-between">
+          <div className="flex items-center space-x-3 text-indigo-600">
+            <GitCompare className="w-6 h-6" />
+            <div>
+              <h3 className="text-xl font-black uppercase tracking-tight">Snapshot vs. Current Plan</h3>
+              <p className="text-[10px] text-gray-400 font-bold uppercase tracking-widest">
+                {format(parseISO(backup.timestamp), 'PPP pp')} • {(Object.keys(KIND_STYLES) as SnapshotChangeKind[]).filter(k => counts[k]).map(k => `${counts[k]} ${KIND_STYLES[k].label.toLowerCase()}`).join(' • ') || 'no differences'}
+              </p>
+            </div>
+          </div>
+          <button onClick={onClose} className="text-gray-400 hover:text-gray-600"><X /></button>
+        </div>
+
+        <div className="p-8 space-y-2 max-h-[60vh] overflow-y-auto">
+          {changes.length === 0 && (
+            <div className="text-center py-10 text-gray-400 font-bold uppercase tracking-widest text-xs">The snapshot matches the current plan</div>
+          )}
+          {changes.map(change => (
+            <label key={change.id} className={`flex items-start p-3 rounded-xl border cursor-pointer transition-all ${selected.has(change.id) ? 'bg-indigo-50 border-indigo-200' : 'bg-gray-50 border-gray-100 hover:border-indigo-200'}`}>
+              <input type="checkbox" checked={selected.has(change.id)} onChange={() => toggle(change)} className="mt-0.5 mr-3 accent-indigo-600" />
+              <div className="flex-1 min-w-0">
+                <div className="flex items-center space-x-2">
+                  <span className={`px-2 py-0.5 rounded text-[9px] font-black uppercase tracking-widest ${KIND_STYLES[change.kind].className}`}>{KIND_STYLES[change.kind].label}</span>
+                  <span className="text-[10px] font-mono text-gray-400">
+                    {change.kind === 'moved' ? `${change.snapshotCode} → ${change.currentCode}` : change.currentCode ?? change.snapshotCode}
+                  </span>
+                  <span className={`text-xs truncate ${change.type === 'S' ? 'font-black uppercase' : 'font-bold'} text-gray-800`}>{change.description || 'Untitled'}</span>
+                  {change.rowIds.length > 1 && <span className="text-[9px] text-gray-400 font-bold uppercase">+{change.rowIds.length - 1} below</span>}
+                </div>
+                {change.fields.length > 0 && (
+                  <ul className="mt-1.5 space-y-0.5">
+                    {change.fields.map(field => (
+                      <li key={field.key} className="text-[11px] text-gray-500">
+                        <span className="font-bold uppercase text-[9px] tracking-widest text-gray-400 mr-2">{field.label}</span>
+                        <span className="line-through text-red-400">{formatValue(field, field.snapshot)}</span>
+                        <span className="mx-1">→</span>
+                        <span className="text-gray-700">{formatValue(field, field.current)}</span>
+                      </li>
+                    ))}
+                  </ul>
+                )}
+              </div>
+            </label>
+          ))}
+        </div>
+
+        <div className="px-8 py-6 bg-gray-50 flex items-center justify-between">
+          <p className="text-[10px] text-gray-400 font-bold uppercase">Struck-through values are the snapshot's</p>
+          <div className="flex items-center space-x-3">
+            <button
+              disabled={selected.size === 0}
+              onClick={() => onRestoreRows(changes.filter(c => selected.has(c.id)))}
+              className="flex items-center px-4 py-2 bg-white border border-indigo-200 text-indigo-600 rounded-lg text-xs font-black uppercase hover:bg-indigo-50 disabled:opacity-40 disabled:cursor-not-allowed"
+            >
+              <RotateCcw className="w-3.5 h-3.5 mr-2" /> Restore {selected.size || ''} Selected
+            </button>
+            <button onClick={onRestoreAll} className="flex items-center px-6 py-2 bg-indigo-600 text-white rounded-lg text-xs font-black uppercase hover:bg-indigo-700 shadow-lg">
+              <RotateCcw className="w-3.5 h-3.5 mr-2" /> Restore Whole Snapshot
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,134 @@
+import React from 'react';
+import { Gauge, AlertTriangle, X } from 'lucide-react';
+
+import { ProjectItem } from '../types';
+import { EarnedValueReport, formatEffort, formatSpi, getEffectiveProgress } from '../utils/earnedValue';
+import { formatProjectDate } from '../utils/dateHelpers';
+import { getLevel } from '../utils/wbs';
+
+interface StatusModalProps {
+  report: EarnedValueReport;
+  items: ProjectItem[];
+  statusDate: string;
+  isToday: boolean;
+  onStatusDateChange: (date: string | null) => void; // null measures against today again
+  onClose: () => void;
+}
+
+const spiClass = (spi: number | null) => spi === null ? 'text-gray-400' : spi < 0.9 ? 'text-red-600' : spi < 1 ? 'text-amber-600' : 'text-green-600';
+
+/**
+ * Schedule performance on the status date: earned value for the project and each step, and
+ * the tasks and milestones that are behind their plan.
+ */
+export default function StatusModal({ report, items, statusDate, isToday, onStatusDateChange, onClose }: StatusModalProps) {
+  const { project } = report;
+  const steps = items.filter(i => i.type === 'S' && report.items[i.id]?.budget > 0);
+  const behind = items.filter(i => report.behind.includes(i.id));
+
+  const cards = [
+    { label: 'Planned Value', value: formatEffort(project.planned), hint: `of ${formatEffort(project.budget)} budget`, className: 'text-indigo-600' },
+    { label: 'Earned Value', value: formatEffort(project.earned), hint: `${project.budget > 0 ? Math.round((project.earned / project.budget) * 100) : 0}% complete`, className: 'text-indigo-600' },
+    { label: 'Schedule Variance', value: formatEffort(project.scheduleVariance, true), hint: 'EV − PV', className: project.scheduleVariance < 0 ? 'text-red-600' : 'text-green-600' },
+    { label: 'SPI', value: formatSpi(project.spi), hint: 'EV ÷ PV', className: spiClass(project.spi) }
+  ];
+
+  return (
+    <div role="dialog" aria-modal="true" className="fixed inset-0 z-[120] flex items-center justify-center p-4 bg-black/60 backdrop-blur-md animate-in fade-in duration-200">
+      <div className="bg-white rounded-3xl shadow-2xl w-full max-w-3xl overflow-hidden animate-in zoom-in-95 duration-200">
+        <div className="px-8 py-6 bg-gray-50 border-b flex items-center justify-between">
+          <div className="flex items-center space-x-3 text-indigo-600">
+            <Gauge className="w-6 h-6" />
+            <div>
+              <h3 className="text-xl font-black uppercase tracking-tight">Schedule Performance</h3>
+              <p className="text-[10px] text-gray-400 font-bold uppercase tracking-widest">Earned value in work days, measured at the end of the status date</p>
+            </div>
+          </div>
+          <button onClick={onClose} className="text-gray-400 hover:text-gray-600"><X /></button>
+        </div>
+
+        <div className="p-8 space-y-6 max-h-[65vh] overflow-y-auto">
+          <div className="flex items-center space-x-3">
+            <label className="text-[10px] font-black text-gray-500 uppercase tracking-widest">Status Date</label>
+            <input type="date" value={statusDate} onChange={e => e.target.value && onStatusDateChange(e.target.value)} className="px-3 py-1.5 bg-gray-100 border-none rounded-lg text-xs font-bold focus:ring-2 focus:ring-indigo-500" />
+            {isToday
+              ? <span className="text-[10px] font-bold text-gray-400 uppercase">Today</span>
+              : <button onClick={() => onStatusDateChange(null)} className="text-[10px] font-black uppercase text-indigo-600 hover:underline">Use Today</button>}
+          </div>
+
+          <div className="grid grid-cols-4 gap-3">
+            {cards.map(card => (
+              <div key={card.label} className="p-4 bg-gray-50 rounded-xl border border-gray-100 text-center">
+                <p className={`text-2xl font-black ${card.className}`}>{card.value}</p>
+                <p className="text-[10px] text-gray-500 font-bold uppercase tracking-widest">{card.label}</p>
+                <p className="text-[9px] text-gray-400 font-bold uppercase">{card.hint}</p>
+              </div>
+            ))}
+          </div>
+
+          {steps.length > 0 && (
+            <div>
+              <h4 className="text-[10px] font-black text-gray-500 uppercase tracking-widest mb-2">By Step</h4>
+              <table className="w-full text-[11px]">
+                <thead>
+                  <tr className="text-[9px] text-gray-400 uppercase tracking-widest">
+                    <th className="text-left py-1 font-black">Step</th>
+                    <th className="text-right font-black">PV</th>
+                    <th className="text-right font-black">EV</th>
+                    <th className="text-right font-black">SV</th>
+                    <th className="text-right font-black">SPI</th>
+                  </tr>
+                </thead>
+                <tbody className="divide-y divide-gray-100">
+                  {steps.map(step => {
+                    const value = report.items[step.id];
+                    return (
+                      <tr key={step.id}>
+                        <td className="py-1.5 font-bold text-gray-700" style={{ paddingLeft: getLevel(step) * 12 }}><span className="font-mono text-gray-400 mr-2">{step.tId}</span>{step.description}</td>
+                        <td className="text-right font-mono">{formatEffort(value.planned)}</td>
+                        <td className="text-right font-mono">{formatEffort(value.earned)}</td>
+                        <td className={`text-right font-mono font-bold ${value.scheduleVariance < 0 ? 'text-red-600' : 'text-gray-500'}`}>{formatEffort(value.scheduleVariance, true)}</td>
+                        <td className={`text-right font-mono font-bold ${spiClass(value.spi)}`}>{formatSpi(value.spi)}</td>
+                      </tr>
+                    );
+                  })}
+                </tbody>
+              </table>
+            </div>
+          )}
+
+          <div>
+            <h4 className="text-[10px] font-black text-gray-500 uppercase tracking-widest mb-2">Behind Plan</h4>
+            {behind.length === 0 && (
+              <div className="text-center py-4 text-green-600 font-bold uppercase tracking-widest text-xs">Everything is where the plan expects it</div>
+            )}
+            <div className="space-y-2">
+              {behind.map(item => {
+                const value = report.items[item.id];
+                return (
+                  <div key={item.id} className="flex items-center justify-between p-3 bg-red-50 border border-red-100 rounded-lg">
+                    <div className="flex items-center text-[11px] text-red-700 min-w-0">
+                      <AlertTriangle className="w-3.5 h-3.5 mr-2 shrink-0" />
+                      <span className="font-mono mr-2">{item.tId}</span>
+                      <span className="font-bold truncate">{item.description}</span>
+                    </div>
+                    <div className="text-[10px] font-bold text-red-600 uppercase whitespace-nowrap ml-4">
+                      {item.type === 'M'
+                        ? `Due ${formatProjectDate(item.end)}`
+                        : `${getEffectiveProgress(item)}% of ${value.expectedProgress}% expected • SV ${formatEffort(value.scheduleVariance, true)}`}
+                      {item.actualStart && ` • started ${formatProjectDate(item.actualStart)}`}
+                    </div>
+                  </div>
+                );
+              })}
+            </div>
+          </div>
+        </div>
+
+        <div className="px-8 py-6 bg-gray-50 flex justify-end">
+          <button onClick={onClose} className="px-8 py-2 bg-indigo-600 text-white text-xs font-black uppercase rounded-lg shadow-lg hover:bg-indigo-700">Close</button>
+        </div>
+      </div>
+    </div>
+  );
+}
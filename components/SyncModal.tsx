@@ -0,0 +1,108 @@
+import React, { useState } from 'react';
+import { Cloud, CloudOff, AlertTriangle, RefreshCw, X } from 'lucide-react';
+import { SyncStatus } from '../storage';
+import { formatProjectDate } from '../utils/dateHelpers';
+import { Project } from '../types';
+
+interface SyncModalProps {
+  url: string | null;
+  status: SyncStatus;
+  onSaveUrl: (url: string | null) => void;
+  onSyncNow: () => void;
+  onResolve: (projectId: string, keep: 'local' | 'remote') => void;
+  onClose: () => void;
+}
+
+const STATE_LABELS: Record<SyncStatus['state'], string> = {
+  disabled: 'Sync is off: projects are only kept in this browser',
+  offline: 'Server unreachable: changes are queued and sent when it is back',
+  pending: 'Sending changes to the server',
+  synced: 'All projects are up to date with the server',
+  conflict: 'Some projects were changed on the server and here'
+};
+
+const describeVersion = (project: Project | null) => {
+  if (!project) return 'Deleted';
+  const ends = project.items.map(i => i.end).filter(Boolean).sort();
+  return `${project.items.length} items${ends.length ? `, ends ${formatProjectDate(ends[ends.length - 1])}` : ''}`;
+};
+
+/**
+ * Connects the workspace to a sync server and settles projects that were edited on both sides.
+ */
+export default function SyncModal({ url, status, onSaveUrl, onSyncNow, onResolve, onClose }: SyncModalProps) {
+  const [draftUrl, setDraftUrl] = useState(url || '');
+  const trimmed = draftUrl.trim();
+  const validUrl = /^https?:\/\/\S+$/.test(trimmed);
+
+  return (
+    <div role="dialog" aria-modal="true" className="fixed inset-0 z-[160] flex items-center justify-center p-4 bg-black/60 backdrop-blur-md animate-in fade-in duration-200">
+      <div className="bg-white rounded-3xl shadow-2xl w-full max-w-2xl overflow-hidden animate-in zoom-in-95 duration-200">
+        <div className="px-8 py-6 bg-gray-50 border-b flex items-center justify-between">
+          <div className={`flex items-center space-x-3 ${status.state === 'conflict' ? 'text-red-600' : 'text-indigo-600'}`}>
+            {status.state === 'offline' || status.state === 'disabled' ? <CloudOff className="w-6 h-6" /> : <Cloud className="w-6 h-6" />}
+            <div>
+              <h3 className="text-xl font-black uppercase tracking-tight">Server Sync</h3>
+              <p className="text-[10px] text-gray-400 font-bold uppercase tracking-widest">{STATE_LABELS[status.state]}</p>
+            </div>
+          </div>
+          <button onClick={onClose} className="text-gray-400 hover:text-gray-600"><X /></button>
+        </div>
+
+        <div className="p-8 space-y-4 max-h-[60vh] overflow-y-auto">
+          <div>
+            <label className="text-[10px] font-black text-gray-400 uppercase tracking-widest">Server URL</label>
+            <div className="flex items-center space-x-2 mt-1">
+              <input
+                value={draftUrl}
+                onChange={e => setDraftUrl(e.target.value)}
+                placeholder="http://localhost:8787"
+                className="flex-1 px-3 py-2 border border-gray-200 rounded-lg text-xs font-mono outline-none focus:ring-2 focus:ring-indigo-500"
+              />
+              <button onClick={() => onSaveUrl(trimmed)} disabled={!validUrl || trimmed === url} className="px-4 py-2 bg-indigo-600 text-white text-[10px] font-black uppercase rounded-lg hover:bg-indigo-700 disabled:opacity-30">Connect</button>
+              {url && <button onClick={() => onSaveUrl(null)} className="px-4 py-2 text-[10px] font-black uppercase text-gray-500 hover:text-red-600">Disconnect</button>}
+            </div>
+            <p className="text-[10px] text-gray-400 mt-2">Run <span className="font-mono">npm run sync-server</span> for the reference server. Edits are always saved in this browser first.</p>
+          </div>
+
+          {status.state !== 'disabled' && (
+            <div className="flex items-center justify-between p-3 bg-gray-50 border border-gray-100 rounded-lg text-[11px] text-gray-600">
+              <span>{status.pending === 0 ? 'No changes waiting' : `${status.pending} project${status.pending === 1 ? '' : 's'} waiting to be sent`}</span>
+              <button onClick={onSyncNow} className="flex items-center text-[10px] font-black uppercase text-indigo-600 hover:underline"><RefreshCw className="w-3 h-3 mr-1" /> Sync now</button>
+            </div>
+          )}
+
+          {status.error && (
+            <div className="flex items-start p-3 bg-red-50 border border-red-100 rounded-lg text-[11px] text-red-700">
+              <AlertTriangle className="w-3.5 h-3.5 mr-2 mt-0.5 shrink-0" /> The server refused a change: {status.error}
+            </div>
+          )}
+
+          {status.conflicts.map(conflict => (
+            <div key={conflict.projectId} className="p-4 bg-amber-50 border border-amber-100 rounded-xl">
+              <div className="flex items-center text-xs font-black text-amber-700 uppercase tracking-tight">
+                <AlertTriangle className="w-3.5 h-3.5 mr-2" /> {conflict.name}
+              </div>
+              <div className="grid grid-cols-2 gap-3 mt-3">
+                <div className="p-3 bg-white rounded-lg border border-amber-100">
+                  <p className="text-[9px] font-black text-gray-400 uppercase tracking-widest">This browser</p>
+                  <p className="text-[11px] text-gray-700 mt-1">{describeVersion(conflict.local)}</p>
+                  <button onClick={() => onResolve(conflict.projectId, 'local')} className="mt-2 text-[10px] font-black uppercase text-indigo-600 hover:underline">Keep mine</button>
+                </div>
+                <div className="p-3 bg-white rounded-lg border border-amber-100">
+                  <p className="text-[9px] font-black text-gray-400 uppercase tracking-widest">Server</p>
+                  <p className="text-[11px] text-gray-700 mt-1">{describeVersion(conflict.remote)}</p>
+                  <button onClick={() => onResolve(conflict.projectId, 'remote')} className="mt-2 text-[10px] font-black uppercase text-indigo-600 hover:underline">Take server's</button>
+                </div>
+              </div>
+            </div>
+          ))}
+        </div>
+
+        <div className="px-8 py-6 bg-gray-50 flex justify-end">
+          <button onClick={onClose} className="px-8 py-2 bg-indigo-600 text-white text-xs font-black uppercase rounded-lg shadow-lg hover:bg-indigo-700">Close</button>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,65 @@
+import React from 'react';
+import { Copy, X } from 'lucide-react';
+import { MergeConflict } from '../utils/merge';
+
+interface TabConflictNoticeProps {
+  conflicts: MergeConflict[];
+  onResolve: (conflict: MergeConflict, keep: 'mine' | 'theirs') => void;
+  onDismiss: () => void;
+}
+
+const FIELD_LABELS: Record<string, string> = {
+  description: 'Description',
+  type: 'Type',
+  level: 'Outline level',
+  accountable: 'Accountable',
+  assignments: 'Assignments',
+  workDays: 'Work days',
+  start: 'Start',
+  end: 'End',
+  progress: 'Progress',
+  predecessors: 'Predecessors',
+  name: 'Project name',
+  calendar: 'Calendar',
+  resources: 'Resources',
+  baselines: 'Baselines',
+  activeBaselineId: 'Compared baseline'
+};
+
+const formatValue = (value: unknown) => {
+  if (value === undefined || value === null || value === '') return '—';
+  if (Array.isArray(value)) return `${value.length} entr${value.length === 1 ? 'y' : 'ies'}`;
+  if (typeof value === 'object') return 'edited';
+  return String(value);
+};
+
+/**
+ * Fields another tab changed while this tab changed them too. This tab keeps its value
+ * until one side is picked.
+ */
+export default function TabConflictNotice({ conflicts, onResolve, onDismiss }: TabConflictNoticeProps) {
+  return (
+    <div className="bg-amber-50 border-b border-amber-200 px-6 py-2 z-30">
+      <div className="flex items-center justify-between text-[11px] text-amber-800">
+        <span className="flex items-center font-bold">
+          <Copy className="w-4 h-4 mr-2 text-amber-500 shrink-0" />
+          {conflicts.length} field{conflicts.length === 1 ? ' was' : 's were'} also changed in another tab. This tab kept its own value{conflicts.length === 1 ? '' : 's'}:
+        </span>
+        <button onClick={onDismiss} className="text-amber-400 hover:text-amber-600" title="Keep my values and hide"><X className="w-4 h-4" /></button>
+      </div>
+      <div className="mt-1 space-y-1 max-h-32 overflow-y-auto">
+        {conflicts.map(conflict => (
+          <div key={`${conflict.projectId}-${conflict.itemId}-${conflict.key}`} className="flex items-center justify-between text-[11px] text-amber-700 pl-6">
+            <span>
+              <span className="font-bold">{conflict.label}</span> · {FIELD_LABELS[conflict.key] || conflict.key}: mine <span className="font-mono">{formatValue(conflict.mine)}</span>, other tab <span className="font-mono">{formatValue(conflict.theirs)}</span>
+            </span>
+            <span className="flex items-center space-x-3 shrink-0 ml-4">
+              <button onClick={() => onResolve(conflict, 'mine')} className="text-[10px] font-black uppercase text-amber-700 hover:underline">Keep mine</button>
+              <button onClick={() => onResolve(conflict, 'theirs')} className="text-[10px] font-black uppercase text-amber-700 hover:underline">Take theirs</button>
+            </span>
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,99 @@
+import React, { useState } from 'react';
+import { FolderInput, AlertTriangle, X } from 'lucide-react';
+import { Project } from '../types';
+import { ClashResolution, WorkspaceReadResult } from '../storage';
+
+interface WorkspaceImportModalProps {
+  fileName: string;
+  file: WorkspaceReadResult;
+  projects: Project[];
+  onImport: (resolutions: Record<string, ClashResolution>, includeBackups: boolean) => void;
+  onClose: () => void;
+}
+
+const RESOLUTIONS: { value: ClashResolution; label: string; hint: string }[] = [
+  { value: 'duplicate', label: 'Keep both', hint: 'Imported as a separate project' },
+  { value: 'merge', label: 'Merge', hint: 'Adds the rows, resources and baselines only the file has' },
+  { value: 'replace', label: 'Replace', hint: 'The file wins; the current version is kept as a snapshot' }
+];
+
+/**
+ * Previews a workspace file and asks what to do with each project that is already here.
+ */
+export default function WorkspaceImportModal({ fileName, file, projects, onImport, onClose }: WorkspaceImportModalProps) {
+  const [resolutions, setResolutions] = useState<Record<string, ClashResolution>>({});
+  const [includeBackups, setIncludeBackups] = useState(true);
+  const hasBackups = file.entries.some(e => e.backups && e.backups.length > 0);
+
+  return (
+    <div role="dialog" aria-modal="true" className="fixed inset-0 z-[150] flex items-center justify-center p-4 bg-black/60 backdrop-blur-md animate-in fade-in duration-200">
+      <div className="bg-white rounded-3xl shadow-2xl w-full max-w-2xl overflow-hidden animate-in zoom-in-95 duration-200">
+        <div className="px-8 py-6 bg-gray-50 border-b flex items-center justify-between">
+          <div className="flex items-center space-x-3 text-indigo-600">
+            <FolderInput className="w-6 h-6" />
+            <div>
+              <h3 className="text-xl font-black uppercase tracking-tight">Import Workspace</h3>
+              <p className="text-[10px] text-gray-400 font-bold uppercase tracking-widest">{fileName}</p>
+            </div>
+          </div>
+          <button onClick={onClose} className="text-gray-400 hover:text-gray-600"><X /></button>
+        </div>
+
+        <div className="p-8 space-y-3 max-h-[60vh] overflow-y-auto">
+          {file.entries.length === 0 && (
+            <div className="text-center py-6 text-gray-400 font-bold uppercase tracking-widest text-xs">No usable projects in this file</div>
+          )}
+          {file.entries.map(({ project, backups }) => {
+            const existing = projects.find(p => p.id === project.id);
+            const choice = resolutions[project.id] || 'duplicate';
+            return (
+              <div key={project.id} className={`p-4 rounded-xl border ${existing ? 'bg-amber-50 border-amber-100' : 'bg-gray-50 border-gray-100'}`}>
+                <div className="flex items-center justify-between">
+                  <div>
+                    <p className="text-sm font-bold text-gray-800">{project.name}</p>
+                    <p className="text-[10px] text-gray-400 font-bold uppercase tracking-widest">
+                      {project.items.length} Work Items{backups ? ` • ${backups.length} Snapshots` : ''}{existing ? ` • already here as '${existing.name}'` : ' • new'}
+                    </p>
+                  </div>
+                  {existing && (
+                    <select
+                      value={choice}
+                      onChange={e => setResolutions(prev => ({ ...prev, [project.id]: e.target.value as ClashResolution }))}
+                      className="px-3 py-1.5 bg-white border border-amber-200 rounded-lg text-[10px] font-black uppercase text-gray-700 focus:ring-2 focus:ring-indigo-500"
+                    >
+                      {RESOLUTIONS.map(r => <option key={r.value} value={r.value}>{r.label}</option>)}
+                    </select>
+                  )}
+                </div>
+                {existing && <p className="mt-1 text-[10px] text-amber-700">{RESOLUTIONS.find(r => r.value === choice)!.hint}</p>}
+              </div>
+            );
+          })}
+          {file.rejected.length > 0 && (
+            <div className="flex items-start p-3 bg-red-50 border border-red-100 rounded-lg text-[11px] text-red-700">
+              <AlertTriangle className="w-3.5 h-3.5 mr-2 mt-0.5 shrink-0" />
+              {file.rejected.length} damaged project{file.rejected.length === 1 ? '' : 's'} will be kept aside in the quarantine instead.
+            </div>
+          )}
+        </div>
+
+        <div className="px-8 py-6 bg-gray-50 flex items-center justify-between">
+          <label className={`flex items-center text-[10px] font-black uppercase ${hasBackups ? 'text-gray-500' : 'text-gray-300'}`}>
+            <input type="checkbox" disabled={!hasBackups} checked={hasBackups && includeBackups} onChange={e => setIncludeBackups(e.target.checked)} className="mr-2 accent-indigo-600" />
+            Import version snapshots
+          </label>
+          <div className="flex items-center space-x-3">
+            <button onClick={onClose} className="px-6 py-2 text-xs font-black uppercase text-gray-500 hover:text-gray-700">Cancel</button>
+            <button
+              disabled={file.entries.length === 0 && file.rejected.length === 0}
+              onClick={() => onImport(resolutions, hasBackups && includeBackups)}
+              className="px-8 py-2 bg-indigo-600 text-white text-xs font-black uppercase rounded-lg shadow-lg hover:bg-indigo-700 disabled:opacity-40 disabled:cursor-not-allowed"
+            >
+              Import
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,121 @@
+
+/**
+ * Reschedules project files from the command line.
+ *
+ *   npm run schedule -- plan.json                    Print the rescheduled project to stdout
+ *   npm run schedule -- plan.json -o out.json        Write it to a file
+ *   npm run schedule -- plan.json --check            Only validate
+ *   npm run schedule -- plan.json --report rep.json  Also write the validation report as JSON
+ *
+ * The input is a single project or an array of projects (a sync server file holds one
+ * project); `--project <id or name>` picks one, and a name shared by several projects is
+ * refused in favour of the id. Exit codes: 0 ok, 1 validation errors
+ * (or warnings with --strict), 2 bad usage or unreadable input.
+ */
+import { readFileSync, writeFileSync } from 'node:fs';
+import { Project } from '../types';
+import { rescheduleProject, validateProject, describeCycle, ValidationReport } from './index';
+
+interface CliOptions {
+  input: string;
+  out?: string;
+  report?: string;
+  project?: string;
+  check: boolean;
+  strict: boolean;
+}
+
+const USAGE = 'Usage: npm run schedule -- <project.json> [-o <out.json>] [--report <report.json>] [--project <id|name>] [--check] [--strict]';
+
+class CliError extends Error {}
+
+const parseArgs = (argv: string[]): CliOptions => {
+  const options: Partial<CliOptions> = { check: false, strict: false };
+  for (let i = 0; i < argv.length; i++) {
+    const arg = argv[i];
+    const value = () => {
+      const next = argv[++i];
+      if (!next) throw new CliError(`${arg} needs a value`);
+      return next;
+    };
+    if (arg === '-o' || arg === '--out') options.out = value();
+    else if (arg === '--report') options.report = value();
+    else if (arg === '--project') options.project = value();
+    else if (arg === '--check') options.check = true;
+    else if (arg === '--strict') options.strict = true;
+    else if (arg === '-h' || arg === '--help') { console.log(USAGE); process.exit(0); }
+    else if (arg.startsWith('-')) throw new CliError(`Unknown option ${arg}`);
+    else if (!options.input) options.input = arg;
+    else throw new CliError(`Unexpected argument ${arg}`);
+  }
+  if (!options.input) throw new CliError('No input file given');
+  return options as CliOptions;
+};
+
+const readProjects = (file: string): { projects: Project[]; isList: boolean } => {
+  let data: unknown;
+  try {
+    data = JSON.parse(readFileSync(file, 'utf8'));
+  } catch (err) {
+    throw new CliError(`Cannot read ${file}: ${err instanceof Error ? err.message : String(err)}`);
+  }
+  const isProject = (value: unknown): value is Project => !!value && typeof value === 'object' && Array.isArray((value as Project).items);
+  if (Array.isArray(data) && data.every(isProject)) return { projects: data, isList: true };
+  if (isProject(data)) return { projects: [data], isList: false };
+  throw new CliError(`${file} is neither a project nor a list of projects`);
+};
+
+// An id wins over a name; a name several projects share has to be given as an id instead
+const pickProject = (projects: Project[], wanted: string): Project[] => {
+  const byId = projects.filter(p => p.id === wanted);
+  const matches = byId.length > 0 ? byId : projects.filter(p => p.name === wanted);
+  if (matches.length === 0) throw new CliError(`No project matches "${wanted}"`);
+  if (matches.length > 1) throw new CliError(`${matches.length} projects are named "${wanted}"; pick one by id: ${matches.map(p => p.id).join(', ')}`);
+  return matches;
+};
+
+const printReport = (report: ValidationReport) => {
+  const errors = report.issues.filter(i => i.severity === 'error').length;
+  const warnings = report.issues.length - errors;
+  console.error(`${report.projectName}: ${errors} error(s), ${warnings} warning(s)`);
+  report.issues.forEach(issue => {
+    const where = issue.label ? ` ${issue.label}:` : '';
+    console.error(`  ${issue.severity === 'error' ? 'ERROR' : 'warn '} [${issue.code}]${where} ${issue.message}`);
+  });
+};
+
+const main = () => {
+  const options = parseArgs(process.argv.slice(2));
+  const { projects: all, isList } = readProjects(options.input);
+  const projects = options.project ? pickProject(all, options.project) : all;
+
+  const reports = projects.map(validateProject);
+  reports.forEach(printReport);
+  if (options.report) writeFileSync(options.report, JSON.stringify(isList ? reports : reports[0], null, 2));
+
+  const failed = reports.some(r => !r.valid || (options.strict && r.issues.length > 0));
+  if (options.check || failed) return failed ? 1 : 0;
+
+  const results = projects.map(project => {
+    const { project: rescheduled, cycle } = rescheduleProject(project);
+    if (cycle) throw new CliError(`${project.name}: circular dependency between tasks ${describeCycle(cycle, project.items)}`);
+    return rescheduled;
+  });
+  const output = JSON.stringify(isList && !options.project ? results : results[0], null, 2);
+  if (options.out) {
+    writeFileSync(options.out, output);
+    console.error(`Wrote ${options.out}`);
+  } else {
+    process.stdout.write(`${output}\n`);
+  }
+  return 0;
+};
+
+try {
+  process.exitCode = main();
+} catch (err) {
+  if (!(err instanceof CliError)) throw err;
+  console.error(err.message);
+  console.error(USAGE);
+  process.exitCode = 2;
+}
@@ -0,0 +1,152 @@
+
+import { startOfDay, isValid } from 'date-fns';
+import { Project, ProjectItem, WorkCalendar } from '../types';
+import { DEFAULT_CALENDAR } from '../utils/calendar';
+import { calculateEndDate, calculateWorkDays, STEP_COLORS } from '../utils/dateHelpers';
+import { rescheduleItems, recalculateAllDates, pruneDependencyLinks, migrateLegacyItems, topologicalOrder, isSchedulable } from '../utils/scheduling';
+import { withResourceCalendars } from '../utils/resources';
+import { withPlannedCost } from '../utils/costs';
+import { buildOutline, getScheduledDescendants } from '../utils/wbs';
+
+/**
+ * Headless scheduling engine: propagating edits through links, numbering the outline and
+ * rolling tasks up into steps. No React or browser APIs, so it runs in Node as well.
+ */
+
+export { validateProject } from './validate';
+export type { ValidationIssue, ValidationReport } from './validate';
+export { levelResources } from '../utils/leveling';
+export type { LevelingOptions, LevelingResult, LevelingMove } from '../utils/leveling';
+
+export interface ScheduleResult {
+  items: ProjectItem[];
+  cycle: string[] | null; // Ids caught in a dependency cycle; `items` is then the unchanged input
+}
+
+// Helper for difference in days that works across TZ
+export function getDaysDiff(dateLeft: Date, dateRight: Date): number {
+  if (!isValid(dateLeft) || !isValid(dateRight)) return 0;
+  return Math.round((startOfDay(dateLeft).getTime() - startOfDay(dateRight).getTime()) / (1000 * 60 * 60 * 24));
+}
+
+/**
+ * Sets every step's dates and progress from the tasks and milestones anywhere below it, so
+ * nested steps and the steps holding them roll up alike. Progress is weighted by work days.
+ * A step started when its first child did and finished once every child has. Planned and
+ * actual costs are summed.
+ */
+export const rollupSteps = (list: ProjectItem[], calendar: WorkCalendar = DEFAULT_CALENDAR): ProjectItem[] => {
+  return list.map((item, idx) => {
+    if (item.type === 'S') {
+      const childTasks = getScheduledDescendants(list, idx);
+      if (childTasks.length > 0) {
+        const startStr = childTasks.reduce((min, t) => (t.start < min ? t.start : min), childTasks[0].start);
+        const endStr = childTasks.reduce((max, t) => (t.end > max ? t.end : max), childTasks[0].end);
+        const weight = childTasks.reduce((sum, t) => sum + t.workDays, 0);
+        // Only milestones below: each counts the same
+        const progress = weight > 0
+          ? childTasks.reduce((sum, t) => sum + t.progress * t.workDays, 0) / weight
+          : childTasks.reduce((sum, t) => sum + t.progress, 0) / childTasks.length;
+        const step: ProjectItem = { ...item, start: startStr, end: endStr, workDays: calculateWorkDays(startStr, endStr, calendar), progress: Math.round(progress) };
+        const started = childTasks.map(t => t.actualStart || t.actualFinish).filter((d): d is string => !!d).sort();
+        const finished = childTasks.every(t => t.actualFinish) ? childTasks.map(t => t.actualFinish!).sort().pop() : undefined;
+        if (started.length > 0) step.actualStart = started[0];
+        else delete step.actualStart;
+        if (finished) step.actualFinish = finished;
+        else delete step.actualFinish;
+        step.plannedCost = childTasks.reduce((sum, t) => sum + (t.plannedCost || 0), 0);
+        const costed = childTasks.filter(t => t.actualCost !== undefined);
+        if (costed.length > 0) step.actualCost = costed.reduce((sum, t) => sum + t.actualCost!, 0);
+        else delete step.actualCost;
+        return step;
+      }
+    }
+    return item;
+  });
+};
+
+/**
+ * Numbers the outline from the visual list order (WBS codes, levels and top-level step
+ * numbers), gives every row its top-level step's color, prices the tasks from the rates on
+ * the calendar, then rolls up the steps.
+ */
+export const reIndexItems = (list: ProjectItem[], calendar: WorkCalendar = DEFAULT_CALENDAR): ProjectItem[] => {
+  const outline = buildOutline(list);
+  let currentStepColor = STEP_COLORS[0];
+
+  const itemsWithIds = list.map((item, idx) => {
+    const { level, code } = outline[idx];
+    const sId = parseInt(code, 10);
+    if (level === 0) currentStepColor = STEP_COLORS[(sId - 1) % STEP_COLORS.length] || STEP_COLORS[0];
+    return withPlannedCost({ ...item, sId, tId: code, level, color: currentStepColor }, calendar);
+  });
+
+  return rollupSteps(itemsWithIds, calendar);
+};
+
+/**
+ * Applies a user edit to one item and pushes the consequences through the plan:
+ * derived dates are recomputed on the project calendar, successors are rescheduled
+ * and the list is re-indexed. A cycle leaves the list untouched.
+ */
+export const applyItemEdit = (
+  list: ProjectItem[],
+  id: string,
+  updates: Partial<ProjectItem>,
+  calendar: WorkCalendar = DEFAULT_CALENDAR
+): ScheduleResult => {
+  const index = list.findIndex(i => i.id === id);
+  if (index === -1) return { items: list, cycle: null };
+
+  const newItems = [...list];
+  const item = { ...newItems[index], ...updates };
+
+  if ('progress' in updates && updates.progress !== undefined) {
+    item.progress = Math.min(100, Math.max(0, Number(updates.progress) || 0));
+  }
+  if (item.type === 'M') {
+    // Milestones have no duration: whichever date was edited moves both
+    if ('end' in updates && updates.end !== undefined && !('start' in updates)) item.start = updates.end;
+    item.workDays = 0;
+    item.start = calculateEndDate(item.start, 0, calendar, item.accountable);
+    item.end = item.start;
+  } else if (updates.type && list[index].type === 'M') {
+    item.workDays = 1;
+    item.end = calculateEndDate(item.start, 1, calendar, item.accountable);
+  } else if ('workDays' in updates && updates.workDays !== undefined) {
+    item.end = calculateEndDate(item.start, updates.workDays, calendar, item.accountable);
+  } else if ('end' in updates && updates.end !== undefined) {
+    item.workDays = calculateWorkDays(item.start, updates.end, calendar, item.accountable);
+  } else if (('start' in updates && updates.start !== undefined) || 'accountable' in updates) {
+    // A new owner may follow a different personal calendar
+    item.end = calculateEndDate(item.start, item.workDays, calendar, item.accountable);
+  }
+
+  newItems[index] = item;
+
+  // New links (or a new type, which changes how links apply) re-anchor the edited item itself,
+  // any other edit only pushes its successors
+  const relink = 'predecessors' in updates || 'type' in updates ? [id] : [];
+  const { items: scheduled, cycle } = rescheduleItems(pruneDependencyLinks(newItems), [id], { relink, calendar });
+  if (cycle) return { items: list, cycle };
+  return { items: reIndexItems(scheduled, calendar), cycle: null };
+};
+
+/**
+ * Recomputes every date in a project from scratch: task ends from work days, all links,
+ * numbering and step rollups. Used for imported or hand-edited files.
+ */
+export const rescheduleProject = (project: Project): { project: Project; cycle: string[] | null } => {
+  const calendar = withResourceCalendars(project.calendar || DEFAULT_CALENDAR, project.resources);
+  const items = pruneDependencyLinks(migrateLegacyItems(project.items));
+  const { cycle } = topologicalOrder(items);
+  if (cycle) return { project: { ...project, items }, cycle };
+  return { project: { ...project, items: reIndexItems(recalculateAllDates(items, calendar), calendar) }, cycle: null };
+};
+
+/**
+ * Lists the T IDs of the tasks in a cycle for error messages.
+ */
+export const describeCycle = (cycle: string[], list: ProjectItem[]): string => {
+  return cycle.map(id => list.find(i => i.id === id)?.tId).filter(Boolean).join(', ');
+};
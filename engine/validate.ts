@@ -0,0 +1,151 @@
+
+import { parseISO, isValid } from 'date-fns';
+import { Project, ProjectItem } from '../types';
+import { DEFAULT_CALENDAR, isWorkingDay } from '../utils/calendar';
+import { calculateEndDate } from '../utils/dateHelpers';
+import { isSchedulable, rescheduleItems, topologicalOrder } from '../utils/scheduling';
+import { withResourceCalendars } from '../utils/resources';
+import { getScheduledDescendants } from '../utils/wbs';
+
+export interface ValidationIssue {
+  severity: 'error' | 'warning';
+  code: string;          // Stable identifier for scripts, e.g. "end-before-start"
+  itemId?: string;
+  label?: string;        // WBS code and description of the item, for humans
+  message: string;
+}
+
+export interface ValidationReport {
+  projectId: string;
+  projectName: string;
+  valid: boolean;        // False when there is at least one error
+  issues: ValidationIssue[];
+}
+
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+const LINK_MODES = ['FS', 'SS', 'FF', 'SF'];
+
+const isDate = (value: unknown): value is string => typeof value === 'string' && DATE_PATTERN.test(value) && isValid(parseISO(value));
+
+const isRecord = (value: unknown): value is Record<string, unknown> => !!value && typeof value === 'object' && !Array.isArray(value);
+
+const rowLabel = (index: number): string => `Row ${index + 1}`;
+
+/**
+ * Checks a project for data the engine cannot schedule (errors) and for dates that are
+ * inconsistent with the calendar, the links or the step rollups (warnings).
+ */
+export const validateProject = (project: Project): ValidationReport => {
+  const issues: ValidationIssue[] = [];
+  const resources = Array.isArray(project.resources) ? project.resources.filter(isRecord) : [];
+  const calendar = withResourceCalendars(project.calendar || DEFAULT_CALENDAR, resources);
+  const rowIndex = new Map<ProjectItem, number>();
+  // WBS code and description, or the row number where the file has neither
+  const labelOf = (item: ProjectItem): string => {
+    const code = item.tId || rowLabel(rowIndex.get(item) ?? 0);
+    return item.description ? `${code} "${item.description}"` : code;
+  };
+  const add = (severity: ValidationIssue['severity'], code: string, message: string, item?: ProjectItem) => {
+    issues.push({ severity, code, message, itemId: item?.id, label: item ? labelOf(item) : undefined });
+  };
+
+  if (!Array.isArray(project.items)) add('error', 'missing-items', 'The project has no items array.');
+  if (project.resources !== undefined && !Array.isArray(project.resources)) add('error', 'invalid-resources', 'Resources must be a list.');
+
+  // Rows that are not objects, and link or assignment lists that are not lists, are reported
+  // here and left out of the checks below
+  const items: ProjectItem[] = [];
+  (Array.isArray(project.items) ? project.items as unknown[] : []).forEach((row, index) => {
+    if (!isRecord(row)) {
+      issues.push({ severity: 'error', code: 'invalid-row', message: 'The row is not an item.', label: rowLabel(index) });
+      return;
+    }
+    const raw = row as unknown as ProjectItem;
+    const item: ProjectItem = {
+      ...raw,
+      predecessors: Array.isArray(raw.predecessors) ? raw.predecessors.filter(isRecord) : [],
+      assignments: Array.isArray(raw.assignments) ? raw.assignments.filter(isRecord) : undefined
+    };
+    rowIndex.set(item, index);
+    items.push(item);
+    if (raw.predecessors !== undefined && !Array.isArray(raw.predecessors)) add('error', 'invalid-links', 'Predecessors must be a list of links.', item);
+    else if (item.predecessors.length < (raw.predecessors || []).length) add('error', 'invalid-links', 'Some links are not link objects.', item);
+    if (raw.assignments !== undefined && !Array.isArray(raw.assignments)) add('error', 'invalid-assignments', 'Assignments must be a list.', item);
+    else if ((item.assignments || []).length < (raw.assignments || []).length) add('error', 'invalid-assignments', 'Some assignments are not assignment objects.', item);
+  });
+
+  const resourceIds = new Set(resources.map(r => r.id));
+  const byId = new Map<string, ProjectItem>();
+  items.forEach(item => {
+    if (!item.id) add('error', 'missing-id', 'Item has no id.', item);
+    else if (byId.has(item.id)) add('error', 'duplicate-id', `Id ${item.id} is used by more than one item.`, item);
+    else byId.set(item.id, item);
+  });
+
+  let datesOk = true;
+  items.forEach(item => {
+    if (item.type !== 'S' && item.type !== 'T' && item.type !== 'M') add('error', 'invalid-type', `Type "${item.type}" must be S, T or M.`, item);
+    if (!isDate(item.start)) { add('error', 'invalid-start', `Start "${item.start}" is not a yyyy-MM-dd date.`, item); datesOk = false; }
+    if (!isDate(item.end)) { add('error', 'invalid-end', `End "${item.end}" is not a yyyy-MM-dd date.`, item); datesOk = false; }
+    if (isDate(item.start) && isDate(item.end) && item.end < item.start) { add('error', 'end-before-start', `End ${item.end} is before start ${item.start}.`, item); datesOk = false; }
+    if (item.level !== undefined && (!Number.isInteger(item.level) || item.level < 0)) add('error', 'invalid-level', `Outline level ${item.level} must be a whole number of at least 0.`, item);
+    if (typeof item.progress !== 'number' || item.progress < 0 || item.progress > 100) add('error', 'invalid-progress', `Progress ${item.progress} must be between 0 and 100.`, item);
+    if (item.type === 'T' && (!Number.isInteger(item.workDays) || item.workDays < 1)) { add('error', 'invalid-work-days', `Work days ${item.workDays} must be a whole number of at least 1.`, item); datesOk = false; }
+    if (item.type === 'M' && (item.workDays !== 0 || item.start !== item.end)) { add('error', 'milestone-duration', `A milestone has no duration; found ${item.workDays} work days from ${item.start} to ${item.end}.`, item); datesOk = false; }
+
+    (item.predecessors || []).forEach(link => {
+      const pred = byId.get(link.id);
+      if (!LINK_MODES.includes(link.mode)) add('error', 'invalid-link-mode', `Link mode "${link.mode}" must be FS, SS, FF or SF.`, item);
+      if (!Number.isInteger(link.lag)) add('error', 'invalid-link-lag', `Link lag ${link.lag} must be a whole number of days.`, item);
+      if (!pred) add('warning', 'dangling-link', `Links to missing item ${link.id}; the link is ignored.`, item);
+      else if (pred.id === item.id) add('error', 'self-link', 'The item depends on itself.', item);
+      else if (!isSchedulable(pred) || !isSchedulable(item)) add('warning', 'step-link', 'Links to or from steps are ignored.', item);
+    });
+
+    (item.assignments || []).forEach(assignment => {
+      if (!(typeof assignment.allocation === 'number' && assignment.allocation > 0)) add('error', 'invalid-allocation', `Allocation ${assignment.allocation} must be a percentage above 0.`, item);
+      if (!resourceIds.has(assignment.resourceId)) add('warning', 'unknown-resource', `Assigned to resource ${assignment.resourceId}, which is not in the registry.`, item);
+    });
+  });
+
+  if (items.length > 0 && items[0].type !== 'S') add('warning', 'task-before-step', 'The first row is a task; tasks are grouped under the step above them.', items[0]);
+
+  const { cycle } = topologicalOrder(items.filter(i => i.id));
+  if (cycle) {
+    const names = cycle.map(id => byId.get(id)).filter((i): i is ProjectItem => !!i).map(labelOf).join(', ');
+    add('error', 'dependency-cycle', `Circular dependency between ${names}.`);
+  }
+
+  // Consistency checks only make sense once every date parses
+  if (datesOk && !cycle) {
+    items.forEach(item => {
+      if (!isSchedulable(item)) return;
+      const expectedEnd = calculateEndDate(item.start, item.workDays, calendar, item.accountable);
+      if (expectedEnd !== item.end) add('warning', 'work-days-mismatch', `${item.workDays} working days from ${item.start} end on ${expectedEnd}, not ${item.end}.`, item);
+      if (!isWorkingDay(parseISO(item.start), calendar, item.accountable)) add('warning', 'non-working-start', `Starts on a non-working day (${item.start}).`, item);
+    });
+
+    const { items: linked } = rescheduleItems(items, [], { relink: items.map(i => i.id), calendar });
+    linked.forEach((after, idx) => {
+      const before = items[idx];
+      // Starting later than the links require is slack, not a violation
+      if (after.start > before.start) add('warning', 'link-violation', `Its links require a start on or after ${after.start}, not ${before.start}.`, before);
+    });
+
+    items.forEach((step, idx) => {
+      if (step.type !== 'S') return;
+      const tasks = getScheduledDescendants(items, idx);
+      if (tasks.length === 0) return;
+      const start = tasks.reduce((min, t) => (t.start < min ? t.start : min), tasks[0].start);
+      const end = tasks.reduce((max, t) => (t.end > max ? t.end : max), tasks[0].end);
+      if (start !== step.start || end !== step.end) add('warning', 'rollup-mismatch', `Step dates ${step.start} – ${step.end} differ from its tasks (${start} – ${end}).`, step);
+    });
+  }
+
+  return {
+    projectId: project.id,
+    projectName: project.name,
+    valid: !issues.some(i => i.severity === 'error'),
+    issues
+  };
+};
@@ -0,0 +1,179 @@
+/**
+ * Reference sync server: keeps each project as <dir>/<id>.json and serves the REST contract
+ * used by storage/sync.ts. Every response carries the project's ETag (a hash of the stored
+ * file) and writes must name the version they replace, so two editors never silently
+ * overwrite each other.
+ *
+ *   GET    /projects        200 [{ id, name, etag, updatedAt }]
+ *   GET    /projects/:id    200 project + ETag | 404
+ *   PUT    /projects/:id    If-Match: <etag> to update, If-None-Match: * to create
+ *                           200 / 201 + ETag | 412 + current project and ETag | 428 | 400
+ *   DELETE /projects/:id    If-Match: <etag>; 204 | 404 | 412 + current project and ETag | 428
+ *
+ *   npm run sync-server -- [--port 8787] [--dir ./sync-data]
+ */
+import { createServer, IncomingMessage, ServerResponse } from 'node:http';
+import { createHash } from 'node:crypto';
+import { mkdir, readdir, readFile, rename, stat, unlink, writeFile } from 'node:fs/promises';
+import { join, resolve } from 'node:path';
+
+const MAX_BODY_BYTES = 20 * 1024 * 1024;
+const ID_PATTERN = /^[A-Za-z0-9_-]{1,100}$/;
+
+class HttpError extends Error {
+  constructor(public status: number, message: string) {
+    super(message);
+  }
+}
+
+const argValue = (name: string, fallback: string): string => {
+  const index = process.argv.indexOf(name);
+  return index !== -1 && process.argv[index + 1] ? process.argv[index + 1] : fallback;
+};
+
+const port = parseInt(argValue('--port', process.env.PORT || '8787'), 10);
+const dataDir = resolve(argValue('--dir', './sync-data'));
+
+const etagOf = (content: string) => `"${createHash('sha1').update(content).digest('hex')}"`;
+const fileOf = (id: string) => join(dataDir, `${id}.json`);
+
+const readStored = async (id: string): Promise<{ content: string; etag: string } | null> => {
+  try {
+    const content = await readFile(fileOf(id), 'utf8');
+    return { content, etag: etagOf(content) };
+  } catch (err) {
+    if ((err as NodeJS.ErrnoException).code === 'ENOENT') return null;
+    throw err;
+  }
+};
+
+// Requests for one project run one after another so a check-then-write cannot interleave
+const queues = new Map<string, Promise<unknown>>();
+const serialized = <T>(id: string, work: () => Promise<T>): Promise<T> => {
+  const next = (queues.get(id) || Promise.resolve()).then(work, work);
+  queues.set(id, next.catch(() => undefined));
+  return next;
+};
+
+const readBody = (req: IncomingMessage): Promise<string> =>
+  new Promise((resolveBody, reject) => {
+    const chunks: Buffer[] = [];
+    let size = 0;
+    req.on('data', (chunk: Buffer) => {
+      size += chunk.length;
+      if (size > MAX_BODY_BYTES) reject(new HttpError(413, 'Project is too large'));
+      else chunks.push(chunk);
+    });
+    req.on('end', () => resolveBody(Buffer.concat(chunks).toString('utf8')));
+    req.on('error', reject);
+  });
+
+const send = (res: ServerResponse, status: number, body?: unknown, etag?: string) => {
+  const headers: Record<string, string> = {};
+  if (etag) headers.ETag = etag;
+  if (body !== undefined) headers['Content-Type'] = 'application/json';
+  res.writeHead(status, headers);
+  res.end(body === undefined ? undefined : typeof body === 'string' ? body : JSON.stringify(body));
+};
+
+// 412 answers include the current version so the client can show both sides of the conflict
+const sendConflict = (res: ServerResponse, current: { content: string; etag: string } | null) => {
+  if (current) send(res, 412, current.content, current.etag);
+  else send(res, 412, { error: 'The project no longer exists on the server' });
+};
+
+const listProjects = async () => {
+  const files = (await readdir(dataDir)).filter(f => f.endsWith('.json'));
+  const entries = await Promise.all(files.map(async file => {
+    const id = file.slice(0, -'.json'.length);
+    const stored = await readStored(id);
+    if (!stored) return null;
+    const { mtime } = await stat(fileOf(id));
+    let name = id;
+    try { name = JSON.parse(stored.content).name || id; } catch { /* listed under its id */ }
+    return { id, name, etag: stored.etag, updatedAt: mtime.toISOString() };
+  }));
+  return entries.filter(Boolean);
+};
+
+const putProject = async (req: IncomingMessage, res: ServerResponse, id: string) => {
+  const body = await readBody(req);
+  let project: { id?: unknown };
+  try {
+    project = JSON.parse(body);
+  } catch {
+    throw new HttpError(400, 'Body is not valid JSON');
+  }
+  if (!project || typeof project !== 'object' || project.id !== id) throw new HttpError(400, 'Body must be a project whose id matches the URL');
+
+  const ifMatch = req.headers['if-match'];
+  const ifNoneMatch = req.headers['if-none-match'];
+  if (!ifMatch && ifNoneMatch !== '*') throw new HttpError(428, 'Send If-Match with the ETag you edited, or If-None-Match: * to create');
+
+  await serialized(id, async () => {
+    const current = await readStored(id);
+    if (ifNoneMatch === '*' ? current !== null : current?.etag !== ifMatch) {
+      sendConflict(res, current);
+      return;
+    }
+    const content = JSON.stringify(project);
+    // Write to a temporary file first so a crash never leaves half a project behind
+    const temp = `${fileOf(id)}.${process.pid}.tmp`;
+    await writeFile(temp, content, 'utf8');
+    await rename(temp, fileOf(id));
+    send(res, current ? 200 : 201, content, etagOf(content));
+  });
+};
+
+const deleteProject = async (req: IncomingMessage, res: ServerResponse, id: string) => {
+  const ifMatch = req.headers['if-match'];
+  if (!ifMatch) throw new HttpError(428, 'Send If-Match with the ETag you are deleting');
+  await serialized(id, async () => {
+    const current = await readStored(id);
+    if (!current) return send(res, 404, { error: 'Not found' });
+    if (current.etag !== ifMatch) return sendConflict(res, current);
+    await unlink(fileOf(id));
+    send(res, 204);
+  });
+};
+
+const handle = async (req: IncomingMessage, res: ServerResponse) => {
+  res.setHeader('Access-Control-Allow-Origin', '*');
+  res.setHeader('Access-Control-Allow-Methods', 'GET, PUT, DELETE, OPTIONS');
+  res.setHeader('Access-Control-Allow-Headers', 'Content-Type, If-Match, If-None-Match');
+  res.setHeader('Access-Control-Expose-Headers', 'ETag');
+  if (req.method === 'OPTIONS') return send(res, 204);
+
+  const path = new URL(req.url || '/', 'http://localhost').pathname.replace(/\/+$/, '');
+  if (path === '/projects') {
+    if (req.method !== 'GET') throw new HttpError(405, 'Method not allowed');
+    return send(res, 200, await listProjects());
+  }
+
+  const match = path.match(/^\/projects\/([^/]+)$/);
+  if (!match) throw new HttpError(404, 'Not found');
+  const id = decodeURIComponent(match[1]);
+  if (!ID_PATTERN.test(id)) throw new HttpError(400, 'Invalid project id');
+
+  switch (req.method) {
+    case 'GET': {
+      const stored = await readStored(id);
+      return stored ? send(res, 200, stored.content, stored.etag) : send(res, 404, { error: 'Not found' });
+    }
+    case 'PUT': return putProject(req, res, id);
+    case 'DELETE': return deleteProject(req, res, id);
+    default: throw new HttpError(405, 'Method not allowed');
+  }
+};
+
+await mkdir(dataDir, { recursive: true });
+
+createServer((req, res) => {
+  handle(req, res).catch(err => {
+    const status = err instanceof HttpError ? err.status : 500;
+    if (status === 500) console.error(err);
+    if (!res.headersSent) send(res, status, { error: err instanceof Error ? err.message : String(err) });
+  });
+}).listen(port, () => {
+  console.log(`Sync server on http://localhost:${port} storing projects in ${dataDir}`);
+});
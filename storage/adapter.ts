@@ -0,0 +1,47 @@
+
+import { Backup, Project } from '../types';
+
+/**
+ * Where projects are persisted. Projects are written one at a time and version snapshots
+ * (backups) are kept apart from them, so a save never rewrites the whole workspace.
+ * Every method rejects with a StorageQuotaError when the browser refuses a write for lack of space.
+ */
+export interface StorageAdapter {
+  name: string; // Shown in the status bar, e.g. "IndexedDB"
+  loadProjects(): Promise<Project[]>;
+  saveProject(project: Project): Promise<void>;
+  deleteProject(id: string): Promise<void>; // Removes the project's backups as well
+  loadBackups(projectId: string): Promise<Backup[]>; // Newest first
+  saveBackups(projectId: string, backups: Backup[]): Promise<void>;
+  loadActiveProjectId(): Promise<string | null>;
+  saveActiveProjectId(id: string | null): Promise<void>;
+  loadSetting<T>(key: string): Promise<T | undefined>; // Small app state such as the sync queue
+  saveSetting(key: string, value: unknown): Promise<void>;
+}
+
+export const MAX_BACKUPS = 10;
+
+/**
+ * The browser's storage quota for this site is used up; the write did not happen.
+ */
+export class StorageQuotaError extends Error {}
+
+// Chrome and Safari use QuotaExceededError; older Firefox reports NS_ERROR_DOM_QUOTA_REACHED (code 1014)
+const isQuotaExceeded = (err: unknown): boolean =>
+  err instanceof DOMException && (err.name === 'QuotaExceededError' || err.name === 'NS_ERROR_DOM_QUOTA_REACHED' || err.code === 22 || err.code === 1014);
+
+/**
+ * Normalizes anything a storage API threw or rejected with.
+ */
+export const toStorageError = (err: unknown): Error => {
+  if (isQuotaExceeded(err)) return new StorageQuotaError('Browser storage is full');
+  if (err instanceof Error) return err;
+  return new Error(err ? String(err) : 'Unknown storage error');
+};
+
+export const describeStorageError = (err: unknown): string => {
+  if (err instanceof StorageQuotaError) {
+    return 'Browser storage is full, so your latest changes are NOT saved. Delete old projects or snapshots (or export a backup), then retry.';
+  }
+  return `Saving failed: ${err instanceof Error ? err.message : String(err)}. Your latest changes are NOT saved.`;
+};
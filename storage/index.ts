@@ -0,0 +1,93 @@
+
+import { StorageAdapter, toStorageError } from './adapter';
+import { openIndexedDbStorage } from './indexedDb';
+import { clearLocalStorageData, createLocalStorageAdapter, hasLocalStorageData } from './localStorage';
+import { QuarantinedRecord, loadQuarantine, mergeQuarantine, saveQuarantine, toQuarantined } from './quarantine';
+import { readBackup, readProject } from './schema';
+
+export { MAX_BACKUPS, StorageQuotaError, describeStorageError } from './adapter';
+export type { StorageAdapter } from './adapter';
+export { createSyncClient, resetSyncState, SYNC_DISABLED, SYNC_URL_SETTING } from './sync';
+export type { SyncClient, SyncConflict, SyncState, SyncStatus } from './sync';
+export { openTabChannel } from './tabChannel';
+export { readProject, readBackup } from './schema';
+export type { SchemaResult } from './schema';
+export { migrateProject, SCHEMA_VERSION } from './migrations';
+export { loadQuarantine, saveQuarantine, toQuarantined, mergeQuarantine } from './quarantine';
+export type { QuarantinedRecord } from './quarantine';
+export type { TabChannel, TabMessage } from './tabChannel';
+export { createWorkspaceFile, readWorkspaceFile, combineBackups, duplicateProject, mergeImportedProject, WORKSPACE_FILE_VERSION } from './workspace';
+export type { ClashResolution, WorkspaceEntry, WorkspaceFile, WorkspaceReadResult } from './workspace';
+
+/**
+ * Copies a workspace saved by earlier versions (localStorage) into the new backend, one record
+ * at a time. A record that cannot be read or written goes to the quarantine instead of stopping
+ * the copy; the old keys are only removed once everything is either copied or quarantined, and
+ * projects the new backend already has are not copied again, so a failed run is retried safely.
+ * Resolves with the number of records that went to the quarantine.
+ */
+const migrateLocalStorage = async (target: StorageAdapter): Promise<number> => {
+  if (!hasLocalStorageData()) return 0;
+  const source = createLocalStorageAdapter();
+  const copied = new Set((await target.loadProjects()).map(p => p.id));
+  const failed: QuarantinedRecord[] = [];
+  const notCopied = (kind: QuarantinedRecord['source'], raw: unknown, err: unknown, recovered: boolean) =>
+    failed.push(toQuarantined(kind, raw, [`Could not be copied to ${target.name}: ${toStorageError(err).message}`], recovered));
+
+  // Values that are not valid JSON are quarantined by the source as they are read
+  const projects = await source.loadProjects();
+  for (const project of projects) {
+    if (copied.has(project?.id)) continue;
+    try {
+      await target.saveProject(project);
+    } catch (err) {
+      notCopied('storage', project, err, readProject(project).value !== null);
+      continue;
+    }
+    const backups = await source.loadBackups(project.id);
+    if (backups.length === 0) continue;
+    try {
+      await target.saveBackups(project.id, backups);
+    } catch (err) {
+      backups.forEach(backup => notCopied('backup', backup, err, readBackup(backup).value !== null));
+    }
+  }
+  try {
+    await target.saveActiveProjectId(await source.loadActiveProjectId());
+  } catch {
+    // Only the last opened project is lost; the dashboard opens instead
+  }
+
+  const quarantined = mergeQuarantine(await loadQuarantine(source), failed);
+  if (quarantined.length > 0) await saveQuarantine(target, mergeQuarantine(await loadQuarantine(target), quarantined));
+  clearLocalStorageData(projects.filter(p => typeof p?.id === 'string').map(p => p.id));
+  return quarantined.length;
+};
+
+export interface OpenedStorage {
+  storage: StorageAdapter;
+  problem: string | null; // Something the user should know about, e.g. records that did not migrate
+}
+
+/**
+ * IndexedDB when the browser offers it, otherwise the localStorage fallback. A migration
+ * problem is reported but never swaps the backend: the old data stays where it is for the
+ * next attempt.
+ */
+export const openStorage = async (): Promise<OpenedStorage> => {
+  let storage: StorageAdapter;
+  try {
+    storage = await openIndexedDbStorage();
+  } catch {
+    return { storage: createLocalStorageAdapter(), problem: null };
+  }
+  try {
+    const quarantined = await migrateLocalStorage(storage);
+    const problem = quarantined === 0
+      ? null
+      : `${quarantined} record${quarantined === 1 ? '' : 's'} from the old browser storage could not be copied to ${storage.name} and ${quarantined === 1 ? 'is' : 'are'} kept in the quarantine.`;
+    return { storage, problem };
+  } catch (err) {
+    return { storage, problem: `Projects saved by an earlier version could not all be copied to ${storage.name} (${toStorageError(err).message}). They stay in the old browser storage and are copied again next time.` };
+  }
+};
@@ -0,0 +1,89 @@
+
+import { Backup, Project } from '../types';
+import { StorageAdapter, toStorageError } from './adapter';
+
+const DB_NAME = 'pro_gantt';
+const DB_VERSION = 1;
+
+// One record per project (keyed by its id), the snapshot list per project id, and small settings
+const PROJECTS = 'projects';
+const BACKUPS = 'backups';
+const SETTINGS = 'settings';
+const ACTIVE_ID_KEY = 'activeProjectId';
+
+const read = <T>(db: IDBDatabase, store: string, run: (s: IDBObjectStore) => IDBRequest): Promise<T> =>
+  new Promise((resolve, reject) => {
+    try {
+      const request = run(db.transaction(store, 'readonly').objectStore(store));
+      request.onsuccess = () => resolve(request.result as T);
+      request.onerror = () => reject(toStorageError(request.error));
+    } catch (err) {
+      reject(toStorageError(err));
+    }
+  });
+
+// Settles once the transaction commits: a full disk shows up as an abort with QuotaExceededError
+const write = (db: IDBDatabase, stores: string[], run: (tx: IDBTransaction) => void): Promise<void> =>
+  new Promise((resolve, reject) => {
+    try {
+      const tx = db.transaction(stores, 'readwrite');
+      tx.oncomplete = () => resolve();
+      tx.onabort = () => reject(toStorageError(tx.error));
+      tx.onerror = () => reject(toStorageError(tx.error));
+      run(tx);
+    } catch (err) {
+      reject(toStorageError(err));
+    }
+  });
+
+/**
+ * Opens (and on first use creates) the IndexedDB database. Rejects where IndexedDB is
+ * missing or blocked, e.g. in some private browsing modes.
+ */
+export const openIndexedDbStorage = (): Promise<StorageAdapter> =>
+  new Promise((resolve, reject) => {
+    if (typeof indexedDB === 'undefined') {
+      reject(new Error('IndexedDB is not available'));
+      return;
+    }
+    const open = indexedDB.open(DB_NAME, DB_VERSION);
+    open.onupgradeneeded = () => {
+      const db = open.result;
+      if (!db.objectStoreNames.contains(PROJECTS)) db.createObjectStore(PROJECTS, { keyPath: 'id' });
+      if (!db.objectStoreNames.contains(BACKUPS)) db.createObjectStore(BACKUPS);
+      if (!db.objectStoreNames.contains(SETTINGS)) db.createObjectStore(SETTINGS);
+    };
+    open.onerror = () => reject(toStorageError(open.error));
+    open.onsuccess = () => resolve(createAdapter(open.result));
+  });
+
+const createAdapter = (db: IDBDatabase): StorageAdapter => ({
+  name: 'IndexedDB',
+
+  loadProjects: async () => {
+    const projects = await read<Project[]>(db, PROJECTS, s => s.getAll());
+    return projects.sort((a, b) => a.createdAt - b.createdAt);
+  },
+
+  saveProject: project => write(db, [PROJECTS], tx => { tx.objectStore(PROJECTS).put(project); }),
+
+  deleteProject: id => write(db, [PROJECTS, BACKUPS], tx => {
+    tx.objectStore(PROJECTS).delete(id);
+    tx.objectStore(BACKUPS).delete(id);
+  }),
+
+  loadBackups: async projectId => (await read<Backup[] | undefined>(db, BACKUPS, s => s.get(projectId))) || [],
+
+  saveBackups: (projectId, backups) => write(db, [BACKUPS], tx => { tx.objectStore(BACKUPS).put(backups, projectId); }),
+
+  loadActiveProjectId: async () => (await read<string | undefined>(db, SETTINGS, s => s.get(ACTIVE_ID_KEY))) ?? null,
+
+  saveActiveProjectId: id => write(db, [SETTINGS], tx => {
+    if (id) tx.objectStore(SETTINGS).put(id, ACTIVE_ID_KEY);
+    else tx.objectStore(SETTINGS).delete(ACTIVE_ID_KEY);
+  }),
+
+  loadSetting: <T>(key: string) => read<T | undefined>(db, SETTINGS, s => s.get(key)),
+
+  saveSetting: (key, value) => write(db, [SETTINGS], tx => { tx.objectStore(SETTINGS).put(value, key); })
+});
@@ -0,0 +1,114 @@
+
+import { Backup, Project } from '../types';
+import { StorageAdapter, toStorageError } from './adapter';
+import { QUARANTINE_KEY, QuarantinedRecord, mergeQuarantine, toQuarantined } from './quarantine';
+
+// The original layout: every project under one key, snapshots under backups_<project id>
+const STORAGE_KEY_PROJECTS = 'pro_gantt_projects_v1';
+const STORAGE_KEY_ACTIVE_ID = 'pro_gantt_active_id_v1';
+const backupKey = (projectId: string) => `backups_${projectId}`;
+const settingKey = (key: string) => `pro_gantt_setting_${key}`;
+
+const setItem = (key: string, value: string) => {
+  try {
+    localStorage.setItem(key, value);
+  } catch (err) {
+    throw toStorageError(err);
+  }
+};
+
+const parse = (raw: string): unknown => {
+  try {
+    return JSON.parse(raw);
+  } catch (err) {
+    if (err instanceof SyntaxError) return undefined;
+    throw err;
+  }
+};
+
+/**
+ * Moves a value that can no longer be read into the quarantine and removes its key, so one
+ * damaged entry cannot stop the app from opening. While the quarantine cannot be written
+ * (storage full) the value stays where it is.
+ */
+const quarantineKey = (key: string, source: QuarantinedRecord['source'], name: string, raw: string, issue: string) => {
+  const record: QuarantinedRecord = { ...toQuarantined(source, raw, [issue], false), key: `${source}:${key}`, name };
+  const stored = parse(localStorage.getItem(settingKey(QUARANTINE_KEY)) || '[]');
+  try {
+    setItem(settingKey(QUARANTINE_KEY), JSON.stringify(mergeQuarantine(Array.isArray(stored) ? stored : [], [record])));
+  } catch {
+    return;
+  }
+  localStorage.removeItem(key);
+};
+
+// A list stored under `key`; anything that is not a JSON array is quarantined and reads as empty
+const readList = <T>(key: string, source: QuarantinedRecord['source'], name: string): T[] => {
+  const raw = localStorage.getItem(key);
+  if (raw === null) return [];
+  const value = parse(raw);
+  if (Array.isArray(value)) return value as T[];
+  quarantineKey(key, source, name, raw, value === undefined ? `'${key}' is not valid JSON` : `'${key}' does not hold a list`);
+  return [];
+};
+
+const readProjects = (): Project[] => readList<Project>(STORAGE_KEY_PROJECTS, 'storage', 'Saved projects');
+
+// Records quarantined while reading count too: they still have to reach the new backend
+export const hasLocalStorageData = (): boolean =>
+  localStorage.getItem(STORAGE_KEY_PROJECTS) !== null || localStorage.getItem(settingKey(QUARANTINE_KEY)) !== null;
+
+/**
+ * Removes the original keys once their data lives elsewhere.
+ */
+export const clearLocalStorageData = (projectIds: string[]) => {
+  projectIds.forEach(id => localStorage.removeItem(backupKey(id)));
+  localStorage.removeItem(STORAGE_KEY_PROJECTS);
+  localStorage.removeItem(STORAGE_KEY_ACTIVE_ID);
+  localStorage.removeItem(settingKey(QUARANTINE_KEY));
+};
+
+/**
+ * Fallback for browsers without IndexedDB. It keeps the original single-key layout, so a
+ * project save rewrites the project list and everything shares the ~5MB localStorage quota.
+ */
+export const createLocalStorageAdapter = (): StorageAdapter => ({
+  name: 'LocalStorage',
+
+  loadProjects: async () => readProjects(),
+
+  saveProject: async project => {
+    const projects = readProjects();
+    const index = projects.findIndex(p => p.id === project.id);
+    if (index === -1) projects.push(project);
+    else projects[index] = project;
+    setItem(STORAGE_KEY_PROJECTS, JSON.stringify(projects));
+  },
+
+  deleteProject: async id => {
+    setItem(STORAGE_KEY_PROJECTS, JSON.stringify(readProjects().filter(p => p.id !== id)));
+    localStorage.removeItem(backupKey(id));
+  },
+
+  loadBackups: async projectId => readList<Backup>(backupKey(projectId), 'backup', `Snapshots of project ${projectId}`),
+
+  saveBackups: async (projectId, backups) => setItem(backupKey(projectId), JSON.stringify(backups)),
+
+  loadActiveProjectId: async () => localStorage.getItem(STORAGE_KEY_ACTIVE_ID),
+
+  saveActiveProjectId: async id => {
+    if (id) setItem(STORAGE_KEY_ACTIVE_ID, id);
+    else localStorage.removeItem(STORAGE_KEY_ACTIVE_ID);
+  },
+
+  loadSetting: async <T>(key: string) => {
+    const raw = localStorage.getItem(settingKey(key));
+    if (raw === null) return undefined;
+    const value = parse(raw);
+    // A damaged quarantine cannot hold itself; it reads as empty and the next save replaces it
+    if (value === undefined && key !== QUARANTINE_KEY) quarantineKey(settingKey(key), 'storage', `Setting '${key}'`, raw, `'${settingKey(key)}' is not valid JSON`);
+    return value as T | undefined;
+  },
+
+  saveSetting: async (key, value) => setItem(settingKey(key), JSON.stringify(value))
+});
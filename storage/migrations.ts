@@ -0,0 +1,48 @@
+
+import { Project, ProjectItem } from '../types';
+import { migrateLegacyItems } from '../utils/scheduling';
+import { migrateProjectResources } from '../utils/resources';
+
+interface Migration {
+  version: number;     // Schema version the project has after this step
+  description: string;
+  migrate: (project: Project) => Project;
+}
+
+/**
+ * Every change to the saved shape of a project, oldest first. A project saved at version N
+ * runs the steps above N in order. Data saved before versions were recorded counts as
+ * version 0, so each step also leaves data that is already in its shape alone.
+ */
+const MIGRATIONS: Migration[] = [
+  {
+    version: 1,
+    description: 'Links moved from a per-row mode to predecessor lists',
+    migrate: project => ({ ...project, items: migrateLegacyItems(project.items) })
+  },
+  {
+    version: 2,
+    description: 'Resource registry built from the accountable names',
+    migrate: migrateProjectResources
+  },
+  {
+    version: 3,
+    description: 'Outline levels stored on every row',
+    migrate: project => ({
+      ...project,
+      items: project.items.map((item: ProjectItem) => item.level === undefined ? { ...item, level: item.type === 'S' ? 0 : 1 } : item)
+    })
+  }
+];
+
+export const SCHEMA_VERSION = MIGRATIONS[MIGRATIONS.length - 1].version;
+
+/**
+ * Brings a project (whose items are at least an array of objects) up to SCHEMA_VERSION.
+ */
+export const migrateProject = (project: Project): Project => {
+  const from = project.schemaVersion ?? 0;
+  if (from >= SCHEMA_VERSION) return project;
+  const migrated = MIGRATIONS.filter(m => m.version > from).reduce((current, m) => m.migrate(current), project);
+  return { ...migrated, schemaVersion: SCHEMA_VERSION };
+};
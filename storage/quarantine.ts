@@ -0,0 +1,53 @@
+
+import { StorageAdapter } from './adapter';
+
+/**
+ * Data that failed the schema checks when it was loaded. It is kept as it was found, outside
+ * the workspace, until someone recovers the repaired version, downloads it or discards it.
+ */
+export interface QuarantinedRecord {
+  key: string;       // source and project id; a record found again replaces the earlier entry
+  source: 'storage' | 'backup' | 'import';
+  projectId: string | null;
+  name: string;
+  issues: string[];
+  raw: unknown;
+  recoverable: boolean;
+  quarantinedAt: number;
+}
+
+export const QUARANTINE_KEY = 'quarantine';
+
+export const loadQuarantine = async (storage: StorageAdapter): Promise<QuarantinedRecord[]> =>
+  (await storage.loadSetting<QuarantinedRecord[]>(QUARANTINE_KEY)) || [];
+
+export const saveQuarantine = (storage: StorageAdapter, records: QuarantinedRecord[]) => storage.saveSetting(QUARANTINE_KEY, records);
+
+/**
+ * Describes a record that failed the checks; `recovered` is what the schema could repair.
+ */
+export const toQuarantined = (source: QuarantinedRecord['source'], raw: unknown, issues: string[], recovered: boolean): QuarantinedRecord => {
+  const record = raw && typeof raw === 'object' ? raw as Record<string, unknown> : {};
+  const project = source === 'backup' && record.project && typeof record.project === 'object' ? record.project as Record<string, unknown> : record;
+  const projectId = typeof project.id === 'string' ? project.id : null;
+  // A project has several snapshots, told apart by their time
+  const suffix = source === 'backup' ? `:${String(record.timestamp)}` : '';
+  return {
+    key: `${source}:${projectId ?? 'unknown'}${suffix}`,
+    source,
+    projectId,
+    name: typeof project.name === 'string' && project.name ? project.name : 'Unnamed project',
+    issues,
+    raw,
+    recoverable: recovered,
+    quarantinedAt: Date.now()
+  };
+};
+
+/**
+ * Adds records, replacing earlier entries with the same key.
+ */
+export const mergeQuarantine = (existing: QuarantinedRecord[], added: QuarantinedRecord[]): QuarantinedRecord[] => {
+  const keys = new Set(added.map(r => r.key));
+  return [...existing.filter(r => !keys.has(r.key)), ...added];
+};
@@ -0,0 +1,279 @@
+
+import { parseISO, isValid } from 'date-fns';
+import { Assignment, Backup, Baseline, Predecessor, Project, ProjectItem, Resource, WorkCalendar } from '../types';
+import { reIndexItems } from '../engine';
+import { DEFAULT_CALENDAR } from '../utils/calendar';
+import { STEP_COLORS } from '../utils/dateHelpers';
+import { withResourceCalendars } from '../utils/resources';
+import { migrateProject, SCHEMA_VERSION } from './migrations';
+
+/**
+ * Runtime checks for data that comes from outside the running app (storage, snapshots,
+ * files, other browsers). Old shapes are migrated first; whatever still does not match the
+ * types is repaired where a safe default exists, and every repair is listed so the caller
+ * can ask before using the result.
+ */
+export interface SchemaResult<T> {
+  value: T | null;  // Repaired value, or null when nothing usable is left
+  issues: string[]; // Empty when the data was valid as saved (after migrations)
+}
+
+type Json = Record<string, unknown>;
+
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+const ITEM_TYPES = ['S', 'T', 'M'];
+const LINK_MODES = ['FS', 'SS', 'FF', 'SF'];
+
+const isRecord = (value: unknown): value is Json => !!value && typeof value === 'object' && !Array.isArray(value);
+const isDate = (value: unknown): value is string => typeof value === 'string' && DATE_PATTERN.test(value) && isValid(parseISO(value));
+const isNumber = (value: unknown): value is number => typeof value === 'number' && Number.isFinite(value);
+const isWeekdayList = (value: unknown): value is number[] => Array.isArray(value) && value.every(d => Number.isInteger(d) && d >= 0 && d <= 6);
+
+const readPredecessors = (value: unknown, note: (message: string) => void): Predecessor[] => {
+  if (!Array.isArray(value)) {
+    note('links were not a list and were removed');
+    return [];
+  }
+  const links = value.filter((p): p is Predecessor => isRecord(p) && typeof p.id === 'string' && LINK_MODES.includes(p.mode as string) && isNumber(p.lag));
+  if (links.length < value.length) note(`${value.length - links.length} malformed link(s) removed`);
+  return links;
+};
+
+const readAssignments = (value: unknown, note: (message: string) => void): Assignment[] | undefined => {
+  if (value === undefined) return undefined;
+  if (!Array.isArray(value)) {
+    note('assignments were not a list and were removed');
+    return [];
+  }
+  const assignments = value.filter((a): a is Assignment => isRecord(a) && typeof a.resourceId === 'string' && isNumber(a.allocation) && a.allocation > 0);
+  if (assignments.length < value.length) note(`${value.length - assignments.length} malformed assignment(s) removed`);
+  return assignments;
+};
+
+// Returns null for rows without a usable id or any valid date
+const readItem = (raw: unknown, index: number, issues: string[]): ProjectItem | null => {
+  if (!isRecord(raw) || typeof raw.id !== 'string' || !raw.id) {
+    issues.push(`Row ${index + 1} has no id and was removed.`);
+    return null;
+  }
+  const label = `Row ${index + 1}${typeof raw.tId === 'string' ? ` (${raw.tId})` : ''}`;
+  const note = (message: string) => issues.push(`${label}: ${message}.`);
+
+  const start = isDate(raw.start) ? raw.start : isDate(raw.end) ? raw.end : null;
+  let end = isDate(raw.end) ? raw.end : start;
+  if (!start || !end) {
+    issues.push(`${label} has no valid dates and was removed.`);
+    return null;
+  }
+  if (start !== raw.start) note(`start "${String(raw.start)}" replaced by ${start}`);
+  if (end !== raw.end) note(`end "${String(raw.end)}" replaced by ${end}`);
+  if (end < start) {
+    note(`end ${end} was before start ${start} and now equals it`);
+    end = start;
+  }
+
+  let type = raw.type as ProjectItem['type'];
+  if (!ITEM_TYPES.includes(type)) {
+    note(`type "${String(raw.type)}" replaced by T`);
+    type = 'T';
+  }
+  const text = (key: string) => {
+    if (typeof raw[key] === 'string') return raw[key] as string;
+    if (raw[key] !== undefined && raw[key] !== null) note(`${key} was not text`);
+    return raw[key] === undefined || raw[key] === null ? '' : String(raw[key]);
+  };
+  let workDays = raw.workDays;
+  if (!isNumber(workDays) || workDays < 0) {
+    note(`work days "${String(raw.workDays)}" replaced by 0`);
+    workDays = 0;
+  }
+  let progress = raw.progress;
+  if (!isNumber(progress)) {
+    if (progress !== undefined) note(`progress "${String(raw.progress)}" replaced by 0`);
+    progress = 0;
+  } else if (progress < 0 || progress > 100) {
+    note(`progress ${progress} clamped to 0-100`);
+    progress = Math.min(100, Math.max(0, progress));
+  }
+  const actual = (key: 'actualStart' | 'actualFinish') => {
+    if (raw[key] === undefined || isDate(raw[key])) return raw[key] as string | undefined;
+    note(`${key === 'actualStart' ? 'actual start' : 'actual finish'} "${String(raw[key])}" removed`);
+    return undefined;
+  };
+  const actualStart = actual('actualStart');
+  let actualFinish = actual('actualFinish');
+  if (actualStart && actualFinish && actualFinish < actualStart) {
+    note(`actual finish ${actualFinish} was before the actual start and was removed`);
+    actualFinish = undefined;
+  }
+  const cost = (key: 'fixedCost' | 'plannedCost' | 'actualCost') => {
+    if (raw[key] === undefined || (isNumber(raw[key]) && (raw[key] as number) >= 0)) return raw[key] as number | undefined;
+    note(`${key === 'fixedCost' ? 'fixed cost' : key === 'plannedCost' ? 'planned cost' : 'actual cost'} "${String(raw[key])}" removed`);
+    return undefined;
+  };
+  const costs = { fixedCost: cost('fixedCost'), plannedCost: cost('plannedCost'), actualCost: cost('actualCost') };
+  let level = raw.level;
+  if (level !== undefined && (!Number.isInteger(level) || (level as number) < 0)) {
+    note(`outline level "${String(raw.level)}" reset`);
+    level = undefined;
+  }
+
+  const item: ProjectItem = {
+    id: raw.id,
+    sId: isNumber(raw.sId) ? raw.sId : 0,
+    tId: typeof raw.tId === 'string' ? raw.tId : '',
+    type,
+    level: level as number | undefined,
+    description: text('description'),
+    accountable: text('accountable'),
+    assignments: readAssignments(raw.assignments, note),
+    workDays: workDays as number,
+    start,
+    end,
+    progress: progress as number,
+    actualStart,
+    actualFinish,
+    ...costs,
+    predecessors: readPredecessors(raw.predecessors, note),
+    color: typeof raw.color === 'string' ? raw.color : STEP_COLORS[0]
+  };
+  if (item.level === undefined) delete item.level;
+  if (item.assignments === undefined) delete item.assignments;
+  if (item.actualStart === undefined) delete item.actualStart;
+  if (item.actualFinish === undefined) delete item.actualFinish;
+  (['fixedCost', 'plannedCost', 'actualCost'] as const).forEach(key => {
+    if (item[key] === undefined) delete item[key];
+  });
+  return item;
+};
+
+const readCalendar = (value: unknown, issues: string[]): WorkCalendar | undefined => {
+  if (value === undefined) return undefined;
+  if (!isRecord(value) || !isWeekdayList(value.workingWeekdays) || !Array.isArray(value.holidays) || !Array.isArray(value.exceptions)) {
+    issues.push('The working calendar was unreadable; the default calendar is used.');
+    return undefined;
+  }
+  const holidays = value.holidays.filter(isDate);
+  const exceptions = value.exceptions.filter(e => isRecord(e) && typeof e.person === 'string' && isDate(e.date) && typeof e.working === 'boolean');
+  if (holidays.length < value.holidays.length || exceptions.length < value.exceptions.length) {
+    issues.push('Malformed holidays or calendar exceptions were removed.');
+  }
+  return { workingWeekdays: value.workingWeekdays, holidays, exceptions: exceptions as unknown as WorkCalendar['exceptions'] };
+};
+
+const readList = <T>(value: unknown, isValidEntry: (entry: Json) => boolean, what: string, issues: string[]): T[] | undefined => {
+  if (value === undefined) return undefined;
+  if (!Array.isArray(value)) {
+    issues.push(`The ${what} list was unreadable and was removed.`);
+    return [];
+  }
+  const entries = value.filter(entry => isRecord(entry) && isValidEntry(entry));
+  if (entries.length < value.length) issues.push(`${value.length - entries.length} malformed ${what} entr${value.length - entries.length === 1 ? 'y' : 'ies'} removed.`);
+  return entries as T[];
+};
+
+const isResource = (r: Json) => typeof r.id === 'string' && typeof r.name === 'string' && isNumber(r.capacity)
+  && (r.workingWeekdays === undefined || isWeekdayList(r.workingWeekdays))
+  && (r.rate === undefined || (isNumber(r.rate) && r.rate >= 0));
+const isBaseline = (b: Json) => typeof b.id === 'string' && typeof b.name === 'string' && isRecord(b.items);
+
+/**
+ * Checks a stored or imported project, migrating older shapes first.
+ */
+export const readProject = (raw: unknown): SchemaResult<Project> => {
+  if (!isRecord(raw)) return { value: null, issues: ['The record is not a project.'] };
+  if (typeof raw.id !== 'string' || !raw.id) return { value: null, issues: ['The project has no id.'] };
+  if (!Array.isArray(raw.items)) return { value: null, issues: ['The project has no list of items.'] };
+
+  const issues: string[] = [];
+  if (isNumber(raw.schemaVersion) && raw.schemaVersion > SCHEMA_VERSION) {
+    issues.push(`Saved by a newer version of the app (schema ${raw.schemaVersion}, this app reads up to ${SCHEMA_VERSION}); fields it does not know may be lost.`);
+  }
+
+  // Rows have to be objects with ids before the migrations can walk them
+  const seen = new Set<string>();
+  const rows = raw.items.filter((row, index) => {
+    if (!isRecord(row) || typeof row.id !== 'string' || !row.id) {
+      issues.push(`Row ${index + 1} has no id and was removed.`);
+      return false;
+    }
+    if (seen.has(row.id)) {
+      issues.push(`Row ${index + 1} repeats the id of an earlier row and was removed.`);
+      return false;
+    }
+    seen.add(row.id);
+    return true;
+  });
+
+  let migrated: Project;
+  try {
+    migrated = migrateProject({ ...raw, items: rows } as unknown as Project);
+  } catch (err) {
+    return { value: null, issues: [...issues, `Migrating the project failed: ${err instanceof Error ? err.message : String(err)}`] };
+  }
+  const data = migrated as unknown as Json;
+
+  const items = (migrated.items as unknown[]).map((row, index) => readItem(row, index, issues)).filter((i): i is ProjectItem => !!i);
+  const ids = new Set(items.map(i => i.id));
+  items.forEach(item => {
+    const kept = item.predecessors.filter(p => ids.has(p.id) && p.id !== item.id);
+    if (kept.length < item.predecessors.length) {
+      issues.push(`${item.tId || item.id}: ${item.predecessors.length - kept.length} link(s) to missing rows removed.`);
+      item.predecessors = kept;
+    }
+  });
+
+  const name = typeof data.name === 'string' && data.name.trim() ? data.name : 'Recovered project';
+  if (name !== data.name) issues.push('The project had no name.');
+  const calendar = readCalendar(data.calendar, issues);
+  const resources = readList<Resource>(data.resources, isResource, 'resource', issues);
+  const baselines = readList<Baseline>(data.baselines, isBaseline, 'baseline', issues);
+  let statusDate = data.statusDate as string | null | undefined;
+  if (statusDate !== undefined && statusDate !== null && !isDate(statusDate)) {
+    issues.push(`The status date "${String(statusDate)}" was unreadable; today is used.`);
+    statusDate = undefined;
+  }
+  let activeBaselineId = data.activeBaselineId as string | null | undefined;
+  if (activeBaselineId && !baselines?.some(b => b.id === activeBaselineId)) {
+    issues.push('The compared baseline no longer exists.');
+    activeBaselineId = null;
+  }
+  const starts = items.map(i => i.start).sort();
+  const ends = items.map(i => i.end).sort();
+  const today = new Date().toISOString().slice(0, 10);
+
+  const project: Project = {
+    ...migrated,
+    name,
+    accountable: typeof data.accountable === 'string' ? data.accountable : '',
+    start: isDate(data.start) ? data.start : starts[0] || today,
+    end: isDate(data.end) ? data.end : ends[ends.length - 1] || today,
+    workDays: isNumber(data.workDays) ? data.workDays : 0,
+    createdAt: isNumber(data.createdAt) ? data.createdAt : Date.now(),
+    items,
+    calendar,
+    resources,
+    baselines,
+    activeBaselineId,
+    statusDate
+  };
+  (['calendar', 'resources', 'baselines', 'activeBaselineId', 'statusDate'] as const).forEach(key => {
+    if (project[key] === undefined) delete project[key];
+  });
+  if (issues.length === 0) return { value: project, issues };
+
+  // Repaired rows can break the outline or the rollups, so they are rebuilt
+  const effective = withResourceCalendars(project.calendar || DEFAULT_CALENDAR, project.resources);
+  return { value: { ...project, items: reIndexItems(project.items, effective) }, issues };
+};
+
+/**
+ * Checks a version snapshot and the project inside it.
+ */
+export const readBackup = (raw: unknown): SchemaResult<Backup> => {
+  if (!isRecord(raw)) return { value: null, issues: ['The snapshot is not readable.'] };
+  const { value: project, issues } = readProject(raw.project);
+  const timestamp = typeof raw.timestamp === 'string' && isValid(new Date(raw.timestamp)) ? raw.timestamp : null;
+  if (!timestamp) issues.push('The snapshot has no valid time.');
+  return { value: project ? { timestamp: timestamp || new Date(0).toISOString(), project } : null, issues };
+};
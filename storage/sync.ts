@@ -0,0 +1,328 @@
+
+import { Project } from '../types';
+import { StorageAdapter } from './adapter';
+
+/**
+ * Client for the optional sync server (server/syncServer.ts documents the REST contract).
+ * Local storage stays the source of truth for the app: edits are saved locally first and
+ * queued here, and the queue is replayed whenever the server is reachable. Every write names
+ * the ETag it was based on, so a project changed by someone else comes back as a conflict
+ * instead of being overwritten.
+ */
+
+export type SyncState = 'disabled' | 'offline' | 'pending' | 'synced' | 'conflict';
+
+export interface SyncConflict {
+  projectId: string;
+  name: string;
+  local: Project | null;  // null when the project was deleted here
+  remote: Project | null; // null when the project was deleted on the server
+  remoteEtag: string | null;
+}
+
+export interface SyncStatus {
+  state: SyncState;
+  pending: number;
+  conflicts: SyncConflict[];
+  error: string | null; // Last request the server refused for a reason other than a conflict
+}
+
+export const SYNC_DISABLED: SyncStatus = { state: 'disabled', pending: 0, conflicts: [], error: null };
+
+export interface SyncClient {
+  noteChanges(changed: Project[], removed: string[]): void;
+  noteEtag(projectId: string, etag: string | null): void; // Another tab of this browser synced the project
+
+  syncNow(): void;
+  resolve(projectId: string, keep: 'local' | 'remote'): void;
+  dispose(): void;
+}
+
+interface SyncOptions {
+  baseUrl: string;
+  storage: StorageAdapter;
+  getProjects: () => Project[];
+  prepare: (raw: unknown) => Project | null; // Checks a downloaded project and brings it up to date; null if damaged
+  onRemoteChange: (project: Project) => void;
+  onRemoteDelete: (projectId: string) => void;
+  onEtag: (projectId: string, etag: string | null) => void; // The server version of a project changed here
+  onStatus: (status: SyncStatus) => void;
+}
+
+// What has to survive a reload: the server version each project is based on and the unsent queue
+interface SyncMeta {
+  etags: Record<string, string>;
+  pending: Record<string, 'put' | 'delete'>;
+}
+
+const META_KEY = 'sync';
+const FLUSH_DELAY_MS = 1000;
+const POLL_INTERVAL_MS = 30000;
+
+class OfflineError extends Error {}
+
+export const SYNC_URL_SETTING = 'syncUrl';
+
+/**
+ * Forgets the server versions and the queue, so the next client uploads every local project
+ * as new (projects the server already has come back as conflicts).
+ */
+export const resetSyncState = (storage: StorageAdapter) => storage.saveSetting(META_KEY, null);
+
+/**
+ * Starts syncing the given local projects. Projects the server has never seen are uploaded,
+ * projects only the server has are downloaded through onRemoteChange.
+ */
+export const createSyncClient = (options: SyncOptions, projects: Project[]): SyncClient => {
+  const { storage, getProjects, prepare, onRemoteChange, onRemoteDelete, onEtag, onStatus } = options;
+  const baseUrl = options.baseUrl.replace(/\/+$/, '');
+
+  let meta: SyncMeta = { etags: {}, pending: {} };
+  // The version of each project last sent to or taken from the server, so changes we applied
+  // ourselves are not queued again when the app saves them
+  const known = new Map(projects.map(p => [p.id, p]));
+  // Bumped on every local change; a write only clears the queue entry if nothing changed meanwhile
+  const revisions = new Map<string, number>();
+  const conflicts = new Map<string, SyncConflict>();
+  let offline = false;
+  let error: string | null = null;
+  let ready = false;
+  let disposed = false;
+  let running = false;
+  let rerun = false;
+  let flushTimer: ReturnType<typeof setTimeout> | undefined;
+
+  const report = () => {
+    if (disposed) return;
+    const pending = Object.keys(meta.pending).length;
+    const state: SyncState = conflicts.size > 0 ? 'conflict' : offline ? 'offline' : pending > 0 ? 'pending' : 'synced';
+    onStatus({ state, pending, conflicts: Array.from(conflicts.values()), error });
+  };
+
+  const saveMeta = () => storage.saveSetting(META_KEY, meta).catch(() => undefined);
+
+  // Every tab runs its own client, so each new server version is passed on to the others;
+  // a sibling tab would otherwise send its next write with an outdated If-Match
+  const setEtag = (projectId: string, etag: string | null) => {
+    if (etag === null) delete meta.etags[projectId];
+    else meta.etags[projectId] = etag;
+    onEtag(projectId, etag);
+  };
+
+  const request = async (path: string, init: RequestInit = {}): Promise<Response> => {
+    let response: Response;
+    try {
+      response = await fetch(`${baseUrl}${path}`, init);
+    } catch {
+      throw new OfflineError('Sync server unreachable');
+    }
+    if (response.status >= 500) throw new OfflineError(`Sync server error ${response.status}`);
+    return response;
+  };
+
+  const errorOf = async (response: Response) => {
+    try {
+      return (await response.json()).error || `HTTP ${response.status}`;
+    } catch {
+      return `HTTP ${response.status}`;
+    }
+  };
+
+  const addConflict = async (projectId: string, local: Project | null, response: Response, sent?: string) => {
+    const remoteEtag = response.headers.get('ETag');
+    const body = await response.text();
+    // The server already holds exactly this version (e.g. uploaded before a reconnect)
+    if (remoteEtag && body === sent) {
+      setEtag(projectId, remoteEtag);
+      delete meta.pending[projectId];
+      return;
+    }
+    const remote = remoteEtag ? prepare(JSON.parse(body)) : null;
+    if (remoteEtag && !remote) {
+      error = `The server's copy of ${local?.name || projectId} is damaged`;
+      return;
+    }
+    conflicts.set(projectId, { projectId, name: local?.name || remote?.name || projectId, local, remote, remoteEtag });
+  };
+
+  const push = async (projectId: string) => {
+    const op = meta.pending[projectId];
+    const revision = revisions.get(projectId) || 0;
+    const project = op === 'put' ? getProjects().find(p => p.id === projectId) : undefined;
+    const etag = meta.etags[projectId];
+    const sent = project && JSON.stringify(project);
+    let response: Response;
+
+    if (project) {
+      response = await request(`/projects/${encodeURIComponent(projectId)}`, {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json', ...(etag ? { 'If-Match': etag } : { 'If-None-Match': '*' }) },
+        body: sent
+      });
+      if (response.ok) {
+        setEtag(projectId, response.headers.get('ETag') || '');
+        known.set(projectId, project);
+      }
+    } else if (etag) {
+      response = await request(`/projects/${encodeURIComponent(projectId)}`, { method: 'DELETE', headers: { 'If-Match': etag } });
+      if (response.ok || response.status === 404) setEtag(projectId, null);
+    } else {
+      // Created and deleted before it ever reached the server
+      delete meta.pending[projectId];
+      return;
+    }
+
+    if (response.ok || (!project && response.status === 404)) {
+      if ((revisions.get(projectId) || 0) === revision) delete meta.pending[projectId];
+    } else if (response.status === 412) {
+      await addConflict(projectId, project || null, response, sent);
+    } else {
+      error = await errorOf(response);
+    }
+  };
+
+  // Lists the server's projects and takes every one that changed there and has no unsent edits here
+  const pull = async () => {
+    const response = await request('/projects');
+    if (!response.ok) {
+      error = await errorOf(response);
+      return;
+    }
+    const entries: { id: string; etag: string }[] = await response.json();
+    const onServer = new Set(entries.map(e => e.id));
+
+    for (const entry of entries) {
+      if (meta.etags[entry.id] === entry.etag || meta.pending[entry.id] || conflicts.has(entry.id)) continue;
+      const projectResponse = await request(`/projects/${encodeURIComponent(entry.id)}`);
+      if (!projectResponse.ok) continue;
+      const project = prepare(await projectResponse.json());
+      if (!project) {
+        error = `The server's copy of ${entry.id} is damaged and was not downloaded`;
+        continue;
+      }
+      setEtag(entry.id, projectResponse.headers.get('ETag') || entry.etag);
+      known.set(project.id, project);
+      onRemoteChange(project);
+    }
+
+    for (const projectId of Object.keys(meta.etags)) {
+      if (onServer.has(projectId) || meta.pending[projectId] || conflicts.has(projectId)) continue;
+      setEtag(projectId, null);
+      known.delete(projectId);
+      onRemoteDelete(projectId);
+    }
+  };
+
+  const run = async () => {
+    if (!ready || disposed) return;
+    if (running) {
+      rerun = true;
+      return;
+    }
+    running = true;
+    try {
+      do {
+        rerun = false;
+        error = null;
+        for (const projectId of Object.keys(meta.pending)) {
+          if (!conflicts.has(projectId)) await push(projectId);
+        }
+        await pull();
+        offline = false;
+      } while (rerun && !disposed);
+    } catch (err) {
+      if (!(err instanceof OfflineError)) error = err instanceof Error ? err.message : String(err);
+      offline = err instanceof OfflineError;
+    } finally {
+      running = false;
+      await saveMeta();
+      report();
+    }
+  };
+
+  const schedule = () => {
+    clearTimeout(flushTimer);
+    flushTimer = setTimeout(run, FLUSH_DELAY_MS);
+  };
+
+  const poll = setInterval(run, POLL_INTERVAL_MS);
+  const onOnline = () => { void run(); };
+  window.addEventListener('online', onOnline);
+
+  storage.loadSetting<SyncMeta>(META_KEY)
+    .then(saved => {
+      // Changes and versions noted while the saved queue was loading are kept on top of it
+      if (saved) meta = { etags: { ...saved.etags, ...meta.etags }, pending: { ...saved.pending, ...meta.pending } };
+    })
+    .catch(() => undefined)
+    .then(() => {
+      // Projects that were never uploaded (e.g. made before sync was switched on) join the queue
+      getProjects().forEach(p => { if (!meta.etags[p.id] && !meta.pending[p.id]) meta.pending[p.id] = 'put'; });
+      ready = true;
+      report();
+      return run();
+    });
+
+  return {
+    noteChanges: (changed, removed) => {
+      let queued = false;
+      changed.forEach(p => {
+        if (known.get(p.id) === p) return;
+        meta.pending[p.id] = 'put';
+        revisions.set(p.id, (revisions.get(p.id) || 0) + 1);
+        queued = true;
+      });
+      removed.forEach(projectId => {
+        known.delete(projectId);
+        if (!meta.etags[projectId] && !meta.pending[projectId]) return;
+        meta.pending[projectId] = 'delete';
+        revisions.set(projectId, (revisions.get(projectId) || 0) + 1);
+        queued = true;
+      });
+      if (!queued || !ready) return;
+      void saveMeta();
+      report();
+      schedule();
+    },
+
+    noteEtag: (projectId, etag) => {
+      // The project itself arrives through the tab merge, which already holds that version
+      if (etag === null) delete meta.etags[projectId];
+      else meta.etags[projectId] = etag;
+      if (ready) void saveMeta();
+    },
+
+    syncNow: () => { void run(); },
+
+    resolve: (projectId, keep) => {
+      const conflict = conflicts.get(projectId);
+      if (!conflict) return;
+      conflicts.delete(projectId);
+      setEtag(projectId, conflict.remoteEtag);
+
+      if (keep === 'local') {
+        // Overwrite the server's version with ours, based on the version we have now seen
+        meta.pending[projectId] = conflict.local ? 'put' : 'delete';
+      } else {
+        delete meta.pending[projectId];
+        if (conflict.remote) {
+          known.set(projectId, conflict.remote);
+          onRemoteChange(conflict.remote);
+        } else {
+          known.delete(projectId);
+          onRemoteDelete(projectId);
+        }
+      }
+      void saveMeta();
+      report();
+      void run();
+    },
+
+    dispose: () => {
+      disposed = true;
+      clearTimeout(flushTimer);
+      clearInterval(poll);
+      window.removeEventListener('online', onOnline);
+    }
+  };
+};
@@ -0,0 +1,32 @@
+
+import { Project } from '../types';
+import { ProjectPatch } from '../utils/merge';
+
+// Tabs of the same browser share one database, so each tab tells the others what it changed
+// instead of letting the last save win
+export type TabMessage =
+  | { type: 'patch'; patch: ProjectPatch }
+  | { type: 'created'; project: Project }
+  | { type: 'deleted'; projectId: string }
+  | { type: 'etag'; projectId: string; etag: string | null }; // New sync server version, see SyncClient.noteEtag
+
+export interface TabChannel {
+  post(message: TabMessage): void;
+  close(): void;
+}
+
+const CHANNEL_NAME = 'pro_gantt_tabs';
+
+/**
+ * Joins the channel shared by every open tab of the app, or returns null where the browser
+ * has no BroadcastChannel (each tab then works on its own copy, as before).
+ */
+export const openTabChannel = (onMessage: (message: TabMessage) => void): TabChannel | null => {
+  if (typeof BroadcastChannel === 'undefined') return null;
+  const channel = new BroadcastChannel(CHANNEL_NAME);
+  channel.onmessage = event => onMessage(event.data as TabMessage);
+  return {
+    post: message => channel.postMessage(message),
+    close: () => channel.close()
+  };
+};
@@ -0,0 +1,156 @@
+
+import { v4 as uuidv4 } from 'uuid';
+import { Backup, Project } from '../types';
+import { reIndexItems } from '../engine';
+import { DEFAULT_CALENDAR } from '../utils/calendar';
+import { withResourceCalendars } from '../utils/resources';
+import { MAX_BACKUPS } from './adapter';
+import { SCHEMA_VERSION } from './migrations';
+import { readBackup, readProject } from './schema';
+
+/**
+ * A whole workspace in one JSON file, so projects and their snapshots can leave the browser
+ * (site data cleared, another machine). The file has its own version, separate from the
+ * project schema version: projects inside it are read with readProject like any stored data.
+ */
+export const WORKSPACE_FORMAT = 'pro-gantt-workspace';
+export const WORKSPACE_FILE_VERSION = 1;
+
+export interface WorkspaceEntry {
+  project: Project;
+  backups?: Backup[]; // Missing when the file was exported without snapshots
+}
+
+export interface WorkspaceFile {
+  format: typeof WORKSPACE_FORMAT;
+  version: number;
+  schemaVersion: number;
+  exportedAt: string;
+  projects: WorkspaceEntry[];
+}
+
+export const createWorkspaceFile = (entries: WorkspaceEntry[]): WorkspaceFile => ({
+  format: WORKSPACE_FORMAT,
+  version: WORKSPACE_FILE_VERSION,
+  schemaVersion: SCHEMA_VERSION,
+  exportedAt: new Date().toISOString(),
+  projects: entries
+});
+
+export interface RejectedEntry {
+  raw: unknown;
+  issues: string[];
+  recovered: boolean; // The schema could repair it (see QuarantinedRecord.recoverable)
+}
+
+export interface WorkspaceReadResult {
+  entries: WorkspaceEntry[];
+  rejected: RejectedEntry[]; // Projects that failed the schema checks
+  warnings: string[];        // Snapshots dropped, newer file versions
+  error: string | null;      // The file as a whole is unusable
+}
+
+const isRecord = (value: unknown): value is Record<string, unknown> => !!value && typeof value === 'object' && !Array.isArray(value);
+
+/**
+ * Parses and checks a workspace file. Every project and snapshot goes through the schema;
+ * damaged projects are returned separately and damaged snapshots are dropped.
+ */
+export const readWorkspaceFile = (text: string): WorkspaceReadResult => {
+  const result: WorkspaceReadResult = { entries: [], rejected: [], warnings: [], error: null };
+  let data: unknown;
+  try {
+    data = JSON.parse(text);
+  } catch {
+    return { ...result, error: 'The file is not valid JSON.' };
+  }
+  if (!isRecord(data) || data.format !== WORKSPACE_FORMAT || !Array.isArray(data.projects)) {
+    return { ...result, error: 'The file is not a workspace export.' };
+  }
+  if (typeof data.version !== 'number' || data.version > WORKSPACE_FILE_VERSION) {
+    result.warnings.push(`The file was written by a newer version of the app (format ${String(data.version)}); parts it does not know were ignored.`);
+  }
+
+  const seen = new Set<string>();
+  data.projects.forEach((raw, index) => {
+    const entry = isRecord(raw) ? raw : {};
+    const { value: project, issues } = readProject(entry.project);
+    if (!project || issues.length > 0) {
+      result.rejected.push({ raw: entry.project, issues, recovered: !!project });
+      return;
+    }
+    if (seen.has(project.id)) {
+      result.warnings.push(`Project ${index + 1} ('${project.name}') repeats an earlier project's id and was skipped.`);
+      return;
+    }
+    seen.add(project.id);
+
+    let backups: Backup[] | undefined;
+    if (Array.isArray(entry.backups)) {
+      backups = [];
+      let dropped = 0;
+      entry.backups.forEach(rawBackup => {
+        const { value, issues: backupIssues } = readBackup(rawBackup);
+        if (value && backupIssues.length === 0 && value.project.id === project.id) backups!.push(value);
+        else dropped++;
+      });
+      if (dropped > 0) result.warnings.push(`'${project.name}': ${dropped} damaged snapshot${dropped === 1 ? ' was' : 's were'} left out.`);
+    }
+    result.entries.push({ project, backups });
+  });
+  return result;
+};
+
+/**
+ * What to do with an imported project whose id is already in the workspace.
+ */
+export type ClashResolution = 'merge' | 'duplicate' | 'replace';
+
+/**
+ * Snapshots of both sides, newest first, without repeats, cut to MAX_BACKUPS.
+ */
+export const combineBackups = (a: Backup[], b: Backup[]): Backup[] => {
+  const byTime = new Map([...a, ...b].map(backup => [backup.timestamp, backup]));
+  return Array.from(byTime.values()).sort((x, y) => y.timestamp.localeCompare(x.timestamp)).slice(0, MAX_BACKUPS);
+};
+
+/**
+ * The same project under a new id, so it can sit next to the one it clashes with.
+ */
+export const duplicateProject = (entry: WorkspaceEntry): WorkspaceEntry => {
+  const project = { ...entry.project, id: uuidv4(), name: `${entry.project.name} (imported)`, createdAt: Date.now() };
+  return { project, backups: entry.backups?.map(b => ({ ...b, project: { ...b.project, id: project.id } })) };
+};
+
+/**
+ * Adds what only the imported copy has to the local project: rows (placed after the row they
+ * follow in the file), resources and baselines. Where both have the same row or field, the
+ * local version wins. Returns the merged project and the number of rows added.
+ */
+export const mergeImportedProject = (local: Project, incoming: Project): { project: Project; added: number } => {
+  const items = [...local.items];
+  const present = new Set(items.map(i => i.id));
+  let added = 0;
+  incoming.items.forEach((item, index) => {
+    if (present.has(item.id)) return;
+    let anchor = index - 1;
+    while (anchor >= 0 && !present.has(incoming.items[anchor].id)) anchor--;
+    const at = anchor >= 0 ? items.findIndex(i => i.id === incoming.items[anchor].id) + 1 : 0;
+    items.splice(at, 0, item);
+    present.add(item.id);
+    added++;
+  });
+
+  const union = <T extends { id: string }>(mine: T[] = [], theirs: T[] = []) =>
+    [...mine, ...theirs.filter(t => !mine.some(m => m.id === t.id))];
+  const resources = union(local.resources, incoming.resources);
+  const project: Project = {
+    ...local,
+    resources: local.resources || incoming.resources ? resources : undefined,
+    baselines: local.baselines || incoming.baselines ? union(local.baselines, incoming.baselines) : undefined
+  };
+  if (!project.resources) delete project.resources;
+  if (!project.baselines) delete project.baselines;
+  const calendar = withResourceCalendars(project.calendar || DEFAULT_CALENDAR, resources);
+  return { project: { ...project, items: reIndexItems(items, calendar) }, added };
+};
@@ -0,0 +1,35 @@
+import { describe, test } from 'node:test';
+import assert from 'node:assert/strict';
+import { ChartExportOptions, PaperOrientation, PaperSize, countGanttPages, renderGanttPages } from '../utils/chartExport';
+import { DEFAULT_CALENDAR } from '../utils/calendar';
+import { makeItem } from './fixtures';
+
+const options = (rows: number, rangeEnd: string, includeTable = true): ChartExportOptions => ({
+  title: 'Launch',
+  items: Array.from({ length: rows }, (_, i) => makeItem(`T${i}`)),
+  calendar: DEFAULT_CALENDAR,
+  rangeStart: '2024-01-01',
+  rangeEnd,
+  hideWeekends: false,
+  includeTable,
+  criticalColor: '#ef4444'
+});
+
+describe('print pages', () => {
+  const cases: [ChartExportOptions, PaperSize, PaperOrientation][] = [
+    [options(3, '2024-01-10'), 'A4', 'landscape'],
+    [options(60, '2024-06-30'), 'A4', 'portrait'],
+    [options(0, '2024-03-31', false), 'Tabloid', 'landscape'],
+    [options(45, '2024-12-31'), 'Letter', 'landscape']
+  ];
+
+  test('the page count matches the rendered pages', () => {
+    cases.forEach(([opts, paper, orientation]) => {
+      assert.equal(countGanttPages(opts, paper, orientation), renderGanttPages(opts, paper, orientation).length);
+    });
+  });
+
+  test('a long plan spreads over several pages', () => {
+    assert.ok(countGanttPages(...cases[3]) > 1);
+  });
+});
@@ -0,0 +1,58 @@
+import { describe, test } from 'node:test';
+import assert from 'node:assert/strict';
+import { WorkCalendar } from '../types';
+import { DEFAULT_CALENDAR } from '../utils/calendar';
+import { analyzeCriticalPath } from '../utils/criticalPath';
+import { calculateEndDate } from '../utils/dateHelpers';
+import { makeItem } from './fixtures';
+
+// Alice is off on Tuesday 2024-01-02, so her three days of work run Monday to Thursday
+const calendar: WorkCalendar = { ...DEFAULT_CALENDAR, exceptions: [{ person: 'Alice', date: '2024-01-02', working: false }] };
+
+const plan = () => {
+  const a = makeItem('A', { accountable: 'Alice', workDays: 3, end: calculateEndDate('2024-01-01', 3, calendar, 'Alice') });
+  const b = makeItem('B', { accountable: 'Bob', workDays: 2, end: '2024-01-02' });
+  const c = makeItem('C', { start: '2024-01-05', end: '2024-01-05', predecessors: [{ id: 'A', mode: 'FS', lag: 0 }] });
+  const d = makeItem('D', { start: '2024-01-03', end: '2024-01-03', predecessors: [{ id: 'B', mode: 'FS', lag: 0 }] });
+  return [a, b, c, d];
+};
+
+describe('critical path with a personal day off', () => {
+  test('the day off lengthens its owner\'s task', () => {
+    assert.equal(plan()[0].end, '2024-01-04');
+  });
+
+  test('the longer chain is critical', () => {
+    const result = analyzeCriticalPath(plan(), calendar);
+    assert.deepEqual([result.A.critical, result.C.critical], [true, true]);
+    assert.deepEqual([result.A.totalFloat, result.C.totalFloat], [0, 0]);
+    assert.equal(result.C.earlyFinish, '2024-01-05');
+  });
+
+  test('the other chain gets the day off as float', () => {
+    const result = analyzeCriticalPath(plan(), calendar);
+    assert.deepEqual([result.B.totalFloat, result.B.freeFloat], [2, 0]);
+    assert.deepEqual([result.D.totalFloat, result.D.freeFloat], [2, 2]);
+    assert.deepEqual([result.D.lateStart, result.D.lateFinish], ['2024-01-05', '2024-01-05']);
+    assert.equal(result.B.critical, false);
+  });
+
+  test('without the day off the float shrinks by one', () => {
+    const items = plan().map(i => i.id === 'A' ? { ...i, end: '2024-01-03' } : i.id === 'C' ? { ...i, start: '2024-01-04', end: '2024-01-04' } : i);
+    const result = analyzeCriticalPath(items, DEFAULT_CALENDAR);
+    assert.equal(result.B.totalFloat, 1);
+  });
+
+  test('a step takes the envelope of its tasks and is critical through them', () => {
+    const [a, b, c, d] = plan();
+    const step = makeItem('S', { type: 'S', workDays: 0 });
+    const result = analyzeCriticalPath([step, { ...a, level: 1 }, { ...c, level: 1 }, b, d], calendar);
+    assert.deepEqual([result.S.earlyStart, result.S.earlyFinish, result.S.critical], ['2024-01-01', '2024-01-05', true]);
+  });
+
+  test('a cycle gives no analysis', () => {
+    const a = makeItem('A', { predecessors: [{ id: 'B', mode: 'FS', lag: 0 }] });
+    const b = makeItem('B', { predecessors: [{ id: 'A', mode: 'FS', lag: 0 }] });
+    assert.deepEqual(analyzeCriticalPath([a, b]), {});
+  });
+});
@@ -0,0 +1,161 @@
+import { describe, test } from 'node:test';
+import assert from 'node:assert/strict';
+import { DependencyMode } from '../types';
+import { applyItemEdit, reIndexItems, rescheduleProject, validateProject } from '../engine';
+import { rescheduleItems, topologicalOrder } from '../utils/scheduling';
+import { makeItem } from './fixtures';
+
+// Monday 2024-01-01 to Wednesday 2024-01-03
+const predecessor = makeItem('A', { workDays: 3, start: '2024-01-01', end: '2024-01-03' });
+
+const scheduleAfter = (mode: DependencyMode, lag: number) => {
+  const successor = makeItem('B', { workDays: 2, start: '2024-01-15', end: '2024-01-16', predecessors: [{ id: 'A', mode, lag }] });
+  const { items, cycle } = rescheduleItems([predecessor, successor], [], { relink: ['B'] });
+  assert.equal(cycle, null);
+  return { start: items[1].start, end: items[1].end };
+};
+
+describe('link propagation', () => {
+  test('finish-to-start starts on the next working day', () => {
+    assert.deepEqual(scheduleAfter('FS', 0), { start: '2024-01-04', end: '2024-01-05' });
+  });
+
+  test('finish-to-start lag skips the weekend', () => {
+    assert.deepEqual(scheduleAfter('FS', 2), { start: '2024-01-08', end: '2024-01-09' });
+  });
+
+  test('a negative lag is a lead', () => {
+    assert.deepEqual(scheduleAfter('FS', -1), { start: '2024-01-03', end: '2024-01-04' });
+  });
+
+  test('start-to-start lag', () => {
+    assert.deepEqual(scheduleAfter('SS', 1), { start: '2024-01-02', end: '2024-01-03' });
+  });
+
+  test('finish-to-finish lag', () => {
+    assert.deepEqual(scheduleAfter('FF', 2), { start: '2024-01-04', end: '2024-01-05' });
+  });
+
+  test('start-to-finish lag', () => {
+    assert.deepEqual(scheduleAfter('SF', 3), { start: '2024-01-03', end: '2024-01-04' });
+  });
+
+  test('the latest of several predecessors wins', () => {
+    const late = makeItem('C', { start: '2024-01-10', end: '2024-01-10' });
+    const successor = makeItem('B', { predecessors: [{ id: 'A', mode: 'FS', lag: 0 }, { id: 'C', mode: 'FS', lag: 0 }] });
+    const { items } = rescheduleItems([predecessor, late, successor], [], { relink: ['B'] });
+    assert.equal(items[2].start, '2024-01-11');
+  });
+
+  test('an edit pushes the whole chain', () => {
+    const b = makeItem('B', { start: '2024-01-04', end: '2024-01-04', predecessors: [{ id: 'A', mode: 'FS', lag: 0 }] });
+    const c = makeItem('C', { start: '2024-01-05', end: '2024-01-05', predecessors: [{ id: 'B', mode: 'FS', lag: 0 }] });
+    const { items, cycle } = applyItemEdit([predecessor, b, c], 'A', { workDays: 5 });
+    assert.equal(cycle, null);
+    assert.deepEqual(items.map(i => [i.start, i.end]), [
+      ['2024-01-01', '2024-01-05'],
+      ['2024-01-08', '2024-01-08'],
+      ['2024-01-09', '2024-01-09']
+    ]);
+  });
+
+  test('a finish-to-start milestone sits on its predecessor\'s last day', () => {
+    const milestone = makeItem('M', { type: 'M', workDays: 0, start: '2024-01-15', end: '2024-01-15', predecessors: [{ id: 'A', mode: 'FS', lag: 0 }] });
+    const { items } = rescheduleItems([predecessor, milestone], [], { relink: ['M'] });
+    assert.deepEqual([items[1].start, items[1].end], ['2024-01-03', '2024-01-03']);
+  });
+});
+
+describe('cycle detection', () => {
+  const a = makeItem('A', { predecessors: [{ id: 'C', mode: 'FS', lag: 0 }] });
+  const b = makeItem('B', { predecessors: [{ id: 'A', mode: 'FS', lag: 0 }] });
+  const c = makeItem('C', { predecessors: [{ id: 'B', mode: 'SS', lag: 0 }] });
+
+  test('names every item caught in the cycle', () => {
+    const { cycle } = topologicalOrder([a, b, c, makeItem('D')]);
+    assert.deepEqual(cycle, ['A', 'B', 'C']);
+  });
+
+  test('rescheduling leaves the list unchanged', () => {
+    const list = [a, b, c];
+    const { items, cycle } = rescheduleItems(list, ['A']);
+    assert.notEqual(cycle, null);
+    assert.equal(items, list);
+  });
+
+  test('an edit that closes a loop is refused', () => {
+    const list = [makeItem('A'), makeItem('B', { predecessors: [{ id: 'A', mode: 'FS', lag: 0 }] })];
+    const { items, cycle } = applyItemEdit(list, 'A', { predecessors: [{ id: 'B', mode: 'FS', lag: 0 }] });
+    assert.deepEqual(cycle, ['A', 'B']);
+    assert.equal(items, list);
+  });
+
+  test('a project with a cycle is not rescheduled', () => {
+    const project = { id: 'p', name: 'P', accountable: '', start: '2024-01-01', end: '2024-01-01', workDays: 1, createdAt: 0, items: [a, b, c] };
+    assert.notEqual(rescheduleProject(project).cycle, null);
+  });
+});
+
+describe('milestone rollup', () => {
+  test('a step holding only milestones spans them and averages their progress', () => {
+    const items = reIndexItems([
+      makeItem('S', { type: 'S', workDays: 0 }),
+      makeItem('M1', { type: 'M', level: 1, workDays: 0, start: '2024-01-03', end: '2024-01-03', progress: 100 }),
+      makeItem('M2', { type: 'M', level: 1, workDays: 0, start: '2024-01-09', end: '2024-01-09', progress: 0 })
+    ]);
+    const step = items[0];
+    assert.deepEqual([step.start, step.end, step.progress], ['2024-01-03', '2024-01-09', 50]);
+    assert.deepEqual(items.map(i => i.tId), ['1', '1.1', '1.2']);
+  });
+
+  test('milestones carry no weight next to tasks', () => {
+    const [step] = reIndexItems([
+      makeItem('S', { type: 'S', workDays: 0 }),
+      makeItem('T', { level: 1, workDays: 2, start: '2024-01-01', end: '2024-01-02', progress: 40 }),
+      makeItem('M', { type: 'M', level: 1, workDays: 0, start: '2024-01-05', end: '2024-01-05', progress: 100 })
+    ]);
+    assert.deepEqual([step.start, step.end, step.progress], ['2024-01-01', '2024-01-05', 40]);
+  });
+
+  test('a step is finished once every milestone below it is', () => {
+    const [step] = reIndexItems([
+      makeItem('S', { type: 'S', workDays: 0 }),
+      makeItem('M1', { type: 'M', level: 1, workDays: 0, actualFinish: '2024-01-04' }),
+      makeItem('M2', { type: 'M', level: 1, workDays: 0, actualFinish: '2024-01-02' })
+    ]);
+    assert.deepEqual([step.actualStart, step.actualFinish], ['2024-01-02', '2024-01-04']);
+  });
+});
+
+describe('validation', () => {
+  // The tasks go under one step, rolled up so only what the test sets up is reported
+  const codes = (tasks: ReturnType<typeof makeItem>[]) => {
+    const items = reIndexItems([makeItem('S', { type: 'S', workDays: 0 }), ...tasks.map(t => ({ ...t, level: 1 }))]);
+    return validateProject({ id: 'p', name: 'P', accountable: '', start: '2024-01-01', end: '2024-01-01', workDays: 1, createdAt: 0, items }).issues.map(i => i.code);
+  };
+
+  test('a consistent plan has no issues', () => {
+    const b = makeItem('B', { start: '2024-01-04', end: '2024-01-04', predecessors: [{ id: 'A', mode: 'FS', lag: 0 }] });
+    assert.deepEqual(codes([predecessor, b]), []);
+  });
+
+  test('reports cycles as errors and broken links as warnings', () => {
+    const a = makeItem('A', { predecessors: [{ id: 'B', mode: 'FS', lag: 0 }] });
+    const b = makeItem('B', { predecessors: [{ id: 'A', mode: 'FS', lag: 0 }, { id: 'gone', mode: 'FS', lag: 0 }] });
+    assert.ok(codes([a, b]).includes('dependency-cycle'));
+    assert.ok(codes([a, b]).includes('dangling-link'));
+  });
+
+  test('reports a start the link does not allow', () => {
+    const b = makeItem('B', { start: '2024-01-02', end: '2024-01-02', predecessors: [{ id: 'A', mode: 'FS', lag: 0 }] });
+    assert.deepEqual(codes([predecessor, b]), ['link-violation']);
+  });
+
+  test('reports rows of the wrong shape instead of failing on them', () => {
+    const rows = [null, makeItem('A', { predecessors: 'x' as unknown as [] }), { ...makeItem('B', { predecessors: [{ id: 'gone', mode: 'FS', lag: 0 }] }), tId: '', description: '' }];
+    const report = validateProject({ id: 'p', name: 'P', accountable: '', start: '2024-01-01', end: '2024-01-01', workDays: 1, createdAt: 0, items: rows as ReturnType<typeof makeItem>[] });
+    assert.equal(report.valid, false);
+    assert.deepEqual(report.issues.filter(i => i.severity === 'error').map(i => [i.code, i.label]), [['invalid-row', 'Row 1'], ['invalid-links', 'A "Item A"']]);
+    assert.ok(report.issues.some(i => i.label === 'Row 3'));
+  });
+});
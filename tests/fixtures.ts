@@ -0,0 +1,21 @@
+import { ProjectItem } from '../types';
+
+/**
+ * Builds a work item for the tests: a one-day task on Monday 2024-01-01 unless told otherwise.
+ * Dates are not derived from the work days; give both when they matter.
+ */
+export const makeItem = (id: string, overrides: Partial<ProjectItem> = {}): ProjectItem => ({
+  id,
+  sId: 1,
+  tId: id,
+  type: 'T',
+  description: `Item ${id}`,
+  accountable: '',
+  workDays: 1,
+  start: '2024-01-01',
+  end: '2024-01-01',
+  progress: 0,
+  predecessors: [],
+  color: '#4f46e5',
+  ...overrides
+});
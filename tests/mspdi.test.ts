@@ -0,0 +1,42 @@
+import { describe, test } from 'node:test';
+import assert from 'node:assert/strict';
+import { Project } from '../types';
+import { exportProjectToMspdi } from '../utils/mspdi';
+import { makeItem } from './fixtures';
+
+const project: Project = {
+  id: 'p',
+  name: 'Launch',
+  accountable: '',
+  start: '2024-01-01',
+  end: '2024-01-01',
+  workDays: 1,
+  createdAt: 0,
+  resources: [
+    { id: 'r1', name: 'Alice', role: '', capacity: 100 },
+    { id: 'r2', name: 'Bob', role: '', capacity: 50 }
+  ],
+  items: [
+    makeItem('S', { type: 'S' }),
+    makeItem('A', { accountable: 'Alice', assignments: [{ resourceId: 'r1', allocation: 50 }, { resourceId: 'r2', allocation: 25 }] }),
+    makeItem('B', { accountable: 'bob' }),
+    makeItem('C', { accountable: 'Carol' })
+  ]
+};
+
+// [TaskUID, ResourceUID, Units] of every assignment in the file
+const assignments = (xml: string) =>
+  Array.from(xml.matchAll(/<Assignment>.*?<TaskUID>(\d+)<\/TaskUID><ResourceUID>(\d+)<\/ResourceUID><Units>([\d.]+)<\/Units><\/Assignment>/g)).map(m => [m[1], m[2], m[3]]);
+
+describe('MSPDI export', () => {
+  test('writes every assignment with its allocation as units', () => {
+    assert.deepEqual(assignments(exportProjectToMspdi(project)).slice(0, 2), [['2', '1', '0.5'], ['2', '2', '0.25']]);
+  });
+
+  test('tasks without assignments fall back to their accountable name', () => {
+    const xml = exportProjectToMspdi(project);
+    assert.deepEqual(assignments(xml).slice(2), [['3', '2', '1'], ['4', '3', '1']]);
+    assert.match(xml, /<Resource><UID>3<\/UID><ID>3<\/ID><Name>Carol<\/Name>/);
+    assert.match(xml, /<Name>Bob<\/Name><Type>1<\/Type><MaxUnits>0.5<\/MaxUnits>/);
+  });
+});
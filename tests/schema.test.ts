@@ -0,0 +1,83 @@
+import { afterEach, beforeEach, describe, test } from 'node:test';
+import assert from 'node:assert/strict';
+import { readProject, toQuarantined, mergeQuarantine, loadQuarantine, QuarantinedRecord } from '../storage';
+import { createLocalStorageAdapter } from '../storage/localStorage';
+import { makeItem } from './fixtures';
+
+const project = (overrides: Record<string, unknown> = {}) => ({
+  id: 'p1',
+  name: 'Launch',
+  accountable: '',
+  start: '2024-01-01',
+  end: '2024-01-01',
+  workDays: 1,
+  createdAt: 0,
+  items: [makeItem('A')],
+  ...overrides
+});
+
+describe('readProject', () => {
+  test('accepts a sound project as it is', () => {
+    const { value, issues } = readProject(project());
+    assert.deepEqual(issues, []);
+    assert.equal(value?.items[0].id, 'A');
+  });
+
+  test('a record without an id cannot be read and is quarantined as it was found', () => {
+    const raw = project({ id: undefined });
+    const { value, issues } = readProject(raw);
+    assert.equal(value, null);
+    const record = toQuarantined('storage', raw, issues, !!value);
+    assert.deepEqual([record.key, record.name, record.recoverable, record.raw], ['storage:unknown', 'Launch', false, raw]);
+  });
+
+  test('damaged rows are repaired and the record kept aside as recoverable', () => {
+    const raw = project({ items: [makeItem('A'), { description: 'no id' }, makeItem('B', { progress: 'lots' as unknown as number, predecessors: [{ id: 'gone', mode: 'FS', lag: 0 }] })] });
+    const { value, issues } = readProject(raw);
+    assert.ok(issues.length >= 2);
+    assert.deepEqual(value?.items.map(i => i.id), ['A', 'B']);
+    assert.deepEqual(value?.items[1].predecessors, []);
+    assert.equal(toQuarantined('storage', raw, issues, !!value).recoverable, true);
+  });
+
+  test('a record found again replaces its earlier quarantine entry', () => {
+    const first = toQuarantined('storage', project(), ['old'], true);
+    const again = toQuarantined('storage', project(), ['new'], true);
+    const other = toQuarantined('backup', { timestamp: 't', project: project() }, ['x'], true);
+    assert.deepEqual(mergeQuarantine([first, other], [again]).map(r => r.issues[0]), ['x', 'new']);
+  });
+});
+
+describe('localStorage adapter', () => {
+  const store = new Map<string, string>();
+  beforeEach(() => {
+    store.clear();
+    (globalThis as { localStorage?: unknown }).localStorage = {
+      getItem: (key: string) => store.get(key) ?? null,
+      setItem: (key: string, value: string) => { store.set(key, value); },
+      removeItem: (key: string) => { store.delete(key); }
+    };
+  });
+  afterEach(() => { delete (globalThis as { localStorage?: unknown }).localStorage; });
+
+  test('quarantines a project list that is not valid JSON and opens empty', async () => {
+    store.set('pro_gantt_projects_v1', '[{"id":');
+    const adapter = createLocalStorageAdapter();
+    assert.deepEqual(await adapter.loadProjects(), []);
+    const [record] = await loadQuarantine(adapter);
+    assert.deepEqual([record.source, record.raw, record.recoverable], ['storage', '[{"id":', false]);
+    assert.equal(store.has('pro_gantt_projects_v1'), false);
+  });
+
+  test('quarantines snapshots that are not a list', async () => {
+    store.set('backups_p1', '{}');
+    const adapter = createLocalStorageAdapter();
+    assert.deepEqual(await adapter.loadBackups('p1'), []);
+    assert.deepEqual((await loadQuarantine(adapter)).map((r: QuarantinedRecord) => r.source), ['backup']);
+  });
+
+  test('a damaged quarantine reads as empty', async () => {
+    store.set('pro_gantt_setting_quarantine', 'nope');
+    assert.deepEqual(await loadQuarantine(createLocalStorageAdapter()), []);
+  });
+});
@@ -1,22 +1,76 @@
 
-export type ItemType = 'S' | 'T';
+export type ItemType = 'S' | 'T' | 'M'; // Step, task or milestone (zero duration, start = end)
 export type DependencyMode = 'SS' | 'FS' | 'SF' | 'FF';
 
+export interface Predecessor {
+  id: string;           // ProjectItem.id of the predecessor
+  mode: DependencyMode; // Link type: SS, FS, SF, FF
+  lag: number;          // Days, negative values are leads
+}
+
 export interface ProjectItem {
   id: string;          // Database UUID
-  sId: number;         // Step ID (1, 2, 3...)
-  tId: string;         // Task ID (e.g., "1.1", "-1" for steps)
-  type: ItemType;      // S or T
+  sId: number;         // Top-level step number (1, 2, 3...)
+  tId: string;         // WBS code (e.g., "1", "1.2", "1.2.3")
+  type: ItemType;      // S, T or M
+  level?: number;      // Outline depth, 0 for top-level steps; steps can nest in steps
   description: string;
-  accountable: string; // Responsible person
-  workDays: number;
+  accountable: string; // Responsible person (name of the primary assigned resource)
+  assignments?: Assignment[]; // Resources working on the item
+  workDays: number;    // 0 for milestones
   start: string;       // ISO date string
   end: string;         // ISO date string
   progress: number;    // 0-100
-  mode: DependencyMode; // SS, FS, SF, FF
+  actualStart?: string;  // ISO date the work really started; rolled up for steps
+  actualFinish?: string; // ISO date the work really finished; the item then counts as done
+  fixedCost?: number;    // Planned cost typed in; when unset it comes from the resources' rates
+  plannedCost?: number;  // Derived by reIndexItems: fixed or rate-based, summed for steps
+  actualCost?: number;   // Typed in for tasks and milestones, summed for steps
+  predecessors: Predecessor[]; // Explicit dependency links
   color: string;       // Primary hex color
 }
 
+export interface Assignment {
+  resourceId: string;  // Resource.id
+  allocation: number;  // Percent of the resource's working day spent on the item
+}
+
+export interface Resource {
+  id: string;
+  name: string;
+  role: string;
+  capacity: number;            // Percent of a full-time day the resource can work (100 = one person)
+  rate?: number;               // Cost of one working day at 100% allocation
+  workingWeekdays?: number[];  // Personal work week; the project's when unset
+}
+
+export interface CalendarException {
+  person: string;   // Accountable person the exception applies to
+  date: string;     // ISO date string
+  working: boolean; // true = extra working day, false = day off
+}
+
+export interface WorkCalendar {
+  workingWeekdays: number[];         // 0 = Sunday ... 6 = Saturday
+  holidays: string[];                // ISO dates closed for everyone
+  exceptions: CalendarException[];   // Per-person overrides
+  personalWeekdays?: Record<string, number[]>; // Derived from resources at runtime, keyed by lowercase name; never saved
+  resourceRates?: Record<string, number>;      // Derived from resources at runtime, keyed by Resource.id; never saved
+}
+
+export interface BaselineEntry {
+  start: string;
+  end: string;
+  workDays: number;
+}
+
+export interface Baseline {
+  id: string;
+  name: string;
+  createdAt: number;
+  items: Record<string, BaselineEntry>; // Frozen dates keyed by ProjectItem.id
+}
+
 export interface Project {
   id: string;
   name: string;
@@ -25,7 +79,13 @@ export interface Project {
   end: string;
   workDays: number;
   items: ProjectItem[];
+  calendar?: WorkCalendar; // Falls back to DEFAULT_CALENDAR (Mon-Fri, no holidays)
+  resources?: Resource[];  // Resource registry; items reference it through assignments
+  baselines?: Baseline[];
+  activeBaselineId?: string | null; // Baseline drawn on the Gantt and used for variance
+  statusDate?: string | null; // ISO date progress is measured against; today when unset
   createdAt: number;
+  schemaVersion?: number; // Shape the project was saved in (see storage/migrations.ts); missing = before versions
 }
 
 export interface Backup {
@@ -33,6 +93,26 @@ export interface Backup {
   project: Project;
 }
 
+export interface ImportReport {
+  source: string;      // File name
+  imported: number;    // Items created
+  warnings: string[];  // Data that was converted or dropped because the app cannot represent it
+  errors: string[];    // Rows or elements that were skipped
+  outcomes?: string[]; // Workspace imports: what happened to each project
+}
+
+export interface ScheduleAnalysis {
+  earlyStart: string;   // ISO date string
+  earlyFinish: string;
+  lateStart: string;
+  lateFinish: string;
+  totalFloat: number;   // Working days the item can slip without delaying the project
+  freeFloat: number;    // Working days the item can slip without delaying any successor
+  critical: boolean;
+}
+
+export type ZoomLevel = 'day' | 'week' | 'month' | 'quarter';
+
 export interface GanttDimensions {
   rowHeight: number;
   dayWidth: number;
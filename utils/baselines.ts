@@ -0,0 +1,60 @@
+
+import { v4 as uuidv4 } from 'uuid';
+import { Baseline, ProjectItem, WorkCalendar } from '../types';
+import { getWorkingDayOffset } from './dateHelpers';
+import { DEFAULT_CALENDAR } from './calendar';
+
+export interface ItemVariance {
+  startVariance: number;  // Working days, positive = later than baseline
+  finishVariance: number;
+}
+
+/**
+ * Freezes the current start, end and work days of every item under a name.
+ */
+export const createBaseline = (name: string, items: ProjectItem[]): Baseline => ({
+  id: uuidv4(),
+  name: name.trim() || `Baseline ${new Date().toLocaleDateString()}`,
+  createdAt: Date.now(),
+  items: Object.fromEntries(items.map(i => [i.id, { start: i.start, end: i.end, workDays: i.workDays }]))
+});
+
+/**
+ * Start/finish variance of one item, or null when the item did not exist when the baseline was saved.
+ */
+export const getItemVariance = (item: ProjectItem, baseline: Baseline, calendar: WorkCalendar = DEFAULT_CALENDAR): ItemVariance | null => {
+  const entry = baseline.items[item.id];
+  if (!entry) return null;
+  return {
+    startVariance: getWorkingDayOffset(entry.start, item.start, calendar),
+    finishVariance: getWorkingDayOffset(entry.end, item.end, calendar)
+  };
+};
+
+/**
+ * Items whose finish slipped by more than `threshold` working days, worst first.
+ */
+export const getSlippedItems = (
+  items: ProjectItem[],
+  baseline: Baseline,
+  threshold: number,
+  calendar: WorkCalendar = DEFAULT_CALENDAR
+): { item: ProjectItem; variance: ItemVariance }[] => {
+  return items
+    .map(item => ({ item, variance: getItemVariance(item, baseline, calendar) }))
+    .filter((v): v is { item: ProjectItem; variance: ItemVariance } => v.variance !== null && v.variance.finishVariance > threshold)
+    .sort((a, b) => b.variance.finishVariance - a.variance.finishVariance);
+};
+
+/**
+ * Every milestone in row order with its finish variance; null when added after the baseline.
+ */
+export const getMilestoneVariances = (
+  items: ProjectItem[],
+  baseline: Baseline,
+  calendar: WorkCalendar = DEFAULT_CALENDAR
+): { item: ProjectItem; variance: ItemVariance | null }[] => {
+  return items
+    .filter(item => item.type === 'M')
+    .map(item => ({ item, variance: getItemVariance(item, baseline, calendar) }));
+};
@@ -0,0 +1,106 @@
+
+import { addDays, format } from 'date-fns';
+import { WorkCalendar } from '../types';
+
+export const DEFAULT_CALENDAR: WorkCalendar = {
+  workingWeekdays: [1, 2, 3, 4, 5],
+  holidays: [],
+  exceptions: []
+};
+
+export const WEEKDAY_LABELS = ['SUN', 'MON', 'TUE', 'WED', 'THU', 'FRI', 'SAT'];
+
+// Safety net so a calendar without any working day cannot hang the date loops
+const MAX_SCAN_DAYS = 3660;
+
+type WorkingDayCheck = (date: Date) => boolean;
+
+const checkCache = new WeakMap<WorkCalendar, Map<string, WorkingDayCheck>>();
+
+/**
+ * Builds (and caches) a predicate telling whether a date is worked,
+ * taking holidays and the person's own exceptions into account.
+ */
+const getWorkingDayCheck = (calendar: WorkCalendar, person?: string): WorkingDayCheck => {
+  let byPerson = checkCache.get(calendar);
+  if (!byPerson) {
+    byPerson = new Map();
+    checkCache.set(calendar, byPerson);
+  }
+  const key = person || '';
+  const cached = byPerson.get(key);
+  if (cached) return cached;
+
+  const personal = key ? calendar.personalWeekdays?.[key.trim().toLowerCase()] : undefined;
+  const workWeek = personal || calendar.workingWeekdays;
+  const weekdays = new Set(workWeek.length > 0 ? workWeek : [0, 1, 2, 3, 4, 5, 6]);
+  const holidays = new Set(calendar.holidays);
+  const overrides = new Map<string, boolean>();
+  if (key) {
+    calendar.exceptions
+      .filter(e => e.person.trim().toLowerCase() === key.trim().toLowerCase())
+      .forEach(e => overrides.set(e.date, e.working));
+  }
+
+  const check: WorkingDayCheck = (date) => {
+    const iso = format(date, 'yyyy-MM-dd');
+    const override = overrides.get(iso);
+    if (override !== undefined) return override;
+    return weekdays.has(date.getDay()) && !holidays.has(iso);
+  };
+  byPerson.set(key, check);
+  return check;
+};
+
+export const isWorkingDay = (date: Date, calendar: WorkCalendar = DEFAULT_CALENDAR, person?: string): boolean => {
+  return getWorkingDayCheck(calendar, person)(date);
+};
+
+/**
+ * Weekday-only check used by the "hide weekends" view, holidays stay visible.
+ */
+export const isWorkingWeekday = (date: Date, calendar: WorkCalendar = DEFAULT_CALENDAR): boolean => {
+  if (calendar.workingWeekdays.length === 0) return true;
+  return calendar.workingWeekdays.includes(date.getDay());
+};
+
+/**
+ * Moves to the closest working day in the given direction (the date itself if it is worked).
+ */
+export const snapToWorkingDay = (date: Date, direction: 1 | -1, calendar: WorkCalendar = DEFAULT_CALENDAR, person?: string): Date => {
+  const check = getWorkingDayCheck(calendar, person);
+  let current = date;
+  for (let i = 0; i < MAX_SCAN_DAYS && !check(current); i++) {
+    current = addDays(current, direction);
+  }
+  return current;
+};
+
+/**
+ * Moves `amount` working days forward (or backward when negative).
+ * A zero amount snaps the date forward onto a working day.
+ */
+export const addWorkingDays = (date: Date, amount: number, calendar: WorkCalendar = DEFAULT_CALENDAR, person?: string): Date => {
+  if (amount === 0) return snapToWorkingDay(date, 1, calendar, person);
+  const check = getWorkingDayCheck(calendar, person);
+  const step = amount > 0 ? 1 : -1;
+  let remaining = Math.abs(amount);
+  let current = date;
+  for (let i = 0; remaining > 0 && i < MAX_SCAN_DAYS * 10; i++) {
+    current = addDays(current, step);
+    if (check(current)) remaining--;
+  }
+  return current;
+};
+
+/**
+ * Counts worked days between two dates, both ends included.
+ */
+export const countWorkingDays = (start: Date, end: Date, calendar: WorkCalendar = DEFAULT_CALENDAR, person?: string): number => {
+  const check = getWorkingDayCheck(calendar, person);
+  let count = 0;
+  for (let current = start; current <= end; current = addDays(current, 1)) {
+    if (check(current)) count++;
+  }
+  return count;
+};
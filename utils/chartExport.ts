@@ -0,0 +1,363 @@
+
+import { eachDayOfInterval, format, getISOWeek, isSameDay, isValid, parseISO, startOfDay } from 'date-fns';
+import { ProjectItem, WorkCalendar } from '../types';
+import { isWorkingDay, isWorkingWeekday } from './calendar';
+import { formatProjectDate } from './dateHelpers';
+import { createColumnIndex, getMilestonePoints, getVisibleSpan } from './gantt';
+import { getLevel } from './wbs';
+
+/**
+ * Builds standalone SVG renderings of the Gantt chart for export, rasterizing and printing.
+ * Everything is inlined (colors, fonts) so the markup renders the same outside the app.
+ */
+
+export type PaperSize = 'A4' | 'A3' | 'Letter' | 'Legal' | 'Tabloid';
+export type PaperOrientation = 'landscape' | 'portrait';
+
+// Paper dimensions in CSS pixels (96 dpi), portrait
+export const PAPER_SIZES: Record<PaperSize, { width: number; height: number; label: string }> = {
+  A4: { width: 794, height: 1123, label: 'A4 (210 × 297 mm)' },
+  A3: { width: 1123, height: 1587, label: 'A3 (297 × 420 mm)' },
+  Letter: { width: 816, height: 1056, label: 'Letter (8.5 × 11 in)' },
+  Legal: { width: 816, height: 1344, label: 'Legal (8.5 × 14 in)' },
+  Tabloid: { width: 1056, height: 1632, label: 'Tabloid (11 × 17 in)' }
+};
+
+interface ExportColumn {
+  header: string;
+  width: number;
+  value: (item: ProjectItem) => string;
+  align?: 'start' | 'middle';
+}
+
+const TABLE_COLUMNS: ExportColumn[] = [
+  { header: 'WBS', width: 44, value: i => i.tId, align: 'middle' },
+  { header: 'Description', width: 220, value: i => i.description },
+  { header: 'Accountable', width: 110, value: i => i.accountable },
+  { header: 'Days', width: 44, value: i => String(i.workDays), align: 'middle' },
+  { header: 'Start', width: 78, value: i => formatProjectDate(i.start), align: 'middle' },
+  { header: 'End', width: 78, value: i => formatProjectDate(i.end), align: 'middle' },
+  { header: '%', width: 44, value: i => `${i.progress}%`, align: 'middle' }
+];
+
+export const EXPORT_TABLE_WIDTH = TABLE_COLUMNS.reduce((sum, c) => sum + c.width, 0);
+
+// Narrow pages shrink the table proportionally instead of letting it run into the chart
+const scaleColumns = (tableWidth: number) => {
+  const factor = tableWidth / EXPORT_TABLE_WIDTH;
+  return TABLE_COLUMNS.map(col => ({ ...col, width: col.width * factor }));
+};
+
+const FONT = "Inter, 'Segoe UI', Arial, sans-serif";
+const ROW_HEIGHT = 28;
+const HEADER_HEIGHT = 72;   // Month (22) + week (18) + day (32) tiers
+const TITLE_HEIGHT = 40;
+const PAGE_MARGIN = 28;
+const MIN_PRINT_DAY_WIDTH = 12;
+
+export interface ChartExportOptions {
+  title: string;
+  items: ProjectItem[];
+  calendar: WorkCalendar;
+  rangeStart: string;          // yyyy-MM-dd, inclusive
+  rangeEnd: string;
+  hideWeekends: boolean;
+  includeTable: boolean;
+  criticalIds?: Set<string>;
+  criticalColor?: string;
+}
+
+export interface RenderedSvg {
+  svg: string;
+  width: number;
+  height: number;
+}
+
+const escapeXml = (value: string): string =>
+  value.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+
+// Rough text fitting; exact metrics are not available outside the DOM
+const truncate = (value: string, width: number, fontSize: number): string => {
+  const maxChars = Math.floor(width / (fontSize * 0.58));
+  return value.length > maxChars ? `${value.slice(0, Math.max(1, maxChars - 1))}…` : value;
+};
+
+/**
+ * The dates shown as columns for a range, honoring the hidden-weekend view.
+ */
+export const getExportDates = (rangeStart: string, rangeEnd: string, hideWeekends: boolean, calendar: WorkCalendar): Date[] => {
+  const start = startOfDay(parseISO(rangeStart));
+  const end = startOfDay(parseISO(rangeEnd));
+  if (!isValid(start) || !isValid(end) || start > end) return [];
+  const days = eachDayOfInterval({ start, end });
+  return hideWeekends ? days.filter(d => isWorkingWeekday(d, calendar)) : days;
+};
+
+interface SectionLayout {
+  dates: Date[];
+  rows: ProjectItem[];
+  dayWidth: number;
+  offsetX: number;
+  offsetY: number;
+  includeTable: boolean;
+}
+
+const renderTimelineHeader = ({ dates, dayWidth, offsetX, offsetY }: SectionLayout, calendar: WorkCalendar): string => {
+  const parts: string[] = [];
+  const width = dates.length * dayWidth;
+  parts.push(`<rect x="${offsetX}" y="${offsetY}" width="${width}" height="${HEADER_HEIGHT}" fill="#2c3e50"/>`);
+
+  // Month and week tiers run until the next boundary so labels never overlap
+  const tier = (isBoundary: (d: Date, i: number) => boolean, y: number, h: number, fill: string, color: string, label: (d: Date) => string, size: number) => {
+    const starts = dates.map((d, i) => (isBoundary(d, i) ? i : -1)).filter(i => i >= 0);
+    starts.forEach((first, n) => {
+      const last = (starts[n + 1] ?? dates.length) - 1;
+      const x = offsetX + first * dayWidth;
+      const w = (last - first + 1) * dayWidth;
+      parts.push(`<rect x="${x}" y="${offsetY + y}" width="${w}" height="${h}" fill="${fill}" stroke="rgba(255,255,255,0.08)"/>`);
+      if (w > size * 3) {
+        parts.push(`<text x="${x + 6}" y="${offsetY + y + h / 2 + size / 2 - 1}" fill="${color}" font-size="${size}" font-weight="700" font-family="${FONT}">${escapeXml(truncate(label(dates[first]), w - 8, size))}</text>`);
+      }
+    });
+  };
+  tier((date, i) => i === 0 || date.getDate() === 1 || date.getMonth() !== dates[i - 1].getMonth(), 0, 22, '#2c3e50', '#ffffff', date => format(date, 'MMMM yyyy').toUpperCase(), 10);
+  tier((date, i) => i === 0 || getISOWeek(date) !== getISOWeek(dates[i - 1]), 22, 18, '#1a2b3c', '#818cf8', date => `WEEK ${getISOWeek(date)}`, 9);
+
+  dates.forEach((date, i) => {
+    const x = offsetX + i * dayWidth;
+    const fill = isWorkingDay(date, calendar) ? '#2c3e50' : '#243342';
+    parts.push(`<rect x="${x}" y="${offsetY + 40}" width="${dayWidth}" height="32" fill="${fill}" stroke="rgba(255,255,255,0.05)"/>`);
+    if (dayWidth >= 14) {
+      parts.push(`<text x="${x + dayWidth / 2}" y="${offsetY + 54}" text-anchor="middle" fill="#cbd5e1" font-size="8" font-family="${FONT}">${format(date, 'EEEEE')}</text>`);
+      parts.push(`<text x="${x + dayWidth / 2}" y="${offsetY + 66}" text-anchor="middle" fill="#ffffff" font-size="9" font-weight="700" font-family="${FONT}">${format(date, 'd')}</text>`);
+    } else if (date.getDay() === 1) {
+      parts.push(`<text x="${x + 1}" y="${offsetY + 60}" fill="#ffffff" font-size="8" font-family="${FONT}">${format(date, 'd')}</text>`);
+    }
+  });
+  return parts.join('');
+};
+
+const renderTableHeader = ({ offsetX, offsetY }: SectionLayout): string => {
+  const parts = [`<rect x="0" y="${offsetY}" width="${offsetX}" height="${HEADER_HEIGHT}" fill="#2c3e50"/>`];
+  let x = 0;
+  scaleColumns(offsetX).forEach(col => {
+    const tx = col.align === 'middle' ? x + col.width / 2 : x + 6;
+    parts.push(`<text x="${tx}" y="${offsetY + HEADER_HEIGHT - 12}" text-anchor="${col.align || 'start'}" fill="#ffffff" font-size="9" font-weight="700" font-family="${FONT}">${escapeXml(col.header.toUpperCase())}</text>`);
+    x += col.width;
+    parts.push(`<line x1="${x}" y1="${offsetY}" x2="${x}" y2="${offsetY + HEADER_HEIGHT}" stroke="rgba(255,255,255,0.1)"/>`);
+  });
+  return parts.join('');
+};
+
+const renderRows = (layout: SectionLayout, options: ChartExportOptions): string => {
+  const { dates, rows, dayWidth, offsetX, includeTable } = layout;
+  const top = layout.offsetY + HEADER_HEIGHT;
+  const chartWidth = dates.length * dayWidth;
+  const fullWidth = offsetX + chartWidth;
+  const height = rows.length * ROW_HEIGHT;
+  const parts: string[] = [`<rect x="0" y="${top}" width="${fullWidth}" height="${height}" fill="#fafbfc"/>`];
+  const columns = createColumnIndex(dates);
+
+  // Non-working day shading and vertical grid
+  dates.forEach((date, i) => {
+    const x = offsetX + i * dayWidth;
+    if (!isWorkingDay(date, options.calendar)) parts.push(`<rect x="${x}" y="${top}" width="${dayWidth}" height="${height}" fill="rgba(0,0,0,0.04)"/>`);
+    if (dayWidth >= 8 || date.getDay() === 1) parts.push(`<line x1="${x}" y1="${top}" x2="${x}" y2="${top + height}" stroke="#e5e7eb" stroke-width="0.5"/>`);
+  });
+
+  rows.forEach((item, r) => {
+    const y = top + r * ROW_HEIGHT;
+    if (item.type === 'S') parts.push(`<rect x="0" y="${y}" width="${fullWidth}" height="${ROW_HEIGHT}" fill="rgba(0,0,0,0.03)"/>`);
+    parts.push(`<line x1="0" y1="${y}" x2="${fullWidth}" y2="${y}" stroke="${item.type === 'S' ? '#94a3b8' : '#e5e7eb'}" stroke-width="${item.type === 'S' ? 1.2 : 0.5}"/>`);
+
+    if (includeTable) {
+      let x = 0;
+      scaleColumns(offsetX).forEach(col => {
+        const indent = col.header === 'Description' ? getLevel(item) * 12 : 0;
+        const tx = col.align === 'middle' ? x + col.width / 2 : x + 6 + indent;
+        const text = truncate(col.value(item), col.width - 10 - indent, 10);
+        parts.push(`<text x="${tx}" y="${y + ROW_HEIGHT / 2 + 3.5}" text-anchor="${col.align || 'start'}" fill="#1f2937" font-size="10" font-weight="${item.type === 'S' ? 800 : 500}" font-family="${FONT}">${escapeXml(text)}</text>`);
+        x += col.width;
+      });
+    }
+
+    const span = getVisibleSpan(columns, item.start, item.end);
+    if (!span) return;
+    const bx = offsetX + span.first * dayWidth;
+    const bw = (span.last - span.first + 1) * dayWidth;
+    const bh = ROW_HEIGHT * 0.6;
+    const by = y + (ROW_HEIGHT - bh) / 2;
+    const isCritical = !!options.criticalIds?.has(item.id);
+    const fill = isCritical ? options.criticalColor || '#dc2626' : item.color;
+    if (item.type === 'M') {
+      const cx = bx + bw / 2;
+      parts.push(`<polygon points="${getMilestonePoints(cx, by + bh / 2, bh / 2)}" fill="${fill}" stroke="#1f2937" stroke-width="0.8"/>`);
+      const labelX = cx + bh / 2 + 6;
+      if (fullWidth - labelX > 20) {
+        parts.push(`<text x="${labelX}" y="${by + bh / 2 + 3.5}" fill="#4b5563" font-size="9" font-weight="700" font-family="${FONT}">${escapeXml(truncate(`${item.description} • ${formatProjectDate(item.end)}`, fullWidth - labelX, 9))}</text>`);
+      }
+      return;
+    }
+    parts.push(`<rect x="${bx}" y="${by}" width="${bw}" height="${bh}" rx="${item.type === 'S' ? 3 : 2}" fill="${fill}" opacity="${item.type === 'T' ? 0.85 : 1}"/>`);
+    parts.push(`<rect x="${bx}" y="${by + bh - 3}" width="${(bw * item.progress) / 100}" height="3" fill="rgba(255,255,255,0.55)"/>`);
+    const label = `${item.description} ${item.progress}%${item.accountable ? ` • ${item.accountable}` : ''}`;
+    const inside = bw > 80;
+    const labelX = inside ? bx + 6 : bx + bw + 6;
+    const room = inside ? bw - 10 : fullWidth - labelX;
+    if (room > 20) {
+      parts.push(`<text x="${labelX}" y="${by + bh / 2 + 3.5}" fill="${inside ? '#ffffff' : '#4b5563'}" font-size="9" font-weight="700" font-family="${FONT}">${escapeXml(truncate(label, room, 9))}</text>`);
+    }
+  });
+
+  parts.push(`<line x1="0" y1="${top + height}" x2="${fullWidth}" y2="${top + height}" stroke="#e5e7eb" stroke-width="0.5"/>`);
+  if (includeTable) parts.push(`<line x1="${offsetX}" y1="${layout.offsetY}" x2="${offsetX}" y2="${top + height}" stroke="#94a3b8" stroke-width="1.5"/>`);
+
+  // Today line, only when today is one of the exported columns
+  const today = startOfDay(new Date());
+  const todayIdx = dates.findIndex(d => isSameDay(d, today));
+  if (todayIdx !== -1) {
+    const tx = offsetX + todayIdx * dayWidth;
+    parts.push(`<line x1="${tx}" y1="${top}" x2="${tx}" y2="${top + height}" stroke="#e74c3c" stroke-width="2" stroke-dasharray="4 2"/>`);
+    parts.push(`<rect x="${tx - 22}" y="${top}" width="44" height="12" rx="2" fill="#e74c3c"/>`);
+    parts.push(`<text x="${tx}" y="${top + 9}" text-anchor="middle" fill="#ffffff" font-size="8" font-weight="700" font-family="${FONT}">TODAY</text>`);
+  }
+  return parts.join('');
+};
+
+const renderSection = (layout: SectionLayout, options: ChartExportOptions): string =>
+  (layout.includeTable ? renderTableHeader(layout) : '') + renderTimelineHeader(layout, options.calendar) + renderRows(layout, options);
+
+const wrapSvg = (width: number, height: number, body: string): string =>
+  `<svg xmlns="http://www.w3.org/2000/svg" width="${width}" height="${height}" viewBox="0 0 ${width} ${height}">${body}</svg>`;
+
+/**
+ * Renders the whole chart for a date range as one SVG sized to its content.
+ */
+export const renderGanttSvg = (options: ChartExportOptions, dayWidth = 32): RenderedSvg => {
+  const dates = getExportDates(options.rangeStart, options.rangeEnd, options.hideWeekends, options.calendar);
+  const offsetX = options.includeTable ? EXPORT_TABLE_WIDTH : 0;
+  const width = Math.max(offsetX + dates.length * dayWidth, 320);
+  const height = TITLE_HEIGHT + HEADER_HEIGHT + options.items.length * ROW_HEIGHT + 1;
+
+  const title = `<rect width="${width}" height="${TITLE_HEIGHT}" fill="#ffffff"/>`
+    + `<text x="12" y="25" fill="#1a2b3c" font-size="16" font-weight="800" font-family="${FONT}">${escapeXml(options.title)}</text>`
+    + `<text x="${width - 12}" y="25" text-anchor="end" fill="#6b7280" font-size="10" font-family="${FONT}">${escapeXml(`${formatProjectDate(options.rangeStart)} – ${formatProjectDate(options.rangeEnd)}`)}</text>`;
+  const body = renderSection({ dates, rows: options.items, dayWidth, offsetX, offsetY: TITLE_HEIGHT, includeTable: options.includeTable }, options);
+
+  return { svg: wrapSvg(width, height, `<rect width="${width}" height="${height}" fill="#ffffff"/>${title}${body}`), width, height };
+};
+
+// Page size in CSS pixels with the orientation applied
+const getPageSize = (paper: PaperSize, orientation: PaperOrientation) => {
+  const base = PAPER_SIZES[paper];
+  return orientation === 'landscape' ? { width: base.height, height: base.width } : { width: base.width, height: base.height };
+};
+
+// How the chart splits into pages: the day width, and how many days and rows fit on one page
+const getPageLayout = (options: ChartExportOptions, paper: PaperSize, orientation: PaperOrientation) => {
+  const { width: pageWidth, height: pageHeight } = getPageSize(paper, orientation);
+  const contentWidth = pageWidth - PAGE_MARGIN * 2;
+  const contentHeight = pageHeight - PAGE_MARGIN * 2;
+  const dates = getExportDates(options.rangeStart, options.rangeEnd, options.hideWeekends, options.calendar);
+  const offsetX = options.includeTable ? Math.min(EXPORT_TABLE_WIDTH, contentWidth / 2) : 0;
+  const chartWidth = contentWidth - offsetX;
+  const dayWidth = Math.max(MIN_PRINT_DAY_WIDTH, Math.min(32, chartWidth / Math.max(1, dates.length)));
+  return {
+    pageWidth,
+    pageHeight,
+    contentWidth,
+    dates,
+    offsetX,
+    dayWidth,
+    daysPerPage: Math.max(1, Math.floor(chartWidth / dayWidth)),
+    rowsPerPage: Math.max(1, Math.floor((contentHeight - TITLE_HEIGHT - HEADER_HEIGHT - 1) / ROW_HEIGHT))
+  };
+};
+
+/**
+ * Number of pages renderGanttPages produces, worked out without rendering them.
+ */
+export const countGanttPages = (options: ChartExportOptions, paper: PaperSize, orientation: PaperOrientation): number => {
+  const { dates, daysPerPage, rowsPerPage } = getPageLayout(options, paper, orientation);
+  if (dates.length === 0) return 0;
+  return Math.ceil(dates.length / daysPerPage) * Math.ceil(Math.max(options.items.length, 1) / rowsPerPage);
+};
+
+/**
+ * Splits the chart into printable pages. Columns are squeezed to fit the page width down to
+ * a minimum day width, beyond which the range continues on further pages; rows flow vertically.
+ * Every page repeats the title, the timeline header and (optionally) the table header.
+ */
+export const renderGanttPages = (options: ChartExportOptions, paper: PaperSize, orientation: PaperOrientation): RenderedSvg[] => {
+  const { pageWidth, pageHeight, contentWidth, dates, offsetX, dayWidth, daysPerPage, rowsPerPage } = getPageLayout(options, paper, orientation);
+  if (dates.length === 0) return [];
+
+  const dateChunks: Date[][] = [];
+  for (let i = 0; i < dates.length; i += daysPerPage) dateChunks.push(dates.slice(i, i + daysPerPage));
+  const rowChunks: ProjectItem[][] = [];
+  for (let i = 0; i < Math.max(options.items.length, 1); i += rowsPerPage) rowChunks.push(options.items.slice(i, i + rowsPerPage));
+
+  const total = dateChunks.length * rowChunks.length;
+  const pages: RenderedSvg[] = [];
+  dateChunks.forEach(chunkDates => {
+    rowChunks.forEach(chunkRows => {
+      const pageNo = pages.length + 1;
+      const rangeLabel = `${formatProjectDate(chunkDates[0])} – ${formatProjectDate(chunkDates[chunkDates.length - 1])}`;
+      const header = `<text x="0" y="18" fill="#1a2b3c" font-size="14" font-weight="800" font-family="${FONT}">${escapeXml(truncate(options.title, contentWidth * 0.55, 14))}</text>`
+        + `<text x="${contentWidth}" y="18" text-anchor="end" fill="#6b7280" font-size="9" font-family="${FONT}">${escapeXml(`${rangeLabel} • Page ${pageNo} of ${total}`)}</text>`;
+      const layout: SectionLayout = { dates: chunkDates, rows: chunkRows, dayWidth, offsetX, offsetY: TITLE_HEIGHT, includeTable: options.includeTable };
+      const body = `<g transform="translate(${PAGE_MARGIN} ${PAGE_MARGIN})">${header}${renderSection(layout, options)}</g>`;
+      pages.push({ svg: wrapSvg(pageWidth, pageHeight, `<rect width="${pageWidth}" height="${pageHeight}" fill="#ffffff"/>${body}`), width: pageWidth, height: pageHeight });
+    });
+  });
+  return pages;
+};
+
+/**
+ * Draws an SVG onto a canvas and returns it as a PNG blob.
+ */
+export const rasterizeSvg = (rendered: RenderedSvg, scale = 2): Promise<Blob> => {
+  return new Promise((resolve, reject) => {
+    const url = URL.createObjectURL(new Blob([rendered.svg], { type: 'image/svg+xml;charset=utf-8' }));
+    const image = new Image();
+    image.onload = () => {
+      const canvas = document.createElement('canvas');
+      canvas.width = Math.round(rendered.width * scale);
+      canvas.height = Math.round(rendered.height * scale);
+      const ctx = canvas.getContext('2d');
+      if (!ctx) {
+        URL.revokeObjectURL(url);
+        reject(new Error('Canvas is not available in this browser.'));
+        return;
+      }
+      ctx.scale(scale, scale);
+      ctx.drawImage(image, 0, 0);
+      URL.revokeObjectURL(url);
+      canvas.toBlob(blob => (blob ? resolve(blob) : reject(new Error('The chart is too large to rasterize; try a shorter date range.'))), 'image/png');
+    };
+    image.onerror = () => {
+      URL.revokeObjectURL(url);
+      reject(new Error('The chart could not be rendered as an image.'));
+    };
+    image.src = url;
+  });
+};
+
+/**
+ * Opens the pages in a print window; the browser's print dialog can save them as PDF.
+ */
+export const printPages = (pages: RenderedSvg[], title: string, paper: PaperSize, orientation: PaperOrientation): boolean => {
+  const win = window.open('', '_blank');
+  if (!win) return false;
+  // Explicit dimensions: not every paper has a CSS keyword (Tabloid is called ledger there)
+  const size = getPageSize(paper, orientation);
+  const html = `<!DOCTYPE html><html><head><meta charset="utf-8"><title>${escapeXml(title)}</title>`
+    + `<style>@page { size: ${size.width}px ${size.height}px; margin: 0; } html, body { margin: 0; padding: 0; } `
+    + `.page { page-break-after: always; break-after: page; } .page:last-child { page-break-after: auto; break-after: auto; } svg { display: block; }</style>`
+    + `</head><body>${pages.map(p => `<div class="page">${p.svg}</div>`).join('')}</body></html>`;
+  win.document.open();
+  win.document.write(html);
+  win.document.close();
+  setTimeout(() => { win.focus(); win.print(); }, 300);
+  return true;
+};
@@ -0,0 +1,127 @@
+
+import { addWeeks, eachDayOfInterval, format, parseISO, isValid, startOfWeek } from 'date-fns';
+import { ProjectItem, Resource, WorkCalendar } from '../types';
+import { DEFAULT_CALENDAR, isWorkingDay } from './calendar';
+import { quoteCell } from './csv';
+
+/**
+ * Planned and actual cost. A task's planned cost is either fixed (typed in) or its assigned
+ * resources' day rates × allocation × work days; actual cost is typed in. Steps hold the sums
+ * of everything below them (see rollupSteps). Amounts carry no currency.
+ */
+
+/**
+ * Rate-based planned cost of a task or milestone, from the rates on the effective calendar.
+ */
+export const getRateCost = (item: ProjectItem, calendar: WorkCalendar = DEFAULT_CALENDAR): number => {
+  const rates = calendar.resourceRates;
+  if (!rates || item.type === 'S') return 0;
+  return (item.assignments || []).reduce((sum, a) => sum + (rates[a.resourceId] || 0) * (a.allocation / 100) * item.workDays, 0);
+};
+
+/**
+ * Sets the planned cost of a task or milestone: its fixed cost, or the rate-based cost.
+ */
+export const withPlannedCost = (item: ProjectItem, calendar: WorkCalendar = DEFAULT_CALENDAR): ProjectItem => {
+  if (item.type === 'S') return item;
+  const plannedCost = item.fixedCost ?? getRateCost(item, calendar);
+  return item.plannedCost === plannedCost ? item : { ...item, plannedCost };
+};
+
+export const formatCost = (amount: number | undefined): string =>
+  amount === undefined ? '—' : amount.toLocaleString(undefined, { maximumFractionDigits: 0 });
+
+export interface CostTotals {
+  planned: number;
+  actual: number;
+}
+
+/**
+ * Project totals, summed over tasks and milestones so nested steps are not counted twice.
+ */
+export const getCostTotals = (items: ProjectItem[]): CostTotals => items.reduce(
+  (totals, item) => item.type === 'S' ? totals : {
+    planned: totals.planned + (item.plannedCost || 0),
+    actual: totals.actual + (item.actualCost || 0)
+  },
+  { planned: 0, actual: 0 }
+);
+
+export interface CostPoint {
+  week: string;    // ISO date of the Monday the week starts on
+  planned: number; // Cumulative planned cost at the end of the week
+  actual: number;  // Cumulative actual cost at the end of the week
+}
+
+/**
+ * Cumulative planned and actual cost per week. Planned cost is spread evenly over the
+ * working days between start and end; actual cost over the actual dates, or from the start
+ * up to `asOf` while the item is not finished.
+ */
+export const getCostOverTime = (items: ProjectItem[], asOf: string, calendar: WorkCalendar = DEFAULT_CALENDAR): CostPoint[] => {
+  const planned = new Map<string, number>();
+  const actual = new Map<string, number>();
+  const spread = (target: Map<string, number>, amount: number, from: string, to: string, person: string) => {
+    const start = parseISO(from);
+    const end = parseISO(to < from ? from : to);
+    if (!amount || !isValid(start) || !isValid(end)) return;
+    const days = eachDayOfInterval({ start, end });
+    const working = days.filter(d => isWorkingDay(d, calendar, person));
+    const spreadOver = working.length > 0 ? working : [days[days.length - 1]];
+    spreadOver.forEach(day => {
+      const week = format(startOfWeek(day, { weekStartsOn: 1 }), 'yyyy-MM-dd');
+      target.set(week, (target.get(week) || 0) + amount / spreadOver.length);
+    });
+  };
+  items.forEach(item => {
+    if (item.type === 'S') return;
+    spread(planned, item.plannedCost || 0, item.start, item.end, item.accountable);
+    const from = item.actualStart || item.start;
+    spread(actual, item.actualCost || 0, from, item.actualFinish || (asOf < from ? from : asOf), item.accountable);
+  });
+
+  const weeks = Array.from(new Set([...planned.keys(), ...actual.keys()])).sort();
+  if (weeks.length === 0) return [];
+  const points: CostPoint[] = [];
+  let plannedSum = 0;
+  let actualSum = 0;
+  // Every week between the first and the last, so quiet weeks still show on the time axis
+  for (let day = parseISO(weeks[0]); format(day, 'yyyy-MM-dd') <= weeks[weeks.length - 1]; day = addWeeks(day, 1)) {
+    const week = format(day, 'yyyy-MM-dd');
+    plannedSum += planned.get(week) || 0;
+    actualSum += actual.get(week) || 0;
+    points.push({ week, planned: plannedSum, actual: actualSum });
+  }
+  return points;
+};
+
+/**
+ * The cost breakdown as CSV: one row per item, steps carrying their subtotals.
+ */
+export const exportCostBreakdown = (items: ProjectItem[], resources: Resource[], delimiter: ',' | '\t' = ','): string => {
+  const header = ['WBS', 'Type', 'Description', 'Accountable', 'Work Days', 'Cost Basis', 'Planned Cost', 'Actual Cost', 'Variance'];
+  const rows = items.map(item => {
+    const basis = item.type === 'S'
+      ? 'Subtotal'
+      : item.fixedCost !== undefined
+      ? 'Fixed'
+      : (item.assignments || []).map(a => {
+          const resource = resources.find(r => r.id === a.resourceId);
+          return resource ? `${resource.name} ${resource.rate ?? 0}/day × ${a.allocation}%` : null;
+        }).filter(Boolean).join('; ') || 'None';
+    const plannedCost = item.plannedCost || 0;
+    const actualCost = item.actualCost;
+    return [
+      item.tId,
+      item.type,
+      item.description,
+      item.accountable,
+      String(item.workDays),
+      basis,
+      String(Math.round(plannedCost * 100) / 100),
+      actualCost === undefined ? '' : String(actualCost),
+      actualCost === undefined ? '' : String(Math.round((actualCost - plannedCost) * 100) / 100)
+    ];
+  });
+  return [header, ...rows].map(r => r.map(cell => quoteCell(cell, delimiter)).join(delimiter)).join('\r\n');
+};
@@ -0,0 +1,162 @@
+
+import { addDays, format, parseISO, isValid } from 'date-fns';
+import { ProjectItem, ScheduleAnalysis, WorkCalendar } from '../types';
+import { DEFAULT_CALENDAR, addWorkingDays, countWorkingDays, isWorkingDay, snapToWorkingDay } from './calendar';
+import { isMilestone, isSchedulable, topologicalOrder } from './scheduling';
+import { getScheduledDescendants } from './wbs';
+
+/**
+ * Maps dates to working-day ordinals (0 = first working day of the project) and back,
+ * so the passes below can use plain integer arithmetic. The project range is indexed
+ * once up front; dates outside of it fall back to counting.
+ */
+const createWorkingDayIndex = (origin: Date, until: Date, calendar: WorkCalendar) => {
+  const first = snapToWorkingDay(origin, 1, calendar);
+  const forward = new Map<string, number>();  // day -> index of the same or next working day
+  const backward = new Map<string, number>(); // day -> index of the same or previous working day
+  const workDates: string[] = [];
+  let pending: string[] = [];
+
+  for (let day = first; day <= until; day = addDays(day, 1)) {
+    const iso = format(day, 'yyyy-MM-dd');
+    if (isWorkingDay(day, calendar)) {
+      pending.forEach(p => forward.set(p, workDates.length));
+      pending = [];
+      forward.set(iso, workDates.length);
+      workDates.push(iso);
+    } else {
+      pending.push(iso);
+    }
+    backward.set(iso, workDates.length - 1);
+  }
+
+  const toIndex = (dateStr: string, direction: 1 | -1): number => {
+    const known = (direction === 1 ? forward : backward).get(dateStr);
+    if (known !== undefined) return known;
+    const date = parseISO(dateStr);
+    if (!isValid(date)) return 0;
+    const snapped = snapToWorkingDay(date, direction, calendar);
+    return snapped >= first
+      ? countWorkingDays(first, snapped, calendar) - 1
+      : -countWorkingDays(snapped, addDays(first, -1), calendar);
+  };
+
+  const toDate = (index: number): string => workDates[index] ?? format(addWorkingDays(first, index, calendar), 'yyyy-MM-dd');
+
+  return { toIndex, toDate };
+};
+
+/**
+ * Forward/backward pass (CPM) over the dependency graph.
+ * Returns early/late dates, total and free float for every item; steps take the
+ * envelope of their tasks and are critical when one of their tasks is.
+ * Pure function: no React or storage access.
+ */
+export const analyzeCriticalPath = (items: ProjectItem[], calendar: WorkCalendar = DEFAULT_CALENDAR): Record<string, ScheduleAnalysis> => {
+  const tasks = items.filter(isSchedulable).filter(t => isValid(parseISO(t.start)) && isValid(parseISO(t.end)));
+  if (tasks.length === 0) return {};
+
+  const { order, cycle } = topologicalOrder(tasks);
+  if (cycle) return {};
+
+  const origin = new Date(Math.min(...tasks.map(t => parseISO(t.start).getTime())));
+  const until = new Date(Math.max(...tasks.map(t => parseISO(t.end).getTime())));
+  const { toIndex, toDate } = createWorkingDayIndex(origin, until, calendar);
+
+  const byId = new Map(tasks.map(t => [t.id, t]));
+  const duration = new Map<string, number>();
+  const es = new Map<string, number>();
+  const ef = new Map<string, number>();
+  const ls = new Map<string, number>();
+  const lf = new Map<string, number>();
+  const successors = new Map<string, { id: string; mode: string; lag: number }[]>();
+  tasks.forEach(t => successors.set(t.id, []));
+  tasks.forEach(t => (t.predecessors || []).forEach(link => {
+    if (byId.has(link.id)) successors.get(link.id)!.push({ id: t.id, mode: link.mode, lag: link.lag });
+  }));
+  // A milestone sits on its predecessor's last day, so finish-to-start needs no extra day
+  const gapBefore = (id: string) => (isMilestone(byId.get(id)!) ? 0 : 1);
+
+  // Forward pass: earliest dates allowed by the links (or the planned start when later)
+  order.forEach(id => {
+    const task = byId.get(id)!;
+    const startIdx = toIndex(task.start, 1);
+    const dur = Math.max(1, toIndex(task.end, -1) - startIdx + 1);
+    duration.set(id, dur);
+
+    let earliest = startIdx;
+    const links = (task.predecessors || []).filter(l => byId.has(l.id));
+    if (links.length > 0) {
+      earliest = Math.max(startIdx, ...links.map(link => {
+        switch (link.mode) {
+          case 'FS': return ef.get(link.id)! + gapBefore(id) + link.lag;
+          case 'SS': return es.get(link.id)! + link.lag;
+          case 'FF': return ef.get(link.id)! + link.lag - dur + 1;
+          case 'SF': return es.get(link.id)! + link.lag - dur + 1;
+        }
+      }));
+    }
+    es.set(id, earliest);
+    ef.set(id, earliest + dur - 1);
+  });
+
+  const projectFinish = Math.max(...tasks.map(t => ef.get(t.id)!));
+
+  // Backward pass: latest dates that still keep every successor (and the project end) in place
+  [...order].reverse().forEach(id => {
+    const dur = duration.get(id)!;
+    const latest = Math.min(projectFinish, ...successors.get(id)!.map(succ => {
+      switch (succ.mode) {
+        case 'FS': return ls.get(succ.id)! - gapBefore(succ.id) - succ.lag;
+        case 'SS': return ls.get(succ.id)! - succ.lag + dur - 1;
+        case 'FF': return lf.get(succ.id)! - succ.lag;
+        default: return lf.get(succ.id)! - succ.lag + dur - 1;
+      }
+    }));
+    lf.set(id, latest);
+    ls.set(id, latest - dur + 1);
+  });
+
+  const result: Record<string, ScheduleAnalysis> = {};
+  tasks.forEach(t => {
+    const id = t.id;
+    const succs = successors.get(id)!;
+    const freeFloat = succs.length === 0
+      ? projectFinish - ef.get(id)!
+      : Math.min(...succs.map(succ => {
+          switch (succ.mode) {
+            case 'FS': return es.get(succ.id)! - (ef.get(id)! + gapBefore(succ.id) + succ.lag);
+            case 'SS': return es.get(succ.id)! - (es.get(id)! + succ.lag);
+            case 'FF': return ef.get(succ.id)! - (ef.get(id)! + succ.lag);
+            default: return ef.get(succ.id)! - (es.get(id)! + succ.lag);
+          }
+        }));
+    const totalFloat = ls.get(id)! - es.get(id)!;
+    result[id] = {
+      earlyStart: toDate(es.get(id)!),
+      earlyFinish: toDate(ef.get(id)!),
+      lateStart: toDate(ls.get(id)!),
+      lateFinish: toDate(lf.get(id)!),
+      totalFloat,
+      freeFloat: Math.max(0, Math.min(freeFloat, totalFloat)),
+      critical: totalFloat <= 0
+    };
+  });
+
+  items.forEach((step, idx) => {
+    if (step.type !== 'S') return;
+    const children = getScheduledDescendants(items, idx).filter(t => result[t.id]).map(t => result[t.id]);
+    if (children.length === 0) return;
+    result[step.id] = {
+      earlyStart: children.map(c => c.earlyStart).sort()[0],
+      earlyFinish: children.map(c => c.earlyFinish).sort().reverse()[0],
+      lateStart: children.map(c => c.lateStart).sort()[0],
+      lateFinish: children.map(c => c.lateFinish).sort().reverse()[0],
+      totalFloat: Math.min(...children.map(c => c.totalFloat)),
+      freeFloat: Math.min(...children.map(c => c.freeFloat)),
+      critical: children.some(c => c.critical)
+    };
+  });
+
+  return result;
+};
@@ -0,0 +1,266 @@
+
+import { v4 as uuidv4 } from 'uuid';
+import { format, parse, isValid } from 'date-fns';
+import { ItemType, ProjectItem, WorkCalendar } from '../types';
+import { DEFAULT_CALENDAR } from './calendar';
+import { calculateEndDate, calculateWorkDays, STEP_COLORS } from './dateHelpers';
+import { formatPredecessors, parsePredecessors } from './scheduling';
+import { buildOutline } from './wbs';
+
+/**
+ * CSV / TSV round trip of project items using the same columns as the table.
+ */
+
+export type CsvField = 'sId' | 'tId' | 'type' | 'description' | 'accountable' | 'workDays' | 'start' | 'end' | 'progress' | 'predecessors';
+
+export const CSV_COLUMNS: { field: CsvField; header: string; aliases: string[]; required?: boolean }[] = [
+  { field: 'sId', header: 'S ID', aliases: ['sid', 'step id', 'step'] },
+  { field: 'tId', header: 'WBS', aliases: ['t id', 'tid', 'task id', 'wbs code', 'outline number'] },
+  { field: 'type', header: 'Type', aliases: ['item type', 'kind'] },
+  { field: 'description', header: 'Description', aliases: ['name', 'task', 'task name', 'title'], required: true },
+  { field: 'accountable', header: 'Accountable', aliases: ['owner', 'responsible', 'resource', 'person'] },
+  { field: 'workDays', header: 'Days', aliases: ['work days', 'workdays', 'duration'] },
+  { field: 'start', header: 'Start', aliases: ['start date', 'begin'] },
+  { field: 'end', header: 'End', aliases: ['end date', 'finish', 'finish date'] },
+  { field: 'progress', header: 'Progress', aliases: ['% progress', '%', 'percent complete', '% complete'] },
+  { field: 'predecessors', header: 'Mode', aliases: ['predecessors', 'links', 'dependencies'] }
+];
+
+export type ColumnMapping = Record<CsvField, number>; // Column index per field, -1 when not mapped
+
+export const DATE_FORMATS = ['yyyy-MM-dd', 'dd/MM/yyyy', 'MM/dd/yyyy', 'dd.MM.yyyy', 'yyyy/MM/dd', 'dd-MMM-yy', 'd-MMM-yyyy', 'M/d/yy', 'd/M/yy'];
+
+export interface CsvRowError {
+  row: number;     // 1-based line number in the file, header included
+  message: string;
+}
+
+// --- EXPORT ---
+
+export const quoteCell = (value: string, delimiter: string): string => {
+  if (value.includes('"') || value.includes(delimiter) || value.includes('\n') || value.includes('\r')) {
+    return `"${value.replace(/"/g, '""')}"`;
+  }
+  return value;
+};
+
+/**
+ * Serializes items as CSV (or TSV with a tab delimiter). The Mode column holds the
+ * predecessor notation shown in the table, e.g. "1.2FS+3; 2.1SS".
+ */
+export const exportItemsToDelimited = (items: ProjectItem[], delimiter: ',' | '\t' = ','): string => {
+  const header = CSV_COLUMNS.map(c => c.header);
+  const rows = items.map(item => [
+    String(item.sId),
+    item.tId,
+    item.type,
+    item.description,
+    item.accountable,
+    String(item.workDays),
+    item.start,
+    item.end,
+    String(item.progress),
+    formatPredecessors(item, items)
+  ]);
+  return [header, ...rows].map(r => r.map(cell => quoteCell(cell, delimiter)).join(delimiter)).join('\r\n');
+};
+
+// --- IMPORT ---
+
+/**
+ * Guesses the delimiter from the header line: tabs (spreadsheet paste), then semicolons, then commas.
+ */
+export const detectDelimiter = (text: string): string => {
+  const firstLine = text.split(/\r?\n/)[0] || '';
+  if (firstLine.includes('\t')) return '\t';
+  if ((firstLine.match(/;/g) || []).length > (firstLine.match(/,/g) || []).length) return ';';
+  return ',';
+};
+
+/**
+ * RFC 4180 style parser: quoted cells, escaped quotes and line breaks inside quotes.
+ */
+export const parseDelimited = (text: string, delimiter: string): string[][] => {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let cell = '';
+  let inQuotes = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    if (inQuotes) {
+      if (char === '"' && text[i + 1] === '"') { cell += '"'; i++; }
+      else if (char === '"') inQuotes = false;
+      else cell += char;
+    } else if (char === '"' && cell === '') {
+      inQuotes = true;
+    } else if (char === delimiter) {
+      row.push(cell); cell = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && text[i + 1] === '\n') i++;
+      row.push(cell); cell = '';
+      rows.push(row); row = [];
+    } else {
+      cell += char;
+    }
+  }
+  if (cell !== '' || row.length > 0) {
+    row.push(cell);
+    rows.push(row);
+  }
+  return rows.filter(r => r.some(c => c.trim() !== ''));
+};
+
+const normalizeHeader = (header: string): string => header.trim().toLowerCase().replace(/\s+/g, ' ');
+
+export const guessColumnMapping = (headers: string[]): ColumnMapping => {
+  const normalized = headers.map(normalizeHeader);
+  const mapping = {} as ColumnMapping;
+  CSV_COLUMNS.forEach(col => {
+    const names = [normalizeHeader(col.header), ...col.aliases];
+    mapping[col.field] = normalized.findIndex(h => names.includes(h));
+  });
+  return mapping;
+};
+
+const parseDate = (value: string, dateFormat: string): string | null => {
+  const parsed = parse(value.trim(), dateFormat, new Date(2000, 0, 1));
+  return isValid(parsed) ? format(parsed, 'yyyy-MM-dd') : null;
+};
+
+/**
+ * Picks the first known format that reads every non-empty date cell.
+ */
+export const detectDateFormat = (values: string[]): string | null => {
+  const samples = values.map(v => v.trim()).filter(Boolean);
+  if (samples.length === 0) return DATE_FORMATS[0];
+  return DATE_FORMATS.find(f => samples.every(v => parseDate(v, f) !== null)) || null;
+};
+
+const parseType = (value: string): ItemType | null => {
+  const v = value.trim().toUpperCase();
+  if (v === 'S' || v === 'STEP' || v === 'PHASE') return 'S';
+  if (v === 'T' || v === 'TASK' || v === '') return 'T';
+  if (v === 'M' || v === 'MILESTONE') return 'M';
+  return null;
+};
+
+/**
+ * Turns parsed rows into project items. Rows with errors are skipped and reported;
+ * links are resolved against the T IDs in the file before the caller re-indexes.
+ */
+export const buildItemsFromRows = (
+  rows: string[][],
+  mapping: ColumnMapping,
+  dateFormat: string,
+  calendar: WorkCalendar = DEFAULT_CALENDAR
+): { items: ProjectItem[]; errors: CsvRowError[]; warnings: string[] } => {
+  const errors: CsvRowError[] = [];
+  const warnings: string[] = [];
+  const items: ProjectItem[] = [];
+  const linkText = new Map<string, string>();
+  const cell = (row: string[], field: CsvField) => (mapping[field] >= 0 ? (row[mapping[field]] || '').trim() : '');
+
+  rows.slice(1).forEach((row, idx) => {
+    const line = idx + 2;
+    const description = cell(row, 'description');
+    const type = parseType(cell(row, 'type'));
+    const accountable = cell(row, 'accountable');
+    const rowErrors: string[] = [];
+
+    if (!description) rowErrors.push('Description is empty');
+    if (!type) rowErrors.push(`Type "${cell(row, 'type')}" must be S, T or M`);
+
+    const startRaw = cell(row, 'start');
+    const endRaw = cell(row, 'end');
+    const start = startRaw ? parseDate(startRaw, dateFormat) : null;
+    const endParsed = endRaw ? parseDate(endRaw, dateFormat) : null;
+    if (!startRaw) rowErrors.push('Start date is empty');
+    else if (!start) rowErrors.push(`Start "${startRaw}" does not match ${dateFormat}`);
+    if (endRaw && !endParsed) rowErrors.push(`End "${endRaw}" does not match ${dateFormat}`);
+    if (start && endParsed && endParsed < start) rowErrors.push('End is before start');
+
+    const daysRaw = cell(row, 'workDays');
+    const days = daysRaw ? Number(daysRaw) : NaN;
+    if (daysRaw && type !== 'M' && (!Number.isInteger(days) || days < 1)) rowErrors.push(`Days "${daysRaw}" must be a whole number of at least 1`);
+    if (!daysRaw && !endRaw && type === 'T') rowErrors.push('Either Days or End is required');
+
+    const progressRaw = cell(row, 'progress').replace('%', '');
+    const progress = progressRaw ? Number(progressRaw) : 0;
+    if (progressRaw && (isNaN(progress) || progress < 0 || progress > 100)) rowErrors.push(`Progress "${progressRaw}" must be between 0 and 100`);
+
+    if (rowErrors.length > 0 || !type || !start) {
+      rowErrors.forEach(message => errors.push({ row: line, message }));
+      return;
+    }
+
+    // Days win over End when both are given and disagree, like editing Days in the table
+    let workDays = type === 'M' ? 0 : Number.isInteger(days) && days >= 1 ? days : calculateWorkDays(start, endParsed!, calendar, accountable);
+    let end = calculateEndDate(start, workDays, calendar, accountable);
+    if (endParsed && daysRaw && end !== endParsed) {
+      warnings.push(`Row ${line}: End ${endParsed} does not match ${workDays} working days; End was recalculated to ${end}.`);
+    }
+    if (type === 'S') {
+      workDays = calculateWorkDays(start, endParsed || end, calendar);
+      end = endParsed || end;
+    }
+
+    // A WBS code gives the outline level; rows without one follow the step above
+    const code = cell(row, 'tId');
+    const item: ProjectItem = {
+      id: uuidv4(),
+      sId: parseInt(cell(row, 'sId'), 10) || 0,
+      tId: /^\d+(\.\d+)*$/.test(code) ? code : '',
+      type,
+      level: /^\d+(\.\d+)*$/.test(code) ? code.split('.').length - 1 : undefined,
+      description,
+      accountable,
+      workDays,
+      start: type === 'M' ? end : start,
+      end,
+      progress: Math.round(progress),
+      predecessors: [],
+      color: STEP_COLORS[0]
+    };
+    items.push(item);
+    const links = cell(row, 'predecessors');
+    if (links) linkText.set(item.id, links);
+  });
+
+  // Rows without a level sit right below the step above them
+  let stepLevel = -1;
+  items.forEach(item => {
+    if (item.level === undefined) item.level = item.type === 'S' ? Math.max(0, stepLevel) : stepLevel + 1;
+    if (item.type === 'S') stepLevel = item.level;
+  });
+
+  if (items.length > 0 && items[0].type !== 'S') {
+    const first = items[0];
+    items.unshift({
+      id: uuidv4(), sId: 1, tId: '', type: 'S', level: 0, description: 'Imported Tasks', accountable: '',
+      workDays: first.workDays, start: first.start, end: first.end, progress: 0, predecessors: [], color: STEP_COLORS[0]
+    });
+    warnings.push('The first rows had no step; they were grouped under an "Imported Tasks" step.');
+  }
+
+  // Rows without a WBS code get the one re-indexing would give them, so links can still refer to them
+  const outline = buildOutline(items);
+  items.forEach((item, idx) => { if (!item.tId) item.tId = outline[idx].code; });
+
+  // Resolve links. A bare mode ("FS") is the old export format: link to the task right above.
+  items.forEach((item, idx) => {
+    const text = linkText.get(item.id);
+    if (!text || item.type === 'S') return;
+    const bareMode = text.trim().toUpperCase();
+    if (['FS', 'SS', 'FF', 'SF'].includes(bareMode)) {
+      const prev = items[idx - 1];
+      if (prev && prev.type !== 'S') item.predecessors = [{ id: prev.id, mode: bareMode as ProjectItem['predecessors'][number]['mode'], lag: 0 }];
+      return;
+    }
+    const { predecessors, errors: linkErrors } = parsePredecessors(text, item, items);
+    item.predecessors = predecessors;
+    linkErrors.forEach(message => warnings.push(`"${item.description}": ${message}; link dropped.`));
+  });
+
+  return { items, errors, warnings };
+};
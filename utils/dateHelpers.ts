@@ -1,5 +1,7 @@
 
-import { addDays, differenceInDays, format, parseISO, isValid } from 'date-fns';
+import { addDays, format, parseISO, isValid } from 'date-fns';
+import { WorkCalendar } from '../types';
+import { DEFAULT_CALENDAR, addWorkingDays, countWorkingDays, snapToWorkingDay } from './calendar';
 
 /**
  * Formats a date string to DD-MMM-YY (e.g., 25-OCT-25)
@@ -11,29 +13,51 @@ export const formatProjectDate = (date: Date | string): string => {
   return format(d, 'dd-MMM-yy').toUpperCase();
 };
 
-export const calculateEndDate = (startDateStr: string, days: number): string => {
+export const calculateEndDate = (startDateStr: string, days: number, calendar: WorkCalendar = DEFAULT_CALENDAR, person?: string): string => {
   const start = parseISO(startDateStr);
   if (!isValid(start)) return format(new Date(), 'yyyy-MM-dd');
   // Subtracting 1 because day 1 is the start day itself
-  const end = addDays(start, Math.max(0, days - 1));
+  const firstDay = snapToWorkingDay(start, 1, calendar, person);
+  const end = addWorkingDays(firstDay, Math.max(0, days - 1), calendar, person);
   return format(end, 'yyyy-MM-dd');
 };
 
-export const calculateStartDate = (endDateStr: string, days: number): string => {
+export const calculateStartDate = (endDateStr: string, days: number, calendar: WorkCalendar = DEFAULT_CALENDAR, person?: string): string => {
   const end = parseISO(endDateStr);
   if (!isValid(end)) return format(new Date(), 'yyyy-MM-dd');
-  // end = start + days - 1  => start = end - days + 1
-  const start = addDays(end, -(Math.max(0, days - 1)));
+  // end = start + days - 1  => start = end - days + 1 (in working days)
+  const lastDay = snapToWorkingDay(end, -1, calendar, person);
+  const start = Math.max(0, days - 1) === 0 ? lastDay : addWorkingDays(lastDay, -(days - 1), calendar, person);
   return format(start, 'yyyy-MM-dd');
 };
 
-export const calculateWorkDays = (startStr: string, endStr: string): number => {
+export const calculateWorkDays = (startStr: string, endStr: string, calendar: WorkCalendar = DEFAULT_CALENDAR, person?: string): number => {
   const start = parseISO(startStr);
   const end = parseISO(endStr);
   if (!isValid(start) || !isValid(end)) return 1;
-  // Adding 1 to include both start and end dates
-  const diff = differenceInDays(end, start) + 1;
-  return Math.max(1, diff);
+  // Both start and end dates are included when they are working days
+  return Math.max(1, countWorkingDays(start, end, calendar, person));
+};
+
+/**
+ * Shifts a date by a number of working days, used for dependency lags.
+ */
+export const shiftWorkingDays = (dateStr: string, days: number, calendar: WorkCalendar = DEFAULT_CALENDAR, person?: string): string => {
+  const date = parseISO(dateStr);
+  if (!isValid(date)) return dateStr;
+  return format(addWorkingDays(date, days, calendar, person), 'yyyy-MM-dd');
+};
+
+/**
+ * Signed number of working days from one date to another (positive when `toStr` is later).
+ */
+export const getWorkingDayOffset = (fromStr: string, toStr: string, calendar: WorkCalendar = DEFAULT_CALENDAR): number => {
+  const from = parseISO(fromStr);
+  const to = parseISO(toStr);
+  if (!isValid(from) || !isValid(to) || fromStr === toStr) return 0;
+  return to > from
+    ? countWorkingDays(addDays(from, 1), to, calendar)
+    : -countWorkingDays(addDays(to, 1), from, calendar);
 };
 
 export const getProjectDateRange = (items: { start: string; end: string }[]) => {
@@ -0,0 +1,22 @@
+
+/**
+ * Triggers a browser download for generated content.
+ */
+export const downloadFile = (filename: string, content: string | Blob, mimeType: string) => {
+  const blob = content instanceof Blob ? content : new Blob([content], { type: mimeType });
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  document.body.appendChild(link);
+  link.click();
+  document.body.removeChild(link);
+  setTimeout(() => URL.revokeObjectURL(url), 1000);
+};
+
+/**
+ * Turns a project name into a safe file name stem.
+ */
+export const toFileStem = (name: string): string => {
+  return name.trim().replace(/[^a-z0-9-_]+/gi, '_').replace(/^_+|_+$/g, '') || 'project';
+};
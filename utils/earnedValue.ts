@@ -0,0 +1,86 @@
+
+import { ProjectItem, WorkCalendar } from '../types';
+import { DEFAULT_CALENDAR } from './calendar';
+import { calculateWorkDays } from './dateHelpers';
+import { getScheduledDescendants } from './wbs';
+
+/**
+ * Earned value on the status date. The budget of a task is its work days, so every value is
+ * in work days of effort: planned value is the share of the budget the plan says should be
+ * done by the end of the status date, earned value the share that is done (progress, or all
+ * of it once the task has an actual finish). Milestones have no budget; they only count as
+ * behind when their date has passed unfinished.
+ */
+export interface EarnedValue {
+  budget: number;
+  planned: number;          // PV
+  earned: number;           // EV
+  scheduleVariance: number; // SV = EV - PV, negative when behind
+  spi: number | null;       // SPI = EV / PV, null before anything was planned
+  expectedProgress: number; // Percent the plan expects by the status date
+}
+
+export interface EarnedValueReport {
+  items: Record<string, EarnedValue>; // Tasks, milestones and steps (summed over their subtree)
+  project: EarnedValue;
+  behind: string[];                   // Ids of tasks and milestones behind their plan
+}
+
+// Progress that counts: an actual finish means the work is done whatever the percent says
+export const getEffectiveProgress = (item: ProjectItem): number => item.actualFinish ? 100 : item.progress;
+
+/**
+ * Percent of the item the plan expects to be done by the end of `statusDate`.
+ */
+export const getExpectedProgress = (item: ProjectItem, statusDate: string, calendar: WorkCalendar = DEFAULT_CALENDAR): number => {
+  if (statusDate < item.start) return 0;
+  if (statusDate >= item.end || item.workDays === 0) return 100;
+  const elapsed = calculateWorkDays(item.start, statusDate, calendar, item.accountable);
+  return Math.min(100, Math.round((elapsed / item.workDays) * 100));
+};
+
+const toEarnedValue = (budget: number, planned: number, earned: number, expectedProgress: number): EarnedValue => ({
+  budget,
+  planned,
+  earned,
+  scheduleVariance: earned - planned,
+  spi: planned > 0 ? earned / planned : null,
+  expectedProgress
+});
+
+const sum = (values: EarnedValue[]): EarnedValue => {
+  const budget = values.reduce((total, v) => total + v.budget, 0);
+  const planned = values.reduce((total, v) => total + v.planned, 0);
+  const earned = values.reduce((total, v) => total + v.earned, 0);
+  return toEarnedValue(budget, planned, earned, budget > 0 ? Math.round((planned / budget) * 100) : 0);
+};
+
+/**
+ * PV, EV, SV and SPI for every item, every step and the whole project.
+ */
+export const getEarnedValueReport = (list: ProjectItem[], statusDate: string, calendar: WorkCalendar = DEFAULT_CALENDAR): EarnedValueReport => {
+  const items: Record<string, EarnedValue> = {};
+  const behind: string[] = [];
+  list.forEach(item => {
+    if (item.type === 'S') return;
+    const expected = getExpectedProgress(item, statusDate, calendar);
+    const progress = getEffectiveProgress(item);
+    const budget = item.type === 'T' ? item.workDays : 0;
+    items[item.id] = toEarnedValue(budget, (budget * expected) / 100, (budget * progress) / 100, expected);
+    if (progress < expected) behind.push(item.id);
+  });
+  list.forEach((item, index) => {
+    if (item.type === 'S') items[item.id] = sum(getScheduledDescendants(list, index).map(child => items[child.id]));
+  });
+  return { items, project: sum(list.filter(i => i.type !== 'S').map(i => items[i.id])), behind };
+};
+
+/**
+ * Work days with one decimal, signed when asked, e.g. "-2.5d".
+ */
+export const formatEffort = (days: number, signed = false): string => {
+  const rounded = Math.round(days * 10) / 10;
+  return `${signed && rounded > 0 ? '+' : ''}${rounded}d`;
+};
+
+export const formatSpi = (spi: number | null): string => spi === null ? '—' : spi.toFixed(2);
@@ -0,0 +1,131 @@
+
+import { parseISO, startOfDay, isValid, getISOWeek, getISOWeekYear, getQuarter } from 'date-fns';
+import { ZoomLevel } from '../types';
+
+const MS_PER_DAY = 24 * 60 * 60 * 1000;
+
+// Timezone-free day numbers so lookups are plain array indexing
+const dayNumberOfDate = (date: Date): number => Math.round(Date.UTC(date.getFullYear(), date.getMonth(), date.getDate()) / MS_PER_DAY);
+
+const dayNumberOf = (value: Date | string): number | null => {
+  if (value instanceof Date) return isValid(value) ? dayNumberOfDate(value) : null;
+  const match = /^(\d{4})-(\d{2})-(\d{2})/.exec(value);
+  if (match) return Math.round(Date.UTC(+match[1], +match[2] - 1, +match[3]) / MS_PER_DAY);
+  const parsed = startOfDay(parseISO(value));
+  return isValid(parsed) ? dayNumberOfDate(parsed) : null;
+};
+
+/**
+ * Precomputed date → column lookups for the visible timeline. Built once per timeline so
+ * placing a bar is O(1) instead of scanning the visible dates.
+ */
+export interface ColumnIndex {
+  dates: Date[];
+  firstDay: number;       // Day number of the first column
+  atOrAfter: Int32Array;  // Per calendar day from firstDay: the first visible column on or after it
+  atOrBefore: Int32Array; // Per calendar day from firstDay: the last visible column on or before it
+}
+
+export const createColumnIndex = (visibleDates: Date[]): ColumnIndex => {
+  if (visibleDates.length === 0) return { dates: visibleDates, firstDay: 0, atOrAfter: new Int32Array(0), atOrBefore: new Int32Array(0) };
+  const dayNumbers = visibleDates.map(dayNumberOfDate);
+  const firstDay = dayNumbers[0];
+  const length = dayNumbers[dayNumbers.length - 1] - firstDay + 1;
+  const atOrAfter = new Int32Array(length).fill(-1);
+  const atOrBefore = new Int32Array(length).fill(-1);
+  dayNumbers.forEach((day, col) => {
+    atOrAfter[day - firstDay] = col;
+    atOrBefore[day - firstDay] = col;
+  });
+  for (let i = 1; i < length; i++) if (atOrBefore[i] === -1) atOrBefore[i] = atOrBefore[i - 1];
+  for (let i = length - 2; i >= 0; i--) if (atOrAfter[i] === -1) atOrAfter[i] = atOrAfter[i + 1];
+  return { dates: visibleDates, firstDay, atOrAfter, atOrBefore };
+};
+
+/**
+ * Column where a date is drawn: its own column, or the next visible one when the date is hidden.
+ * Dates before the timeline map to the first column; returns -1 after the timeline.
+ */
+export const getColumnAtOrAfter = (columns: ColumnIndex, date: Date | string): number => {
+  const day = dayNumberOf(date);
+  if (day === null || columns.dates.length === 0) return -1;
+  const offset = day - columns.firstDay;
+  if (offset < 0) return 0;
+  return offset >= columns.atOrAfter.length ? -1 : columns.atOrAfter[offset];
+};
+
+const getColumnAtOrBefore = (columns: ColumnIndex, date: Date | string): number => {
+  const day = dayNumberOf(date);
+  if (day === null || columns.dates.length === 0) return -1;
+  const offset = day - columns.firstDay;
+  if (offset < 0) return -1;
+  return offset >= columns.atOrBefore.length ? columns.dates.length - 1 : columns.atOrBefore[offset];
+};
+
+/**
+ * Finds the first and last visible column covered by a date range.
+ * Dates that fall on hidden days snap inward to the closest visible column.
+ */
+export const getVisibleSpan = (columns: ColumnIndex, startStr: string, endStr: string): { first: number; last: number } | null => {
+  const first = getColumnAtOrAfter(columns, startStr);
+  const last = getColumnAtOrBefore(columns, endStr);
+  if (first === -1 || last === -1 || first > last) return null;
+  return { first, last };
+};
+
+// Pixel width of one day column for each preset zoom level
+export const ZOOM_DAY_WIDTHS: Record<ZoomLevel, number> = { day: 32, week: 10, month: 3, quarter: 1.2 };
+export const MIN_DAY_WIDTH = 0.5;
+export const MAX_DAY_WIDTH = 64;
+
+/**
+ * The zoom level whose header tiers suit a given day width, so free zooming (Ctrl+scroll,
+ * fit to project) still picks readable headers.
+ */
+export const getZoomLevel = (dayWidth: number): ZoomLevel => {
+  if (dayWidth >= 20) return 'day';
+  if (dayWidth >= 6) return 'week';
+  if (dayWidth >= 2) return 'month';
+  return 'quarter';
+};
+
+export type TimelineUnit = 'year' | 'quarter' | 'month' | 'week';
+
+export interface TimelineSegment {
+  first: number;  // Visible column index where the segment starts
+  last: number;
+  date: Date;     // First visible date in the segment
+}
+
+const UNIT_KEY: Record<TimelineUnit, (d: Date) => number> = {
+  year: d => d.getFullYear(),
+  quarter: d => d.getFullYear() * 4 + getQuarter(d),
+  month: d => d.getFullYear() * 12 + d.getMonth(),
+  week: d => getISOWeekYear(d) * 100 + getISOWeek(d)
+};
+
+/**
+ * Groups consecutive visible columns by calendar unit. Works on the visible columns rather
+ * than on calendar days, so segments stay aligned when weekends are hidden.
+ */
+export const getTimelineSegments = (visibleDates: Date[], unit: TimelineUnit): TimelineSegment[] => {
+  const key = UNIT_KEY[unit];
+  const segments: TimelineSegment[] = [];
+  let prevKey: number | null = null;
+  visibleDates.forEach((date, i) => {
+    const k = key(date);
+    if (k !== prevKey) {
+      segments.push({ first: i, last: i, date });
+      prevKey = k;
+    } else {
+      segments[segments.length - 1].last = i;
+    }
+  });
+  return segments;
+};
+
+/**
+ * SVG polygon points of the diamond drawn for a milestone, centred on (cx, cy).
+ */
+export const getMilestonePoints = (cx: number, cy: number, half: number): string =>
+  `${cx},${cy - half} ${cx + half},${cy} ${cx},${cy + half} ${cx - half},${cy}`;
@@ -0,0 +1,109 @@
+
+import { v4 as uuidv4 } from 'uuid';
+import { Project, ProjectItem, WorkCalendar } from '../types';
+import { formatProjectDate, getWorkingDayOffset } from './dateHelpers';
+import { diffProjects, mergeProjectPatch, ProjectPatch } from './merge';
+
+/**
+ * Undo history made of commands: each entry keeps only the fields its change touched, as a
+ * patch in each direction, so the history can be deep without copying the plan per step.
+ * Undoing applies the entry's `undo` patch to the current project like a merge, so fields
+ * changed since by someone else (another tab, the sync server) are left alone.
+ */
+export interface HistoryEntry {
+  id: string;
+  label: string;       // e.g. "Moved 'Design' +3d"
+  at: number;          // Time of the (last) change
+  undo: ProjectPatch;
+  redo: ProjectPatch;
+  coalesceKey?: string; // Quick repeats of the same edit (typing in a cell) share one entry
+}
+
+export interface ProjectHistory {
+  entries: HistoryEntry[];
+  index: number; // Number of entries currently applied; entries from here on can be redone
+}
+
+export const MAX_HISTORY = 200;
+const COALESCE_MS = 1500;
+
+export const EMPTY_HISTORY: ProjectHistory = { entries: [], index: 0 };
+
+// A label can depend on the state before the change, which moves back when entries coalesce
+export type CommandLabel = string | ((before: Project) => string);
+
+/**
+ * Adds a change to the history, dropping whatever could still be redone. Returns the
+ * history unchanged when `before` and `after` do not differ.
+ */
+export const recordCommand = (
+  history: ProjectHistory = EMPTY_HISTORY,
+  label: CommandLabel,
+  before: Project,
+  after: Project,
+  coalesceKey?: string
+): ProjectHistory => {
+  const applied = history.entries.slice(0, history.index);
+  const last = applied[applied.length - 1];
+  let base = before;
+  if (coalesceKey && last?.coalesceKey === coalesceKey && Date.now() - last.at < COALESCE_MS) {
+    // Fold into the previous entry: one entry from the state before it to now
+    base = mergeProjectPatch(before, last.undo).project;
+    applied.pop();
+  }
+  const redo = diffProjects(base, after);
+  const undo = diffProjects(after, base);
+  if (!redo || !undo) return { entries: applied, index: applied.length };
+  const entryLabel = typeof label === 'string' ? label : label(base);
+  const entries = [...applied, { id: uuidv4(), label: entryLabel, at: Date.now(), undo, redo, coalesceKey }].slice(-MAX_HISTORY);
+  return { entries, index: entries.length };
+};
+
+/**
+ * Moves the project to the point where `target` entries are applied. Fields that were
+ * changed elsewhere since an entry was recorded keep their current value.
+ */
+export const travelTo = (project: Project, history: ProjectHistory, target: number): { project: Project; skipped: number } => {
+  let current = project;
+  let skipped = 0;
+  const goal = Math.max(0, Math.min(target, history.entries.length));
+  for (let i = history.index - 1; i >= goal; i--) {
+    const { project: next, conflicts } = mergeProjectPatch(current, history.entries[i].undo);
+    current = next;
+    skipped += conflicts.length;
+  }
+  for (let i = history.index; i < goal; i++) {
+    const { project: next, conflicts } = mergeProjectPatch(current, history.entries[i].redo);
+    current = next;
+    skipped += conflicts.length;
+  }
+  return { project: current, skipped };
+};
+
+const quote = (item: ProjectItem) => `'${item.description || item.tId}'`;
+const signed = (days: number) => `${days >= 0 ? '+' : ''}${days}d`;
+
+/**
+ * A readable label for an edit of one item's fields.
+ */
+export const describeItemEdit = (item: ProjectItem, updates: Partial<ProjectItem>, calendar: WorkCalendar): string => {
+  const keys = Object.keys(updates);
+  const name = quote(item);
+  if (keys.length === 1 && updates.start !== undefined) {
+    const offset = getWorkingDayOffset(item.start, updates.start, calendar);
+    return offset === 0 ? `Moved ${name} to ${formatProjectDate(updates.start)}` : `Moved ${name} ${signed(offset)}`;
+  }
+  if (updates.start !== undefined) return `Changed start of ${name} to ${formatProjectDate(updates.start)}`;
+  if (updates.end !== undefined) return `Changed end of ${name} to ${formatProjectDate(updates.end)}`;
+  if (updates.description !== undefined) return `Renamed ${name} to '${updates.description}'`;
+  if (updates.workDays !== undefined) return `Set ${name} to ${updates.workDays} work day${updates.workDays === 1 ? '' : 's'}`;
+  if ('actualFinish' in updates) return updates.actualFinish ? `Finished ${name} on ${formatProjectDate(updates.actualFinish)}` : `Cleared the actual finish of ${name}`;
+  if ('actualStart' in updates) return updates.actualStart ? `Started ${name} on ${formatProjectDate(updates.actualStart)}` : `Cleared the actual start of ${name}`;
+  if ('fixedCost' in updates) return updates.fixedCost === undefined ? `Priced ${name} from resource rates` : `Set the cost of ${name} to ${updates.fixedCost}`;
+  if ('actualCost' in updates) return updates.actualCost === undefined ? `Cleared the actual cost of ${name}` : `Set the actual cost of ${name} to ${updates.actualCost}`;
+  if (updates.progress !== undefined) return `Set ${name} progress to ${updates.progress}%`;
+  if (updates.predecessors !== undefined) return `Changed links of ${name}`;
+  if (updates.assignments !== undefined) return `Changed assignments of ${name}`;
+  if (updates.type !== undefined) return `Made ${name} a ${updates.type === 'S' ? 'step' : updates.type === 'M' ? 'milestone' : 'task'}`;
+  return `Edited ${name}`;
+};
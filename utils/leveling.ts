@@ -0,0 +1,197 @@
+
+import { addDays, differenceInCalendarDays, format, parseISO } from 'date-fns';
+import { ProjectItem, Resource, WorkCalendar } from '../types';
+import { DEFAULT_CALENDAR, isWorkingDay } from './calendar';
+import { calculateEndDate, getWorkingDayOffset, shiftWorkingDays } from './dateHelpers';
+import { analyzeCriticalPath } from './criticalPath';
+import { getLinkedDates, isSchedulable, topologicalOrder } from './scheduling';
+import { buildOutline } from './wbs';
+
+export interface LevelingOptions {
+  pastFloat: boolean; // Allow delays beyond total float and past the end of the task's step
+}
+
+export interface LevelingMove {
+  id: string;
+  fromStart: string;
+  fromEnd: string;
+  toStart: string;
+  toEnd: string;
+  delay: number;      // Working days on the project calendar
+}
+
+export interface LevelingResult {
+  items: ProjectItem[];
+  moves: LevelingMove[];
+  unresolved: string[];   // Tasks still over-allocated after leveling
+  overloadBefore: number; // Resource-days above capacity
+  overloadAfter: number;
+  cycle: boolean;         // The links form a cycle; nothing was moved
+}
+
+// How far a single task may be pushed (calendar days) when delays past float are allowed
+const MAX_DELAY_DAYS = 730;
+const MAX_ATTEMPTS = 2000;
+
+type LoadMap = Map<string, Map<string, number>>; // Resource id -> ISO day -> allocated percent
+
+const forEachDay = (start: string, end: string, visit: (date: Date, iso: string) => boolean | void) => {
+  for (let day = parseISO(start), last = parseISO(end); day <= last; day = addDays(day, 1)) {
+    if (visit(day, format(day, 'yyyy-MM-dd')) === false) return;
+  }
+};
+
+// Milestones take no time, so their owners are not loaded by them
+const loadingAssignments = (item: ProjectItem) => (item.type === 'T' ? item.assignments || [] : []);
+
+const addLoad = (load: LoadMap, item: ProjectItem, start: string, end: string, resources: Map<string, Resource>, calendar: WorkCalendar) => {
+  loadingAssignments(item).forEach(a => {
+    const resource = resources.get(a.resourceId);
+    if (!resource) return;
+    let days = load.get(resource.id);
+    if (!days) load.set(resource.id, days = new Map());
+    forEachDay(start, end, (date, iso) => {
+      if (isWorkingDay(date, calendar, resource.name)) days!.set(iso, (days!.get(iso) || 0) + a.allocation);
+    });
+  });
+};
+
+/**
+ * First day in [start, end] on which one of the item's resources would go over capacity.
+ */
+const findConflict = (load: LoadMap, item: ProjectItem, start: string, end: string, resources: Map<string, Resource>, calendar: WorkCalendar): string | null => {
+  let conflict: string | null = null;
+  loadingAssignments(item).forEach(a => {
+    const resource = resources.get(a.resourceId);
+    if (!resource) return;
+    const days = load.get(resource.id);
+    forEachDay(start, conflict && conflict < end ? conflict : end, (date, iso) => {
+      if (!isWorkingDay(date, calendar, resource.name)) return;
+      if ((days?.get(iso) || 0) + a.allocation > resource.capacity) {
+        conflict = iso;
+        return false;
+      }
+    });
+  });
+  return conflict;
+};
+
+const countOverload = (load: LoadMap, resources: Map<string, Resource>): number => {
+  let count = 0;
+  load.forEach((days, id) => days.forEach(value => { if (value > resources.get(id)!.capacity) count++; }));
+  return count;
+};
+
+/**
+ * Delays tasks until no resource is loaded above its capacity (serial leveling).
+ *
+ * Tasks are placed in dependency order; among the tasks whose predecessors are placed, the
+ * one with the least total float goes first, then the earliest, then the higher row, so
+ * critical work keeps its dates and tasks with slack give way. A task is only ever
+ * moved later, always satisfies its links, and without `pastFloat` stays within its float and
+ * its step's current finish. Started tasks (progress > 0) only follow their links. Tasks that
+ * cannot be fitted are left at their link-driven dates and reported as unresolved.
+ */
+export const levelResources = (
+  items: ProjectItem[],
+  resources: Resource[],
+  calendar: WorkCalendar = DEFAULT_CALENDAR,
+  { pastFloat }: LevelingOptions = { pastFloat: false }
+): LevelingResult => {
+  const registry = new Map(resources.map(r => [r.id, r]));
+  const tasks = items.filter(isSchedulable);
+
+  const initialLoad: LoadMap = new Map();
+  tasks.forEach(t => addLoad(initialLoad, t, t.start, t.end, registry, calendar));
+  const overloadBefore = countOverload(initialLoad, registry);
+
+  if (topologicalOrder(tasks).cycle) {
+    return { items, moves: [], unresolved: [], overloadBefore, overloadAfter: overloadBefore, cycle: true };
+  }
+
+  const analysis = analyzeCriticalPath(items, calendar);
+  const rowOf = new Map(items.map((item, row) => [item.id, row]));
+  // Finish of the step each item sits in directly
+  const stepEnds = new Map(buildOutline(items).map(({ parent }, row) => [items[row].id, parent >= 0 ? items[parent].end : undefined]));
+  const floatOf = (item: ProjectItem) => analysis[item.id]?.totalFloat ?? 0;
+
+  const byId = new Map(items.map(i => [i.id, i]));
+  const successors = new Map<string, string[]>(tasks.map(t => [t.id, []]));
+  const waiting = new Map<string, number>();
+  tasks.forEach(t => {
+    const preds = (t.predecessors || []).filter(l => successors.has(l.id));
+    waiting.set(t.id, preds.length);
+    preds.forEach(l => successors.get(l.id)!.push(t.id));
+  });
+
+  // Dates the links allow now that the predecessors are placed; never earlier than today's plan
+  const earliestDates = (item: ProjectItem) => {
+    const linked = getLinkedDates(item, byId, calendar);
+    return linked && linked.start > item.start ? linked : { start: item.start, end: item.end };
+  };
+
+  const ready = new Map<string, { start: string; end: string }>();
+  tasks.filter(t => waiting.get(t.id) === 0).forEach(t => ready.set(t.id, earliestDates(t)));
+
+  const load: LoadMap = new Map();
+  const unresolved: string[] = [];
+
+  while (ready.size > 0) {
+    let pickId = '';
+    ready.forEach((dates, id) => {
+      if (!pickId) { pickId = id; return; }
+      const best = ready.get(pickId)!;
+      const a = byId.get(id)!;
+      const b = byId.get(pickId)!;
+      const better = floatOf(a) !== floatOf(b)
+        ? floatOf(a) < floatOf(b)
+        : dates.start !== best.start ? dates.start < best.start : rowOf.get(id)! < rowOf.get(pickId)!;
+      if (better) pickId = id;
+    });
+    const item = byId.get(pickId)!;
+    const base = ready.get(pickId)!;
+    ready.delete(pickId);
+
+    let placed = base;
+    if (findConflict(load, item, base.start, base.end, registry, calendar)) {
+      const fits = item.progress === 0 && (item.assignments || []).every(a => a.allocation <= (registry.get(a.resourceId)?.capacity ?? Infinity));
+      const stepEnd = stepEnds.get(item.id);
+      let candidate = base.start;
+      let found: { start: string; end: string } | null = null;
+      for (let attempt = 0; fits && attempt < MAX_ATTEMPTS; attempt++) {
+        const conflict = findConflict(load, item, candidate, calculateEndDate(candidate, item.workDays, calendar, item.accountable), registry, calendar);
+        if (!conflict) {
+          found = { start: candidate, end: calculateEndDate(candidate, item.workDays, calendar, item.accountable) };
+          break;
+        }
+        candidate = shiftWorkingDays(conflict, 1, calendar, item.accountable);
+        const end = calculateEndDate(candidate, item.workDays, calendar, item.accountable);
+        const withinLimits = pastFloat
+          ? differenceInCalendarDays(parseISO(candidate), parseISO(item.start)) <= MAX_DELAY_DAYS
+          : getWorkingDayOffset(item.start, candidate, calendar) <= floatOf(item) && (!stepEnd || end <= stepEnd);
+        if (!withinLimits) break;
+      }
+      if (found) placed = found;
+      else unresolved.push(item.id);
+    }
+
+    addLoad(load, item, placed.start, placed.end, registry, calendar);
+    if (placed.start !== item.start || placed.end !== item.end) byId.set(item.id, { ...item, ...placed });
+
+    successors.get(item.id)!.forEach(next => {
+      const remaining = waiting.get(next)! - 1;
+      waiting.set(next, remaining);
+      if (remaining === 0) ready.set(next, earliestDates(byId.get(next)!));
+    });
+  }
+
+  const leveled = items.map(i => byId.get(i.id)!);
+  const moves: LevelingMove[] = leveled
+    .filter((after, idx) => after.start !== items[idx].start || after.end !== items[idx].end)
+    .map(after => {
+      const before = items[rowOf.get(after.id)!];
+      return { id: after.id, fromStart: before.start, fromEnd: before.end, toStart: after.start, toEnd: after.end, delay: getWorkingDayOffset(before.start, after.start, calendar) };
+    });
+
+  return { items: leveled, moves, unresolved, overloadBefore, overloadAfter: countOverload(load, registry), cycle: false };
+};
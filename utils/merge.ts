@@ -0,0 +1,160 @@
+
+import { Project, ProjectItem } from '../types';
+
+/**
+ * Item-level changes between two versions of a project, so an edit made elsewhere (another
+ * tab) can be merged into a version that has edits of its own. Every change carries the
+ * value it replaced: a field that still has that value here takes the new one, a field that
+ * was changed here as well is a conflict and keeps its local value.
+ */
+
+export interface FieldChange {
+  key: string;
+  before: unknown;
+  after: unknown;
+}
+
+export interface ProjectPatch {
+  projectId: string;
+  fields: FieldChange[];                           // Project-level fields (name, calendar, resources...)
+  items: { id: string; changes: FieldChange[] }[]; // Edited items
+  added: ProjectItem[];
+  removed: string[];
+  order: string[] | null;                          // Item ids in their new order when rows were added, removed or moved
+}
+
+export interface MergeConflict {
+  projectId: string;
+  itemId: string | null; // null for a project-level field
+  key: string;
+  label: string;         // e.g. "1.2 Design review"
+  mine: unknown;
+  theirs: unknown;
+}
+
+// Recomputed from the outline and the rollups after every merge, so they never conflict
+const DERIVED_ITEM_FIELDS = new Set(['sId', 'tId', 'color', 'plannedCost']);
+const ROLLUP_FIELDS = new Set(['start', 'end', 'workDays', 'progress', 'actualStart', 'actualFinish', 'actualCost']);
+
+const isDerived = (item: ProjectItem, key: string) => DERIVED_ITEM_FIELDS.has(key) || (item.type === 'S' && ROLLUP_FIELDS.has(key));
+
+const same = (a: unknown, b: unknown) => a === b || JSON.stringify(a) === JSON.stringify(b);
+
+const diffFields = <T extends object>(before: T, after: T, skip: string[] = []): FieldChange[] => {
+  const keys = new Set([...Object.keys(before), ...Object.keys(after)]);
+  const changes: FieldChange[] = [];
+  keys.forEach(key => {
+    if (skip.includes(key)) return;
+    const a = (before as Record<string, unknown>)[key];
+    const b = (after as Record<string, unknown>)[key];
+    if (!same(a, b)) changes.push({ key, before: a, after: b });
+  });
+  return changes;
+};
+
+const sameOrder = (a: string[], b: string[]) => a.length === b.length && a.every((id, i) => id === b[i]);
+
+/**
+ * What changed from `before` to `after`, or null when nothing did.
+ */
+export const diffProjects = (before: Project, after: Project): ProjectPatch | null => {
+  if (before === after) return null;
+  const previous = new Map(before.items.map(i => [i.id, i]));
+  const current = new Set(after.items.map(i => i.id));
+
+  const items: ProjectPatch['items'] = [];
+  const added: ProjectItem[] = [];
+  after.items.forEach(item => {
+    const old = previous.get(item.id);
+    if (!old) added.push(item);
+    else if (old !== item) {
+      const changes = diffFields(old, item);
+      if (changes.length > 0) items.push({ id: item.id, changes });
+    }
+  });
+  const removed = before.items.filter(i => !current.has(i.id)).map(i => i.id);
+  const beforeOrder = before.items.map(i => i.id);
+  const afterOrder = after.items.map(i => i.id);
+
+  const patch: ProjectPatch = {
+    projectId: after.id,
+    fields: diffFields(before, after, ['items']),
+    items,
+    added,
+    removed,
+    order: sameOrder(beforeOrder, afterOrder) ? null : afterOrder
+  };
+  const empty = patch.fields.length === 0 && items.length === 0 && added.length === 0 && removed.length === 0 && !patch.order;
+  return empty ? null : patch;
+};
+
+// Takes the remote order, then slots rows only this side has after the row they follow here
+const mergeOrder = (local: ProjectItem[], order: string[]): ProjectItem[] => {
+  const byId = new Map(local.map(i => [i.id, i]));
+  const result = order.filter(id => byId.has(id));
+  const placed = new Set(result);
+  local.forEach((item, index) => {
+    if (placed.has(item.id)) return;
+    const after = index > 0 ? result.indexOf(local[index - 1].id) : -1;
+    result.splice(after + 1, 0, item.id);
+    placed.add(item.id);
+  });
+  return result.map(id => byId.get(id)!);
+};
+
+/**
+ * Applies a patch made elsewhere to the local version of the project. Rows added there are
+ * added, rows deleted there are deleted, and fields changed on both sides are reported as
+ * conflicts and keep their local value. Derived fields are left for reIndexItems.
+ */
+export const mergeProjectPatch = (local: Project, patch: ProjectPatch): { project: Project; conflicts: MergeConflict[] } => {
+  const conflicts: MergeConflict[] = [];
+
+  const mergeField = (target: Record<string, unknown>, change: FieldChange, itemId: string | null, label: string, derived: boolean) => {
+    const mine = target[change.key];
+    if (same(mine, change.after)) return;
+    if (derived || same(mine, change.before)) {
+      if (change.after === undefined) delete target[change.key];
+      else target[change.key] = change.after;
+    } else {
+      conflicts.push({ projectId: local.id, itemId, key: change.key, label, mine, theirs: change.after });
+    }
+  };
+
+  const project: Project = { ...local };
+  patch.fields.forEach(change => mergeField(project as unknown as Record<string, unknown>, change, null, local.name, false));
+
+  const edits = new Map(patch.items.map(e => [e.id, e.changes]));
+  const removed = new Set(patch.removed);
+  let items = local.items
+    .filter(item => !removed.has(item.id))
+    .map(item => {
+      const changes = edits.get(item.id);
+      if (!changes) return item;
+      const next = { ...item };
+      const label = `${item.tId} ${item.description}`.trim();
+      changes.forEach(change => mergeField(next as unknown as Record<string, unknown>, change, item.id, label, isDerived(item, change.key)));
+      return next;
+    });
+  const present = new Set(items.map(i => i.id));
+  items = [...items, ...patch.added.filter(i => !present.has(i.id))];
+  if (patch.order) items = mergeOrder(items, patch.order);
+
+  project.items = items;
+  return { project, conflicts };
+};
+
+/**
+ * A patch that sets a conflicting field back to the local value everywhere else.
+ */
+export const keepMinePatch = (conflict: MergeConflict): ProjectPatch => {
+  const change = { key: conflict.key, before: conflict.theirs, after: conflict.mine };
+  return {
+    projectId: conflict.projectId,
+    fields: conflict.itemId ? [] : [change],
+    items: conflict.itemId ? [{ id: conflict.itemId, changes: [change] }] : [],
+    added: [],
+    removed: [],
+    order: null
+  };
+};
@@ -0,0 +1,339 @@
+
+import { v4 as uuidv4 } from 'uuid';
+import { format } from 'date-fns';
+import { DependencyMode, ImportReport, Predecessor, Project, ProjectItem, WorkCalendar } from '../types';
+import { DEFAULT_CALENDAR } from './calendar';
+import { calculateEndDate, calculateWorkDays, STEP_COLORS } from './dateHelpers';
+import { findResourceByName } from './resources';
+import { getLevel } from './wbs';
+
+/**
+ * Microsoft Project XML (MSPDI) import and export. Runs entirely in the browser
+ * with DOMParser; no server round trip.
+ */
+
+const MSPDI_NAMESPACE = 'http://schemas.microsoft.com/project';
+const MINUTES_PER_DAY = 480;
+const LAG_UNITS_PER_DAY = MINUTES_PER_DAY * 10; // LinkLag is stored in tenths of a minute
+
+// MSPDI PredecessorLink/Type codes
+const LINK_TYPE_TO_MODE: Record<string, DependencyMode> = { '0': 'FF', '1': 'FS', '2': 'SF', '3': 'SS' };
+const MODE_TO_LINK_TYPE: Record<DependencyMode, number> = { FF: 0, FS: 1, SF: 2, SS: 3 };
+
+// LagFormat values for percentage lags, which have no working-day equivalent here
+const PERCENT_LAG_FORMATS = ['19', '20'];
+
+const escapeXml = (value: string): string =>
+  value.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;').replace(/'/g, '&apos;');
+
+const tag = (name: string, value: string | number): string => `<${name}>${escapeXml(String(value))}</${name}>`;
+
+// --- EXPORT ---
+
+const exportCalendar = (calendar: WorkCalendar): string => {
+  const workingTimes = '<WorkingTimes><WorkingTime><FromTime>08:00:00</FromTime><ToTime>12:00:00</ToTime></WorkingTime><WorkingTime><FromTime>13:00:00</FromTime><ToTime>17:00:00</ToTime></WorkingTime></WorkingTimes>';
+  const weekDays = [0, 1, 2, 3, 4, 5, 6].map(day => {
+    const working = calendar.workingWeekdays.includes(day);
+    return `<WeekDay>${tag('DayType', day + 1)}${tag('DayWorking', working ? 1 : 0)}${working ? workingTimes : ''}</WeekDay>`;
+  });
+  const holidays = calendar.holidays.map(h =>
+    `<WeekDay>${tag('DayType', 0)}${tag('DayWorking', 0)}<TimePeriod>${tag('FromDate', `${h}T00:00:00`)}${tag('ToDate', `${h}T23:59:00`)}</TimePeriod></WeekDay>`
+  );
+  return `<Calendars><Calendar>${tag('UID', 1)}${tag('Name', 'Standard')}${tag('IsBaseCalendar', 1)}<WeekDays>${[...weekDays, ...holidays].join('')}</WeekDays></Calendar></Calendars>`;
+};
+
+/**
+ * Serializes a project as MSPDI XML. Steps become summary tasks, the WBS level maps to the
+ * outline level (top-level steps at 1), the resource registry becomes the resources and each
+ * assignment keeps its allocation as Units. Tasks without assignments fall back to their
+ * `accountable` name, which becomes a resource of its own when the registry does not have it.
+ */
+export const exportProjectToMspdi = (project: Project): string => {
+  const calendar = project.calendar || DEFAULT_CALENDAR;
+  const uidById = new Map(project.items.map((item, idx) => [item.id, idx + 1]));
+
+  const registry = project.resources || [];
+  const resourceUid = new Map(registry.map((r, idx) => [r.id, idx + 1]));
+  const unassigned = project.items.filter(i => i.type === 'T' && !(i.assignments || []).some(a => resourceUid.has(a.resourceId)) && i.accountable.trim());
+  const extraNames = Array.from(new Set(unassigned.map(i => i.accountable.trim()).filter(name => !findResourceByName(registry, name))));
+  const extraUid = new Map(extraNames.map((name, idx) => [name, registry.length + idx + 1]));
+
+  const tasks = project.items.map((item, idx) => {
+    const uid = idx + 1;
+    const links = (item.predecessors || []).filter(l => uidById.has(l.id)).map(l =>
+      `<PredecessorLink>${tag('PredecessorUID', uidById.get(l.id)!)}${tag('Type', MODE_TO_LINK_TYPE[l.mode])}${tag('CrossProject', 0)}${tag('LinkLag', l.lag * LAG_UNITS_PER_DAY)}${tag('LagFormat', 7)}</PredecessorLink>`
+    ).join('');
+    return `<Task>${[
+      tag('UID', uid),
+      tag('ID', uid),
+      tag('Name', item.description),
+      tag('WBS', item.tId),
+      tag('OutlineNumber', item.tId),
+      tag('OutlineLevel', getLevel(item) + 1),
+      // A milestone is the end of its day: Start and Finish both fall at the close of business
+      tag('Start', item.type === 'M' ? `${item.end}T17:00:00` : `${item.start}T08:00:00`),
+      tag('Finish', `${item.end}T17:00:00`),
+      tag('Duration', `PT${item.workDays * 8}H0M0S`),
+      tag('DurationFormat', 7),
+      tag('PercentComplete', item.progress),
+      tag('Summary', item.type === 'S' ? 1 : 0),
+      tag('Milestone', item.type === 'M' ? 1 : 0)
+    ].join('')}${links}</Task>`;
+  }).join('');
+
+  const resources = [
+    ...registry.map(r => `<Resource>${tag('UID', resourceUid.get(r.id)!)}${tag('ID', resourceUid.get(r.id)!)}${tag('Name', r.name)}${tag('Type', 1)}${tag('MaxUnits', r.capacity / 100)}</Resource>`),
+    ...extraNames.map(name => `<Resource>${tag('UID', extraUid.get(name)!)}${tag('ID', extraUid.get(name)!)}${tag('Name', name)}${tag('Type', 1)}</Resource>`)
+  ].join('');
+
+  let assignmentUid = 0;
+  const assignment = (taskId: string, resourceUidValue: number, units: number) =>
+    `<Assignment>${tag('UID', ++assignmentUid)}${tag('TaskUID', uidById.get(taskId)!)}${tag('ResourceUID', resourceUidValue)}${tag('Units', units)}</Assignment>`;
+  const assignments = project.items.filter(i => i.type === 'T').flatMap(item => {
+    if (!unassigned.includes(item)) {
+      return (item.assignments || []).filter(a => resourceUid.has(a.resourceId)).map(a => assignment(item.id, resourceUid.get(a.resourceId)!, a.allocation / 100));
+    }
+    const owner = findResourceByName(registry, item.accountable);
+    return [assignment(item.id, owner ? resourceUid.get(owner.id)! : extraUid.get(item.accountable.trim())!, 1)];
+  }).join('');
+
+  return [
+    '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>',
+    `<Project xmlns="${MSPDI_NAMESPACE}">`,
+    tag('Name', `${project.name}.xml`),
+    tag('Title', project.name),
+    tag('Manager', project.accountable),
+    tag('ScheduleFromStart', 1),
+    tag('StartDate', `${project.start}T08:00:00`),
+    tag('FinishDate', `${project.end}T17:00:00`),
+    tag('CalendarUID', 1),
+    tag('MinutesPerDay', MINUTES_PER_DAY),
+    tag('MinutesPerWeek', MINUTES_PER_DAY * Math.max(1, calendar.workingWeekdays.length)),
+    tag('CreationDate', format(new Date(), "yyyy-MM-dd'T'HH:mm:ss")),
+    exportCalendar(calendar),
+    `<Tasks>${tasks}</Tasks>`,
+    `<Resources>${resources}</Resources>`,
+    `<Assignments>${assignments}</Assignments>`,
+    '</Project>'
+  ].join('\n');
+};
+
+// --- IMPORT ---
+
+const children = (el: Element | null, name: string): Element[] =>
+  el ? Array.from(el.children).filter(c => c.localName === name) : [];
+
+const child = (el: Element | null, name: string): Element | null => children(el, name)[0] || null;
+
+const text = (el: Element | null, name: string): string => child(el, name)?.textContent?.trim() || '';
+
+const datePart = (value: string): string => value.slice(0, 10);
+
+/**
+ * Parses an ISO 8601 duration such as PT40H0M0S into working days.
+ */
+const durationToDays = (value: string, minutesPerDay: number): number => {
+  const match = value.match(/P(?:(\d+(?:\.\d+)?)D)?T?(?:(\d+(?:\.\d+)?)H)?(?:(\d+(?:\.\d+)?)M)?/);
+  if (!match) return 0;
+  const minutes = (parseFloat(match[1] || '0') * minutesPerDay) + (parseFloat(match[2] || '0') * 60) + parseFloat(match[3] || '0');
+  return minutes / minutesPerDay;
+};
+
+const expandRange = (from: string, to: string): string[] => {
+  const dates: string[] = [];
+  const cursor = new Date(`${from}T00:00:00`);
+  const end = new Date(`${to}T00:00:00`);
+  for (let i = 0; cursor <= end && i < 366; i++) {
+    dates.push(format(cursor, 'yyyy-MM-dd'));
+    cursor.setDate(cursor.getDate() + 1);
+  }
+  return dates;
+};
+
+const importCalendar = (root: Element, report: ImportReport): WorkCalendar => {
+  const calendarUid = text(root, 'CalendarUID');
+  const calendars = children(child(root, 'Calendars'), 'Calendar');
+  const base = calendars.find(c => text(c, 'UID') === calendarUid) || calendars.find(c => text(c, 'IsBaseCalendar') === '1');
+  if (!base) return DEFAULT_CALENDAR;
+
+  const calendar: WorkCalendar = { workingWeekdays: [], holidays: [], exceptions: [] };
+  children(child(base, 'WeekDays'), 'WeekDay').forEach(day => {
+    const dayType = parseInt(text(day, 'DayType'), 10);
+    const working = text(day, 'DayWorking') === '1';
+    if (dayType >= 1 && dayType <= 7) {
+      if (working) calendar.workingWeekdays.push(dayType - 1);
+    } else if (dayType === 0 && !working) {
+      const period = child(day, 'TimePeriod');
+      const from = datePart(text(period, 'FromDate'));
+      const to = datePart(text(period, 'ToDate'));
+      if (from) calendar.holidays.push(...expandRange(from, to || from));
+    }
+  });
+  children(child(base, 'Exceptions'), 'Exception').forEach(exception => {
+    const period = child(exception, 'TimePeriod');
+    const from = datePart(text(period, 'FromDate'));
+    const to = datePart(text(period, 'ToDate'));
+    if (!from) return;
+    if (text(exception, 'DayWorking') === '1') {
+      report.warnings.push(`Calendar exception "${text(exception, 'Name') || from}" adds working time and was ignored.`);
+      return;
+    }
+    calendar.holidays.push(...expandRange(from, to || from));
+  });
+
+  if (calendar.workingWeekdays.length === 0) calendar.workingWeekdays = [...DEFAULT_CALENDAR.workingWeekdays];
+  calendar.holidays = Array.from(new Set(calendar.holidays)).sort();
+  return calendar;
+};
+
+/**
+ * Builds a new project from MSPDI XML. Summary tasks become steps at their outline level;
+ * anything that has no equivalent is converted as closely as possible and listed in the report.
+ */
+export const importProjectFromMspdi = (xml: string, fileName: string): { project: Project | null; report: ImportReport } => {
+  const report: ImportReport = { source: fileName, imported: 0, warnings: [], errors: [] };
+  const doc = new DOMParser().parseFromString(xml, 'application/xml');
+  const root = doc.documentElement;
+
+  if (doc.getElementsByTagName('parsererror').length > 0 || root.localName !== 'Project') {
+    report.errors.push('The file is not valid Microsoft Project XML (MSPDI).');
+    return { project: null, report };
+  }
+
+  const calendar = importCalendar(root, report);
+  const minutesPerDay = parseInt(text(root, 'MinutesPerDay'), 10) || MINUTES_PER_DAY;
+
+  const resources = new Map(children(child(root, 'Resources'), 'Resource').map(r => [text(r, 'UID'), text(r, 'Name')]));
+  const taskResources = new Map<string, string[]>();
+  children(child(root, 'Assignments'), 'Assignment').forEach(a => {
+    const name = resources.get(text(a, 'ResourceUID'));
+    if (!name) return;
+    const list = taskResources.get(text(a, 'TaskUID')) || [];
+    taskResources.set(text(a, 'TaskUID'), [...list, name]);
+  });
+
+  const taskEls = children(child(root, 'Tasks'), 'Task')
+    .filter(t => text(t, 'IsNull') !== '1')
+    .sort((a, b) => (parseInt(text(a, 'ID'), 10) || 0) - (parseInt(text(b, 'ID'), 10) || 0));
+
+  const items: ProjectItem[] = [];
+  const idByUid = new Map<string, string>();
+  const pendingLinks: { itemId: string; el: Element; name: string }[] = [];
+  let hasStep = false;
+
+  taskEls.forEach(el => {
+    const uid = text(el, 'UID');
+    const name = text(el, 'Name') || `Task ${uid}`;
+    const level = parseInt(text(el, 'OutlineLevel'), 10);
+    const isSummary = text(el, 'Summary') === '1';
+
+    // UID 0 / level 0 is the project summary task MS Project adds itself
+    if (uid === '0' || level === 0) return;
+
+    const start = datePart(text(el, 'Start'));
+    const finish = datePart(text(el, 'Finish'));
+    if (!start || !finish) {
+      report.errors.push(`"${name}" has no start or finish date and was skipped.`);
+      return;
+    }
+
+    const type: ProjectItem['type'] = isSummary ? 'S' : text(el, 'Milestone') === '1' ? 'M' : 'T';
+    if (type !== 'S' && !hasStep) {
+      items.push({
+        id: uuidv4(), sId: 1, tId: '', type: 'S', level: 0, description: 'Imported Tasks', accountable: '',
+        workDays: 1, start, end: finish, progress: 0, predecessors: [], color: STEP_COLORS[0]
+      });
+      report.warnings.push('Tasks without a summary task were grouped under an "Imported Tasks" phase.');
+      hasStep = true;
+    }
+    if (type === 'S') hasStep = true;
+
+    const constraint = text(el, 'ConstraintType');
+    if (constraint && constraint !== '0') {
+      report.warnings.push(`Date constraint on "${name}" is not supported and was dropped.`);
+    }
+
+    const owners = taskResources.get(uid) || [];
+    if (owners.length > 1) {
+      report.warnings.push(`"${name}" has ${owners.length} resources; they were joined into one accountable name.`);
+    }
+
+    const workDays = type === 'M' ? 0 : Math.max(1, calculateWorkDays(start, finish, calendar, owners.join(', ')));
+    const durationDays = durationToDays(text(el, 'Duration'), minutesPerDay);
+    if (type === 'T' && durationDays > 0 && Math.abs(durationDays - workDays) >= 1) {
+      report.warnings.push(`"${name}" duration (${Math.round(durationDays * 10) / 10}d) differs from its dates; work days were taken from the dates (${workDays}d).`);
+    }
+
+    const item: ProjectItem = {
+      id: uuidv4(),
+      sId: 0,
+      tId: '',
+      type,
+      level: Math.max(0, (level || 1) - 1),
+      description: name,
+      accountable: owners.join(', '),
+      workDays,
+      start: type === 'M' ? finish : start,
+      end: type === 'T' ? calculateEndDate(start, workDays, calendar, owners.join(', ')) : finish,
+      progress: Math.min(100, Math.max(0, parseInt(text(el, 'PercentComplete'), 10) || 0)),
+      predecessors: [],
+      color: STEP_COLORS[0]
+    };
+    idByUid.set(uid, item.id);
+    items.push(item);
+    if (children(el, 'PredecessorLink').length > 0) pendingLinks.push({ itemId: item.id, el, name });
+  });
+
+  // Links are resolved once every task exists so forward references work
+  const typeById = new Map(items.map(i => [i.id, i.type]));
+  pendingLinks.forEach(({ itemId, el, name }) => {
+    const predecessors: Predecessor[] = [];
+    children(el, 'PredecessorLink').forEach(link => {
+      const predId = idByUid.get(text(link, 'PredecessorUID'));
+      if (text(link, 'CrossProject') === '1' || !predId) {
+        report.warnings.push(`A predecessor of "${name}" points outside this file and was dropped.`);
+        return;
+      }
+      if (typeById.get(predId) === 'S' || typeById.get(itemId) === 'S') {
+        report.warnings.push(`A link between "${name}" and a summary task was dropped; only tasks can be linked.`);
+        return;
+      }
+      const mode = LINK_TYPE_TO_MODE[text(link, 'Type') || '1'] || 'FS';
+      let lag = 0;
+      if (PERCENT_LAG_FORMATS.includes(text(link, 'LagFormat'))) {
+        report.warnings.push(`Percentage lag on a link into "${name}" was replaced with 0 days.`);
+      } else {
+        lag = Math.round((parseInt(text(link, 'LinkLag'), 10) || 0) / ((minutesPerDay * 10) || LAG_UNITS_PER_DAY));
+      }
+      predecessors.push({ id: predId, mode, lag });
+    });
+    const target = items.find(i => i.id === itemId);
+    if (target) target.predecessors = predecessors;
+  });
+
+  if (items.length === 0) {
+    report.errors.push('No tasks were found in the file.');
+    return { project: null, report };
+  }
+
+  report.imported = items.length;
+  const starts = items.map(i => i.start).sort();
+  const ends = items.map(i => i.end).sort();
+  const projectStart = datePart(text(root, 'StartDate')) || starts[0];
+  const projectEnd = datePart(text(root, 'FinishDate')) || ends[ends.length - 1];
+
+  return {
+    project: {
+      id: uuidv4(),
+      name: text(root, 'Title') || text(root, 'Name').replace(/\.xml$/i, '') || fileName.replace(/\.xml$/i, ''),
+      accountable: text(root, 'Manager'),
+      start: projectStart,
+      end: projectEnd,
+      workDays: calculateWorkDays(projectStart, projectEnd, calendar),
+      items,
+      calendar,
+      createdAt: Date.now()
+    },
+    report
+  };
+};
@@ -0,0 +1,137 @@
+
+import { v4 as uuidv4 } from 'uuid';
+import { Assignment, Project, ProjectItem, Resource, WorkCalendar } from '../types';
+import { isWorkingDay } from './calendar';
+import { ColumnIndex, getVisibleSpan } from './gantt';
+
+export const DEFAULT_CAPACITY = 100;
+
+const nameKey = (name: string): string => name.trim().toLowerCase();
+
+export const createResource = (name: string, role = '', capacity = DEFAULT_CAPACITY): Resource => ({
+  id: uuidv4(),
+  name: name.trim(),
+  role,
+  capacity
+});
+
+export const findResourceByName = (resources: Resource[], name: string): Resource | undefined => {
+  const key = nameKey(name);
+  return key ? resources.find(r => nameKey(r.name) === key) : undefined;
+};
+
+/**
+ * The project calendar with every resource's personal work week folded in, so the date
+ * math that already takes a person (the item's accountable name) honors it.
+ */
+export const withResourceCalendars = (calendar: WorkCalendar, resources: Resource[] = []): WorkCalendar => {
+  const personal = resources.filter(r => r.workingWeekdays && r.name.trim());
+  const rated = resources.filter(r => r.rate);
+  if (personal.length === 0 && rated.length === 0) return calendar;
+  return {
+    ...calendar,
+    ...(personal.length > 0 && { personalWeekdays: Object.fromEntries(personal.map(r => [nameKey(r.name), r.workingWeekdays!])) }),
+    ...(rated.length > 0 && { resourceRates: Object.fromEntries(rated.map(r => [r.id, r.rate!])) })
+  };
+};
+
+/**
+ * The accountable name shown for and scheduled against an item: its first assignment.
+ */
+export const getAccountableName = (assignments: Assignment[], resources: Resource[]): string => {
+  const primary = assignments.map(a => resources.find(r => r.id === a.resourceId)).find(Boolean);
+  return primary ? primary.name : '';
+};
+
+/**
+ * Turns free-text accountable names into registry entries and assignments, creating a
+ * resource for every name not yet registered. Several names ("Ann, Bob") become several
+ * assignments. Items that already carry assignments are left alone.
+ */
+export const linkAccountablesToResources = (items: ProjectItem[], resources: Resource[]): { items: ProjectItem[]; resources: Resource[] } => {
+  const registry = [...resources];
+  const linked = items.map(item => {
+    if (item.assignments) return item;
+    const names = item.accountable.split(/[,;]/).map(n => n.trim()).filter(Boolean);
+    if (names.length === 0) return { ...item, assignments: [] };
+    const assignments: Assignment[] = [];
+    names.forEach(name => {
+      let resource = findResourceByName(registry, name);
+      if (!resource) {
+        resource = createResource(name);
+        registry.push(resource);
+      }
+      if (!assignments.some(a => a.resourceId === resource!.id)) assignments.push({ resourceId: resource.id, allocation: 100 });
+    });
+    return { ...item, assignments, accountable: getAccountableName(assignments, registry) };
+  });
+  return { items: linked, resources: registry };
+};
+
+/**
+ * Builds the registry for projects saved before resources existed.
+ */
+export const migrateProjectResources = (project: Project): Project => {
+  if (project.resources) return project;
+  const { items, resources } = linkAccountablesToResources(project.items, []);
+  return { ...project, items, resources };
+};
+
+export interface ResourceUsage {
+  resource: Resource;
+  load: Float32Array;  // Allocated percent per visible column
+  overloaded: number;  // Columns where the load exceeds capacity
+  peak: number;
+}
+
+/**
+ * Daily load per resource over the visible columns. A task only loads its resources on
+ * days they work, using the same calendar the task was scheduled with.
+ */
+export const computeResourceUsage = (items: ProjectItem[], resources: Resource[], calendar: WorkCalendar, columns: ColumnIndex): ResourceUsage[] => {
+  const byId = new Map(resources.map(r => [r.id, { resource: r, load: new Float32Array(columns.dates.length) }]));
+
+  items.forEach(item => {
+    if (item.type !== 'T' || !item.assignments?.length) return;
+    const span = getVisibleSpan(columns, item.start, item.end);
+    if (!span) return;
+    item.assignments.forEach(a => {
+      const entry = byId.get(a.resourceId);
+      if (!entry) return;
+      for (let col = span.first; col <= span.last; col++) {
+        if (isWorkingDay(columns.dates[col], calendar, entry.resource.name)) entry.load[col] += a.allocation;
+      }
+    });
+  });
+
+  return resources.map(r => {
+    const { load } = byId.get(r.id)!;
+    let overloaded = 0;
+    let peak = 0;
+    load.forEach(value => {
+      if (value > r.capacity) overloaded++;
+      if (value > peak) peak = value;
+    });
+    return { resource: r, load, overloaded, peak };
+  });
+};
+
+/**
+ * Applies a registry edit to the items: assignments to deleted resources are dropped and
+ * accountable names follow renames. Returns the ids whose owner calendar may have changed
+ * (new primary resource or a new personal work week), whose dates need recomputing.
+ */
+export const reconcileAssignments = (items: ProjectItem[], previous: Resource[], next: Resource[]): { items: ProjectItem[]; changedIds: string[] } => {
+  const ids = new Set(next.map(r => r.id));
+  const weekOf = (list: Resource[], id?: string) => JSON.stringify(list.find(r => r.id === id)?.workingWeekdays ?? null);
+  const changedIds: string[] = [];
+  const reconciled = items.map(item => {
+    if (!item.assignments) return item;
+    const assignments = item.assignments.filter(a => ids.has(a.resourceId));
+    const before = item.assignments[0]?.resourceId;
+    const after = assignments[0]?.resourceId;
+    if (before !== after || weekOf(previous, before) !== weekOf(next, after)) changedIds.push(item.id);
+    return { ...item, assignments, accountable: getAccountableName(assignments, next) };
+  });
+  return { items: reconciled, changedIds };
+};
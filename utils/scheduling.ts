@@ -0,0 +1,214 @@
+
+import { ProjectItem, DependencyMode, Predecessor, WorkCalendar } from '../types';
+import { calculateEndDate, calculateStartDate, shiftWorkingDays } from './dateHelpers';
+import { DEFAULT_CALENDAR } from './calendar';
+
+const DEPENDENCY_MODES: DependencyMode[] = ['FS', 'SS', 'FF', 'SF'];
+
+/**
+ * Steps are date rollups of their tasks, so only tasks and milestones take part in the dependency graph.
+ */
+export const isSchedulable = (item: ProjectItem): boolean => item.type !== 'S';
+
+export const isMilestone = (item: ProjectItem): boolean => item.type === 'M';
+
+/**
+ * Returns the start/end an item must have to satisfy a single predecessor link.
+ * Lags count working days on the successor owner's calendar. A milestone marks the end
+ * of its day, so finish-to-start puts it on the predecessor's last day rather than the next.
+ */
+const applyLink = (pred: ProjectItem, link: Predecessor, item: ProjectItem, calendar: WorkCalendar): { start: string; end: string } => {
+  const person = item.accountable;
+  switch (link.mode) {
+    case 'FS': {
+      const start = shiftWorkingDays(pred.end, (isMilestone(item) ? 0 : 1) + link.lag, calendar, person);
+      return { start, end: calculateEndDate(start, item.workDays, calendar, person) };
+    }
+    case 'SS': {
+      const start = shiftWorkingDays(pred.start, link.lag, calendar, person);
+      return { start, end: calculateEndDate(start, item.workDays, calendar, person) };
+    }
+    case 'FF': {
+      const end = shiftWorkingDays(pred.end, link.lag, calendar, person);
+      return { start: calculateStartDate(end, item.workDays, calendar, person), end };
+    }
+    case 'SF': {
+      const end = shiftWorkingDays(pred.start, link.lag, calendar, person);
+      return { start: calculateStartDate(end, item.workDays, calendar, person), end };
+    }
+  }
+};
+
+/**
+ * The dates an item must take to satisfy its links, looking predecessors up in `byId`.
+ * With several predecessors the most restrictive (latest) one wins; null without links.
+ */
+export const getLinkedDates = (item: ProjectItem, byId: Map<string, ProjectItem>, calendar: WorkCalendar): { start: string; end: string } | null => {
+  let next: { start: string; end: string } | null = null;
+  for (const link of item.predecessors || []) {
+    const pred = byId.get(link.id);
+    if (!pred) continue;
+    const candidate = applyLink(pred, link, item, calendar);
+    if (!next || candidate.start > next.start) next = candidate;
+  }
+  return next;
+};
+
+/**
+ * Orders items so every predecessor comes before its successors (Kahn's algorithm).
+ * Returns the ids caught in a cycle instead when the graph is not a DAG.
+ */
+export const topologicalOrder = (items: ProjectItem[]): { order: string[]; cycle: string[] | null } => {
+  const ids = new Set(items.map(i => i.id));
+  const inDegree = new Map<string, number>();
+  const successors = new Map<string, string[]>();
+
+  items.forEach(item => {
+    inDegree.set(item.id, 0);
+    successors.set(item.id, []);
+  });
+  items.forEach(item => {
+    (item.predecessors || []).forEach(link => {
+      if (!ids.has(link.id)) return;
+      successors.get(link.id)!.push(item.id);
+      inDegree.set(item.id, inDegree.get(item.id)! + 1);
+    });
+  });
+
+  const queue = items.filter(i => inDegree.get(i.id) === 0).map(i => i.id);
+  const order: string[] = [];
+  while (queue.length > 0) {
+    const id = queue.shift()!;
+    order.push(id);
+    successors.get(id)!.forEach(next => {
+      const remaining = inDegree.get(next)! - 1;
+      inDegree.set(next, remaining);
+      if (remaining === 0) queue.push(next);
+    });
+  }
+
+  if (order.length === items.length) return { order, cycle: null };
+  return { order, cycle: items.filter(i => inDegree.get(i.id)! > 0).map(i => i.id) };
+};
+
+/**
+ * Re-applies dependency links downstream of the changed items.
+ * Changed items keep the dates the user typed unless listed in `relink`,
+ * in which case they are first re-anchored to their own predecessors.
+ */
+export const rescheduleItems = (
+  list: ProjectItem[],
+  changedIds: string[],
+  { relink = [], calendar = DEFAULT_CALENDAR }: { relink?: string[]; calendar?: WorkCalendar } = {}
+): { items: ProjectItem[]; cycle: string[] | null } => {
+  const { order, cycle } = topologicalOrder(list);
+  if (cycle) return { items: list, cycle };
+
+  const byId = new Map(list.map(i => [i.id, i]));
+  const dirty = new Set<string>([...changedIds, ...relink]);
+  const pinned = new Set(changedIds.filter(id => !relink.includes(id)));
+
+  order.forEach(id => {
+    const item = byId.get(id)!;
+    const links = (item.predecessors || []).filter(l => byId.has(l.id));
+    const touched = links.some(l => dirty.has(l.id));
+    if (!touched && !relink.includes(id)) return;
+    dirty.add(id);
+    if (pinned.has(id) || !isSchedulable(item)) return;
+
+    const next = getLinkedDates(item, byId, calendar);
+    if (next && (next.start !== item.start || next.end !== item.end)) {
+      byId.set(id, { ...item, start: next.start, end: next.end });
+    }
+  });
+
+  return { items: list.map(i => byId.get(i.id)!), cycle: null };
+};
+
+/**
+ * Re-derives every task end from its start and work days, then re-applies all links.
+ * Used when the project calendar changes.
+ */
+export const recalculateAllDates = (list: ProjectItem[], calendar: WorkCalendar): ProjectItem[] => {
+  const normalized = list.map(item => {
+    if (!isSchedulable(item)) return item;
+    const start = calculateEndDate(item.start, 1, calendar, item.accountable);
+    return { ...item, start, end: calculateEndDate(start, item.workDays, calendar, item.accountable) };
+  });
+  const { items, cycle } = rescheduleItems(normalized, [], { relink: normalized.map(i => i.id), calendar });
+  return cycle ? normalized : items;
+};
+
+/**
+ * Drops links pointing at removed items or at items that can no longer be linked (steps).
+ */
+export const pruneDependencyLinks = (list: ProjectItem[]): ProjectItem[] => {
+  const linkable = new Set(list.filter(isSchedulable).map(i => i.id));
+  return list.map(item => {
+    const predecessors = isSchedulable(item) ? (item.predecessors || []).filter(l => linkable.has(l.id) && l.id !== item.id) : [];
+    return predecessors.length === (item.predecessors || []).length ? item : { ...item, predecessors };
+  });
+};
+
+/**
+ * Formats links as "1.2FS+3; 2.1SS" using the tasks' T IDs.
+ */
+export const formatPredecessors = (item: ProjectItem, list: ProjectItem[]): string => {
+  return (item.predecessors || []).map(link => {
+    const pred = list.find(i => i.id === link.id);
+    if (!pred) return null;
+    const lag = link.lag === 0 ? '' : link.lag > 0 ? `+${link.lag}` : `${link.lag}`;
+    return `${pred.tId}${link.mode}${lag}`;
+  }).filter(Boolean).join('; ');
+};
+
+/**
+ * Parses the "1.2FS+3; 2.1SS-1" notation. The mode defaults to FS and the lag to 0.
+ */
+export const parsePredecessors = (
+  text: string,
+  item: ProjectItem,
+  list: ProjectItem[]
+): { predecessors: Predecessor[]; errors: string[] } => {
+  const predecessors: Predecessor[] = [];
+  const errors: string[] = [];
+
+  text.split(/[;,]/).map(t => t.trim()).filter(Boolean).forEach(token => {
+    const match = token.match(/^(\d+(?:\.\d+)*)\s*(FS|SS|FF|SF)?\s*([+-]\s*\d+)?\s*d?$/i);
+    if (!match) {
+      errors.push(`"${token}" is not a valid link`);
+      return;
+    }
+    const pred = list.find(i => i.tId === match[1] && isSchedulable(i));
+    if (!pred) {
+      errors.push(`No task with T ID ${match[1]}`);
+      return;
+    }
+    if (pred.id === item.id) {
+      errors.push(`A task cannot depend on itself`);
+      return;
+    }
+    const mode = (match[2]?.toUpperCase() as DependencyMode) || 'FS';
+    const lag = match[3] ? parseInt(match[3].replace(/\s/g, ''), 10) : 0;
+    predecessors.push({ id: pred.id, mode: DEPENDENCY_MODES.includes(mode) ? mode : 'FS', lag });
+  });
+
+  return { predecessors, errors };
+};
+
+/**
+ * Converts data saved before explicit links existed. The old engine chained each
+ * row to the one directly above it using that row's `mode`, so that is rebuilt
+ * as a single predecessor link between consecutive tasks.
+ */
+export const migrateLegacyItems = (list: (ProjectItem & { mode?: DependencyMode })[]): ProjectItem[] => {
+  return list.map((item, idx) => {
+    if (Array.isArray(item.predecessors)) return item;
+    const { mode: _legacyMode, ...rest } = item;
+    const prev = list[idx - 1];
+    const predecessors: Predecessor[] = isSchedulable(item) && prev && isSchedulable(prev)
+      ? [{ id: prev.id, mode: prev.mode || 'FS', lag: 0 }]
+      : [];
+    return { ...rest, predecessors };
+  });
+};
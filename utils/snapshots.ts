@@ -0,0 +1,143 @@
+
+import { ProjectItem } from '../types';
+import { getLevel, getParentStep, getSubtreeEnd } from './wbs';
+
+/**
+ * Compares a version snapshot with the live plan and restores chosen rows from it. Changes
+ * are described going from the snapshot to now: "added" rows exist only in the live plan.
+ */
+export type SnapshotChangeKind = 'added' | 'removed' | 'moved' | 'changed';
+
+export interface SnapshotFieldChange {
+  key: 'description' | 'start' | 'end' | 'progress' | 'accountable';
+  label: string;
+  snapshot: string | number;
+  current: string | number;
+}
+
+export interface SnapshotChange {
+  id: string;
+  kind: SnapshotChangeKind;
+  description: string;
+  type: ProjectItem['type'];
+  snapshotCode?: string; // WBS code in the snapshot (missing for added rows)
+  currentCode?: string;  // WBS code now (missing for removed rows)
+  fields: SnapshotFieldChange[];
+  rowIds: string[];      // This row plus the changed rows below it when it is a step
+}
+
+const FIELDS: { key: SnapshotFieldChange['key']; label: string }[] = [
+  { key: 'description', label: 'Description' },
+  { key: 'start', label: 'Start' },
+  { key: 'end', label: 'End' },
+  { key: 'progress', label: 'Progress' },
+  { key: 'accountable', label: 'Accountable' }
+];
+
+// Ids of a longest run of `ids` that keep their relative order in the other list
+const keptInOrder = (ids: string[], positionInOther: Map<string, number>): Set<string> => {
+  const tails: number[] = [];
+  const previous: number[] = [];
+  const positions = ids.map(id => positionInOther.get(id)!);
+  positions.forEach((pos, i) => {
+    let lo = 0;
+    let hi = tails.length;
+    while (lo < hi) {
+      const mid = (lo + hi) >> 1;
+      if (positions[tails[mid]] < pos) lo = mid + 1;
+      else hi = mid;
+    }
+    previous[i] = lo > 0 ? tails[lo - 1] : -1;
+    tails[lo] = i;
+  });
+  const kept = new Set<string>();
+  for (let i = tails.length ? tails[tails.length - 1] : -1; i >= 0; i = previous[i]) kept.add(ids[i]);
+  return kept;
+};
+
+/**
+ * Rows added, removed, moved (to another step, level or place among the rows both plans
+ * share) or with edited fields since the snapshot, in live plan order with removed rows
+ * where they used to be.
+ */
+export const compareSnapshot = (current: ProjectItem[], snapshot: ProjectItem[]): SnapshotChange[] => {
+  const currentIndex = new Map(current.map((item, i) => [item.id, i]));
+  const snapshotIndex = new Map(snapshot.map((item, i) => [item.id, i]));
+  const shared = current.filter(i => snapshotIndex.has(i.id)).map(i => i.id);
+  const inOrder = keptInOrder(shared, snapshotIndex);
+
+  const changes = new Map<string, SnapshotChange>();
+  const describe = (item: ProjectItem, kind: SnapshotChangeKind, before?: ProjectItem, fields: SnapshotFieldChange[] = []): SnapshotChange => ({
+    id: item.id,
+    kind,
+    description: item.description,
+    type: item.type,
+    snapshotCode: before?.tId ?? (kind === 'removed' ? item.tId : undefined),
+    currentCode: kind === 'removed' ? undefined : item.tId,
+    fields,
+    rowIds: [item.id]
+  });
+
+  current.forEach((item, index) => {
+    const before = snapshot[snapshotIndex.get(item.id) ?? -1];
+    if (!before) {
+      changes.set(item.id, describe(item, 'added'));
+      return;
+    }
+    const fields = FIELDS
+      .filter(f => before[f.key] !== item[f.key])
+      .map(f => ({ key: f.key, label: f.label, snapshot: before[f.key], current: item[f.key] }));
+    const parent = getParentStep(current, index)?.id;
+    const parentBefore = getParentStep(snapshot, snapshotIndex.get(item.id)!)?.id;
+    const moved = !inOrder.has(item.id) || parent !== parentBefore || getLevel(item) !== getLevel(before);
+    if (moved || fields.length > 0) changes.set(item.id, describe(item, moved ? 'moved' : 'changed', before, fields));
+  });
+  snapshot.forEach(item => {
+    if (!currentIndex.has(item.id)) changes.set(item.id, describe(item, 'removed'));
+  });
+
+  // A step carries the changes of the rows below it in either plan, so it can be restored whole
+  const collect = (list: ProjectItem[], index: number) =>
+    list.slice(index + 1, getSubtreeEnd(list, index)).map(i => i.id).filter(id => changes.has(id));
+  changes.forEach(change => {
+    if (change.type !== 'S') return;
+    const below = new Set([
+      ...(currentIndex.has(change.id) ? collect(current, currentIndex.get(change.id)!) : []),
+      ...(snapshotIndex.has(change.id) ? collect(snapshot, snapshotIndex.get(change.id)!) : [])
+    ]);
+    change.rowIds = [change.id, ...below];
+  });
+
+  // Removed rows go after the nearest earlier snapshot row that is still in the plan
+  const order: string[] = current.map(i => i.id);
+  snapshot.forEach((item, index) => {
+    if (currentIndex.has(item.id)) return;
+    let anchor = index - 1;
+    while (anchor >= 0 && !order.includes(snapshot[anchor].id)) anchor--;
+    order.splice(anchor >= 0 ? order.indexOf(snapshot[anchor].id) + 1 : 0, 0, item.id);
+  });
+  return order.filter(id => changes.has(id)).map(id => changes.get(id)!);
+};
+
+/**
+ * Puts the chosen rows back as they were in the snapshot: added rows are deleted, edited rows
+ * take the snapshot's fields in place, and moved and removed rows go back to their snapshot
+ * place. Rows not chosen are left alone, so the caller still has to prune links, reschedule
+ * and re-index.
+ */
+export const restoreSnapshotRows = (current: ProjectItem[], snapshot: ProjectItem[], chosen: SnapshotChange[]): ProjectItem[] => {
+  const kinds = new Map(chosen.map(c => [c.id, c.kind]));
+  const snapshotById = new Map(snapshot.map(i => [i.id, i]));
+  const result = current
+    .filter(item => kinds.get(item.id) !== 'added' && kinds.get(item.id) !== 'moved')
+    .map(item => kinds.get(item.id) === 'changed' ? snapshotById.get(item.id)! : item);
+  snapshot.forEach((item, index) => {
+    const kind = kinds.get(item.id);
+    if (kind !== 'moved' && kind !== 'removed') return;
+    let anchor = index - 1;
+    while (anchor >= 0 && !result.some(r => r.id === snapshot[anchor].id)) anchor--;
+    const at = anchor >= 0 ? result.findIndex(r => r.id === snapshot[anchor].id) + 1 : 0;
+    result.splice(at, 0, item);
+  });
+  return result;
+};
@@ -0,0 +1,102 @@
+
+import { ProjectItem } from '../types';
+import { isSchedulable } from './scheduling';
+
+/**
+ * Work breakdown structure. The outline tree is implied by row order and each item's
+ * `level`: an item belongs to the nearest step above it with a lower level, and a step's
+ * subtree is the run of rows right below it that sit deeper.
+ */
+
+export interface OutlineEntry {
+  level: number;
+  code: string;   // WBS code, e.g. "1.2.3"
+  parent: number; // Row index of the parent step, -1 at the top
+}
+
+// Plans saved before nesting have no levels: steps at the top, tasks and milestones under them
+export const getLevel = (item: ProjectItem): number => item.level ?? (item.type === 'S' ? 0 : 1);
+
+/**
+ * Clamps the levels into a well-formed tree and numbers it. An item sits at most one level
+ * below the step above it and only steps have children; tasks and milestones stay below the
+ * top level whenever there is a step to hold them.
+ */
+export const buildOutline = (list: ProjectItem[]): OutlineEntry[] => {
+  const open: number[] = [];     // Row index of the open step at each level
+  const counters: number[] = []; // Last number used at each level
+  return list.map((item, idx) => {
+    const level = Math.min(Math.max(item.type === 'S' ? 0 : 1, getLevel(item)), open.length);
+    open.length = level;
+    counters.length = level + 1;
+    counters[level] = (counters[level] || 0) + 1;
+    const entry = { level, code: counters.join('.'), parent: level > 0 ? open[level - 1] : -1 };
+    if (item.type === 'S') open.push(idx);
+    return entry;
+  });
+};
+
+/**
+ * Exclusive end of the rows owned by the item at `index` (just the item itself unless it is a step).
+ */
+export const getSubtreeEnd = (list: ProjectItem[], index: number): number => {
+  if (list[index].type !== 'S') return index + 1;
+  const level = getLevel(list[index]);
+  let end = index + 1;
+  while (end < list.length && getLevel(list[end]) > level) end++;
+  return end;
+};
+
+/**
+ * Tasks and milestones anywhere below the step at `index`.
+ */
+export const getScheduledDescendants = (list: ProjectItem[], index: number): ProjectItem[] =>
+  list.slice(index + 1, getSubtreeEnd(list, index)).filter(isSchedulable);
+
+/**
+ * Nearest step above the item, or undefined for top-level rows.
+ */
+export const getParentStep = (list: ProjectItem[], index: number): ProjectItem | undefined => {
+  const level = getLevel(list[index]);
+  for (let i = index - 1; i >= 0; i--) {
+    if (list[i].type === 'S' && getLevel(list[i]) < level) return list[i];
+  }
+  return undefined;
+};
+
+/**
+ * Ids of the rows inside collapsed steps. The collapsed steps themselves stay visible.
+ */
+export const getHiddenIds = (list: ProjectItem[], collapsed: Set<string>): Set<string> => {
+  const hidden = new Set<string>();
+  if (collapsed.size === 0) return hidden;
+  for (let i = 0; i < list.length; i++) {
+    if (list[i].type !== 'S' || !collapsed.has(list[i].id)) continue;
+    const end = getSubtreeEnd(list, i);
+    for (let j = i + 1; j < end; j++) hidden.add(list[j].id);
+    i = end - 1;
+  }
+  return hidden;
+};
+
+/**
+ * Moves the item at `from` together with its subtree onto the row at `to`, and indents
+ * (`levelDelta` > 0) or outdents it. Moving up lands the rows before the target, moving down
+ * lands them after the target's own subtree; either way they start at the target's level.
+ * Dropping on the item itself only indents or outdents. Levels are clamped by re-indexing.
+ */
+export const moveSubtree = (list: ProjectItem[], from: number, to: number, levelDelta: number): ProjectItem[] => {
+  const end = getSubtreeEnd(list, from);
+  const inside = to >= from && to < end;
+  if (inside && (to !== from || levelDelta === 0)) return list;
+
+  const rootLevel = inside ? getLevel(list[from]) : getLevel(list[to]);
+  const shift = Math.max(0, rootLevel + levelDelta) - getLevel(list[from]);
+  const block = list.slice(from, end).map(item => ({ ...item, level: Math.max(0, getLevel(item) + shift) }));
+  if (inside) return [...list.slice(0, from), ...block, ...list.slice(end)];
+
+  const insertAt = to < from ? to : getSubtreeEnd(list, to);
+  const before = list.slice(0, insertAt).filter((_, idx) => idx < from || idx >= end);
+  const after = list.slice(insertAt).filter((_, idx) => idx + insertAt < from || idx + insertAt >= end);
+  return [...before, ...block, ...after];
+};